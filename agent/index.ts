@@ -62,6 +62,10 @@ const refreshConnection = async () => {
       "agent-id": agentId,
       "agent-name": agentName,
       "agent-installed-models": installedModels.join(","),
+      "agent-labels": Object.entries(config.labels)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(","),
+      ...(config.peerUrl ? { "agent-peer-url": config.peerUrl } : {}),
     },
   });
 
@@ -75,7 +79,21 @@ const refreshConnection = async () => {
     currentModels: () => agentService.currentModels(),
     startModel: (params: any) => agentService.startModel(params),
     downloadModel: (params: any) => agentService.downloadModel(params),
+    cancelDownload: (params: any) => agentService.cancelDownload(params),
+    resolveModel: (params: any) => agentService.resolveModel(params),
+    deleteModel: (params: any) => agentService.deleteModel(params),
+    diskUsage: () => agentService.diskUsage(),
     status: () => agentService.status(),
+    cancel: (params: any) => agentService.cancel(params),
+    unloadModel: (params: any) => agentService.unloadModel(params),
+    pinModel: (params: any) => agentService.pinModel(params),
+    setEvictionPolicy: (params: any) => agentService.setEvictionPolicy(params),
+    unloadModels: () => agentService.unloadModels(),
+    exit: async () => {
+      // Answer the controller before the connection goes away
+      setTimeout(() => shutdown("controller request"), 100);
+      return { exiting: true };
+    },
   });
 
   // Get controller remote interface and set it on agent service
@@ -89,6 +107,8 @@ const refreshConnection = async () => {
   transport.on("open", async () => {
     logger.info("Connected to controller");
     reconnectAttempts = 0; // Reset reconnect counter on successful connection
+    agentService.reportSlots();
+    agentService.reportStatus();
 
     // Start watching models folder only after connection is established
     // This ensures the initial model notification goes through
@@ -8,6 +8,18 @@ import type { AgentConfig } from "./config.js";
 import { HardwareMonitor } from "./monitoring/hardware-monitor.js";
 import { ProcessManager } from "./processes/process-manager.js";
 import { ModelDownloader } from "./models/model-downloader.js";
+import { HuggingFaceResolver, ModelResolver } from "./models/model-resolver.js";
+import { PeerServer } from "./models/peer-server.js";
+import { rm, stat } from "fs/promises";
+import type {
+  DeleteModelResult,
+  DeleteRefusal,
+  DiskUsage,
+  DownloadProgress,
+  ResolvedFile,
+  ResolvedModel,
+} from "./models/types.js";
+import { ModelInsights } from "./models/model-insights.js";
 import {
   loadOrGenerateAgentId,
   listInstalledModels,
@@ -15,22 +27,61 @@ import {
   modelExists,
   ensureDirExists,
   watchModelsFolder,
+  getDiskSpace,
+  getModelFiles,
 } from "./utils/filesystem.js";
 import { logger } from "./utils/logger.js";
-import { ModelNotFoundError, ModelLoadError } from "./utils/errors.js";
-import type { MainProcessFunctions } from "./processes/types.js";
+import {
+  AgentError,
+  ModelNotFoundError,
+  ModelLoadError,
+  InsufficientDiskSpaceError,
+  ProcessError,
+} from "./utils/errors.js";
+import { EVICTION_POLICIES, isEvictionPolicy } from "./processes/types.js";
+import type {
+  EvictionPolicy,
+  MainProcessFunctions,
+  TokenUsage,
+} from "./processes/types.js";
+import type { StatusReport } from "./monitoring/types.js";
+
+const MB = 1024 * 1024;
 
 export class AgentService {
   private agentId: string = "";
   private hardwareMonitor: HardwareMonitor;
   private processManager: ProcessManager;
   private modelDownloader: ModelDownloader;
+  private modelResolver: ModelResolver;
+  private peerServer: PeerServer;
+  private modelInsights: ModelInsights;
   private controllerRPC: any = null; // Will be set from index.ts
   private modelsWatcher: (() => void) | null = null;
+  // Downloads in progress, by filename
+  private downloads: Map<string, AbortController> = new Map();
+  private statusTimer: NodeJS.Timeout | null = null;
+  // Completion tokens generated since the last status report
+  private generatedTokens = 0;
+  private lastStatusReportAt = Date.now();
 
   constructor(private config: AgentConfig) {
     this.hardwareMonitor = new HardwareMonitor();
-    this.modelDownloader = new ModelDownloader(config.modelsDir);
+    this.modelDownloader = new ModelDownloader(
+      config.modelsDir,
+      config.agentSecretKey
+    );
+    this.peerServer = new PeerServer(config.modelsDir, config.agentSecretKey);
+    this.modelResolver = new ModelResolver([
+      new HuggingFaceResolver(
+        config.huggingFaceEndpoint,
+        config.huggingFaceToken
+      ),
+    ]);
+    this.modelInsights = new ModelInsights(
+      config.modelsDir,
+      config.sequenceContextSize
+    );
 
     // Create main process functions for child processes to call
     const mainFunctions: MainProcessFunctions = {
@@ -42,8 +93,14 @@ export class AgentService {
     this.processManager = new ProcessManager(
       {
         maxConcurrentModels: config.maxConcurrentModels,
+        maxSequencesPerModel: config.maxSequencesPerModel,
+        modelSequences: config.modelSequences,
+        sequenceContextSize: config.sequenceContextSize,
+        vramBufferPercent: config.vramBufferPercent,
+        evictionPolicy: config.evictionPolicy,
       },
-      mainFunctions
+      mainFunctions,
+      () => this.reportSlots()
     );
   }
 
@@ -65,6 +122,15 @@ export class AgentService {
     await this.hardwareMonitor.initialize();
     this.hardwareMonitor.startMonitoring(this.config.hardwarePollIntervalMs);
 
+    this.statusTimer = setInterval(
+      () => this.reportStatus(),
+      this.config.statusReportIntervalMs
+    );
+
+    if (this.config.peerPort) {
+      await this.peerServer.start(this.config.peerPort);
+    }
+
     logger.info("Agent service initialized");
   }
 
@@ -96,6 +162,135 @@ export class AgentService {
     return await listInstalledModels(this.config.modelsDir);
   }
 
+  /**
+   * Forward download progress to the controller
+   */
+  private reportDownloadProgress(progress: DownloadProgress): void {
+    if (!this.controllerRPC) {
+      return;
+    }
+
+    this.controllerRPC
+      .downloadProgress({ agentId: this.agentId, ...progress })
+      .catch((error: unknown) => {
+        logger.error({ error }, "Failed to report download progress");
+      });
+  }
+
+  /**
+   * Advertise the total and free sequences of each loaded model so the
+   * controller can route on slot availability
+   */
+  async reportSlots(): Promise<void> {
+    if (!this.controllerRPC) {
+      return;
+    }
+
+    try {
+      await this.controllerRPC.updateSlots({
+        agentId: this.agentId,
+        slots: this.processManager.getSlots(),
+      });
+    } catch (error) {
+      logger.error({ error }, "Failed to report slots to controller");
+    }
+  }
+
+  /**
+   * Push a heartbeat with hardware metrics, slot usage and generation
+   * throughput to the controller
+   */
+  async reportStatus(): Promise<void> {
+    if (!this.controllerRPC) {
+      return;
+    }
+
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastStatusReportAt) / 1000;
+    const tokensPerSecond =
+      elapsedSeconds > 0 ? this.generatedTokens / elapsedSeconds : 0;
+    this.generatedTokens = 0;
+    this.lastStatusReportAt = now;
+
+    const slots = this.processManager.getSlots();
+    const hardware = this.hardwareMonitor.getLastMetrics();
+    const installedModels = await this.getInstalledModels();
+    const report: StatusReport = {
+      agentId: this.agentId,
+      hardware,
+      loadedModels: this.processManager.getLoadedModels(),
+      slots,
+      busySlots: Object.values(slots).reduce(
+        (busy, model) => busy + model.total - model.free,
+        0
+      ),
+      tokensPerSecond: Math.round(tokensPerSecond * 10) / 10,
+      availableMemoryMb: hardware ? this.getUsableMemoryMb() : null,
+      modelFootprints: await this.modelInsights.estimateFootprints(
+        installedModels,
+        hardware?.type === "gpu"
+      ),
+      pinnedModels: this.processManager.getPinnedModels(),
+      evictionPolicy: this.processManager.getEvictionPolicy(),
+    };
+
+    try {
+      await this.controllerRPC.reportStatus(report);
+    } catch (error) {
+      logger.error({ error }, "Failed to report status to controller");
+    }
+  }
+
+  /**
+   * Memory (MB) that models may still use: what's free minus a reserve of
+   * VRAM_BUFFER_PERCENT of the total, but at least MIN_FREE_VRAM_MB
+   */
+  private getUsableMemoryMb(): number {
+    const metrics = this.hardwareMonitor.getLastMetrics();
+    const total =
+      (metrics?.type === "gpu" ? metrics.gpuMemoryTotal : metrics?.ramTotal) ??
+      0;
+    const reserve = Math.max(
+      (total * this.config.vramBufferPercent) / 100,
+      this.config.minFreeVramMb
+    );
+    return Math.max(0, this.hardwareMonitor.getAvailableMemory() - reserve);
+  }
+
+  /**
+   * Unload idle models until the model is expected to fit in memory.
+   * Throws instead of loading a model that would run out of memory.
+   */
+  private async ensureMemoryFor(modelName: string): Promise<void> {
+    const metrics = this.hardwareMonitor.getLastMetrics();
+    if (!metrics) {
+      return; // Nothing measured yet, let the loader try
+    }
+
+    const onGpu = metrics.type === "gpu";
+    const needed = await this.modelInsights.estimateFootprintMb(
+      modelName,
+      onGpu
+    );
+    let available = this.getUsableMemoryMb();
+
+    while (needed > available) {
+      let unloaded: string;
+      try {
+        unloaded = await this.processManager.evictModel();
+      } catch {
+        throw new ProcessError(
+          `Not enough memory to load ${modelName}: needs ${needed}MB, ${available}MB available`,
+          { modelName, needed, available }
+        );
+      }
+      // Hardware metrics lag behind, count the unloaded model as freed
+      available += await this.modelInsights
+        .estimateFootprintMb(unloaded, onGpu)
+        .catch(() => 0);
+    }
+  }
+
   /**
    * THIN AGENT: Forward chunk from child process to controller immediately
    */
@@ -129,7 +324,14 @@ export class AgentService {
   private async handleReceiveComplete(params: {
     requestId: string;
     data?: any;
+    usage?: TokenUsage;
+    prefixKey?: string;
   }): Promise<void> {
+    if (params.usage) {
+      this.generatedTokens +=
+        params.usage.completion_tokens + (params.usage.thought_tokens ?? 0);
+    }
+
     if (!this.controllerRPC) {
       logger.error("Controller RPC not set");
       return;
@@ -140,6 +342,8 @@ export class AgentService {
         agentId: this.agentId,
         requestId: params.requestId,
         data: params.data || "[DONE]",
+        usage: params.usage,
+        prefixKey: params.prefixKey,
       });
     } catch (error) {
       logger.error(
@@ -166,11 +370,11 @@ export class AgentService {
     }
 
     try {
-      // Report error to controller
-      await this.controllerRPC.error({
-        error: params.error,
+      // Report error to controller so the waiting client gets answered
+      await this.controllerRPC.receiveError({
         agentId: this.agentId,
-        context: { requestId: params.requestId },
+        requestId: params.requestId,
+        error: params.error,
       });
     } catch (error) {
       logger.error({ error }, "Error reporting to controller");
@@ -217,6 +421,7 @@ export class AgentService {
 
     // Load model in child process
     try {
+      await this.ensureMemoryFor(modelName);
       await this.processManager.loadModel(modelPath, modelName);
       logger.info({ modelName }, "Model started successfully");
       return { models: this.processManager.getLoadedModels() };
@@ -227,51 +432,334 @@ export class AgentService {
   }
 
   /**
-   * RPC Method: Download a model
+   * RPC Method: Unload a single model, releasing its pin
+   */
+  async unloadModel(params: { model: string }): Promise<{ models: string[] }> {
+    const modelName = params.model;
+    const proc = this.processManager.getProcess(modelName);
+    if (proc && proc.activeRequests > 0) {
+      throw new ProcessError(`Model is generating: ${modelName}`, {
+        modelName,
+        activeRequests: proc.activeRequests,
+      });
+    }
+
+    logger.info({ modelName }, "Unloading model on request");
+    this.processManager.pinModel(modelName, false);
+    await this.processManager.unloadModel(modelName);
+    await this.reportStatus();
+    return { models: this.processManager.getLoadedModels() };
+  }
+
+  /**
+   * RPC Method: Pin a model so it's never evicted, loading it if needed,
+   * or unpin it
+   */
+  async pinModel(params: {
+    model: string;
+    pinned: boolean;
+  }): Promise<{ models: string[]; pinned: string[] }> {
+    const modelName = params.model;
+    if (params.pinned) {
+      await this.startModel({ model: modelName });
+    }
+
+    this.processManager.pinModel(modelName, params.pinned);
+    logger.info({ modelName, pinned: params.pinned }, "Model pin changed");
+    await this.reportStatus();
+    return {
+      models: this.processManager.getLoadedModels(),
+      pinned: this.processManager.getPinnedModels(),
+    };
+  }
+
+  /**
+   * RPC Method: Change which idle model makes room for new ones
+   */
+  async setEvictionPolicy(params: {
+    policy: string;
+  }): Promise<{ policy: EvictionPolicy }> {
+    if (!isEvictionPolicy(params.policy)) {
+      throw new AgentError(
+        `Eviction policy must be one of: ${EVICTION_POLICIES.join(", ")}`,
+        "INVALID_EVICTION_POLICY"
+      );
+    }
+
+    this.processManager.setEvictionPolicy(params.policy);
+    logger.info({ policy: params.policy }, "Eviction policy changed");
+    await this.reportStatus();
+    return { policy: params.policy };
+  }
+
+  /**
+   * RPC Method: Unload every loaded model
+   */
+  async unloadModels(): Promise<{ models: string[] }> {
+    logger.info("Unloading all models");
+    await this.processManager.shutdown();
+    return { models: this.processManager.getLoadedModels() };
+  }
+
+  /**
+   * RPC Method: Resolve a model reference such as hf:owner/repo:Q4_K_M to
+   * the files it stands for, without downloading them
+   */
+  async resolveModel(params: { reference: string }): Promise<ResolvedModel> {
+    return this.modelResolver.resolve(params.reference);
+  }
+
+  /**
+   * RPC Method: Download a model from a URL, or from a reference such as
+   * hf:owner/repo:Q4_K_M, optionally verifying the sha256 and size of a
+   * plain URL. Files with a known sha256 are pulled from peers first.
+   * Progress is reported to the controller as the download goes.
    */
   async downloadModel(params: {
     model_url: string;
-    filename: string;
+    // Required for plain URLs, taken from the source for references
+    filename?: string;
+    sha256?: string;
+    size?: number;
+    // Peer servers of agents that have the model
+    peers?: string[];
+    // Models that may be deleted to make room, when the disk is short
+    collectable?: string[];
   }): Promise<{ filename: string }> {
     logger.info(
-      { url: params.model_url, filename: params.filename },
+      {
+        url: params.model_url,
+        filename: params.filename,
+        peers: params.peers?.length ?? 0,
+      },
       "Downloading model"
     );
 
+    const resolved = this.modelResolver.isReference(params.model_url)
+      ? await this.modelResolver.resolve(params.model_url)
+      : null;
+    const target = resolved?.filename ?? params.filename;
+    if (!target) {
+      throw new AgentError(
+        "A filename is required to download a plain URL",
+        "INVALID_DOWNLOAD",
+        { url: params.model_url }
+      );
+    }
+
+    if (this.downloads.has(target)) {
+      throw new AgentError(
+        `${target} is already being downloaded`,
+        "DOWNLOAD_IN_PROGRESS",
+        { filename: target }
+      );
+    }
+    const abortController = new AbortController();
+    this.downloads.set(target, abortController);
+
     try {
-      const filename = await this.modelDownloader.downloadModel(
-        params.model_url,
-        params.filename
+      const files: ResolvedFile[] = resolved?.files ?? [
+        { url: params.model_url, filename: target, size: params.size },
+      ];
+      await this.ensureDiskSpace(
+        await this.modelDownloader.remainingBytes(files),
+        params.collectable ?? []
       );
-      logger.info({ filename }, "Model downloaded successfully");
 
-      // Notify controller of updated model list
-      if (this.controllerRPC) {
-        try {
-          const installedModels = await this.getInstalledModels();
-          await this.controllerRPC.updateModels({
-            agentId: this.agentId,
-            models: installedModels,
+      const onProgress = (progress: DownloadProgress) =>
+        this.reportDownloadProgress(progress);
+      const filename = resolved
+        ? await this.modelDownloader.downloadFiles(resolved, {
+            onProgress,
+            signal: abortController.signal,
+            peers: params.peers,
+          })
+        : await this.modelDownloader.downloadModel(params.model_url, target, {
+            sha256: params.sha256,
+            size: params.size,
+            onProgress,
+            signal: abortController.signal,
+            peers: params.peers,
           });
-          logger.info(
-            { count: installedModels.length },
-            "Notified controller of model update"
-          );
-        } catch (notifyError) {
-          logger.error(
-            { error: notifyError },
-            "Failed to notify controller of model update"
-          );
-        }
-      }
+      logger.info({ filename }, "Model downloaded successfully");
 
+      await this.reportModels();
       return { filename };
     } catch (error) {
+      logger.error({ error, filename: target }, "Model download failed");
+      throw error;
+    } finally {
+      this.downloads.delete(target);
+    }
+  }
+
+  /**
+   * RPC Method: Stop a download in progress and delete its partial file
+   */
+  async cancelDownload(params: {
+    filename: string;
+  }): Promise<{ cancelled: boolean }> {
+    const abortController = this.downloads.get(params.filename);
+    if (!abortController) {
+      return { cancelled: false };
+    }
+
+    logger.info({ filename: params.filename }, "Cancelling model download");
+    abortController.abort();
+    return { cancelled: true };
+  }
+
+  /**
+   * RPC Method: Delete an installed model's files, all parts of a split
+   * GGUF included. Missing, loaded, pinned and downloading models are
+   * refused with the reason.
+   */
+  async deleteModel(params: { model: string }): Promise<DeleteModelResult> {
+    const modelName = params.model;
+    // Also keeps the name inside the models directory
+    if (!(await this.getInstalledModels()).includes(modelName)) {
+      return { deleted: false, reason: "not_found" };
+    }
+    const reason = this.inUse(modelName);
+    if (reason) {
+      logger.info({ modelName, reason }, "Refused to delete model");
+      return { deleted: false, reason };
+    }
+
+    const result = await this.removeModelFiles(modelName);
+    logger.info({ modelName, ...result }, "Model deleted");
+
+    await this.reportModels();
+    return result;
+  }
+
+  /**
+   * RPC Method: Disk space of the models directory and what each model takes
+   */
+  async diskUsage(): Promise<DiskUsage> {
+    const { total, free } = await getDiskSpace(this.config.modelsDir);
+    const loaded = this.processManager.getLoadedModels();
+    const pinned = this.processManager.getPinnedModels();
+
+    const models = await Promise.all(
+      (await this.getInstalledModels()).map(async (model) => ({
+        model,
+        bytes: await this.modelBytes(model),
+        loaded: loaded.includes(model),
+        pinned: pinned.includes(model),
+      }))
+    );
+    return {
+      totalBytes: total,
+      freeBytes: free,
+      modelsBytes: models.reduce((sum, model) => sum + model.bytes, 0),
+      models,
+    };
+  }
+
+  /**
+   * Why the model can't be deleted right now, or null if it can
+   */
+  private inUse(modelName: string): Exclude<DeleteRefusal, "not_found"> | null {
+    if (this.processManager.getProcess(modelName)) return "loaded";
+    if (this.processManager.getPinnedModels().includes(modelName)) {
+      return "pinned";
+    }
+    if (this.downloads.has(modelName)) return "downloading";
+    return null;
+  }
+
+  private async modelBytes(modelName: string): Promise<number> {
+    let bytes = 0;
+    for (const file of getModelFiles(modelName)) {
+      const stats = await stat(getModelPath(this.config.modelsDir, file)).catch(
+        () => null
+      );
+      bytes += stats?.size ?? 0;
+    }
+    return bytes;
+  }
+
+  private async removeModelFiles(
+    modelName: string
+  ): Promise<{ deleted: string[]; freedBytes: number }> {
+    const deleted: string[] = [];
+    let freedBytes = 0;
+    for (const file of getModelFiles(modelName)) {
+      const path = getModelPath(this.config.modelsDir, file);
+      const stats = await stat(path).catch(() => null);
+      if (!stats) continue;
+      await rm(path, { force: true });
+      deleted.push(file);
+      freedBytes += stats.size;
+    }
+    return { deleted, freedBytes };
+  }
+
+  /**
+   * Make sure a download of this many bytes leaves MIN_FREE_DISK_MB free,
+   * deleting collectable models that aren't in use, least recently used
+   * first, if it wouldn't. Throws if that isn't enough.
+   */
+  private async ensureDiskSpace(
+    bytes: number,
+    collectable: string[]
+  ): Promise<void> {
+    const needed = bytes + this.config.minFreeDiskMb * MB;
+    let { free } = await getDiskSpace(this.config.modelsDir);
+    if (free >= needed) return;
+
+    const installed = await this.getInstalledModels();
+    const candidates = await Promise.all(
+      collectable
+        .filter((model) => installed.includes(model) && !this.inUse(model))
+        .map(async (model) => ({
+          model,
+          // Models unused since the agent started go by download time
+          usedAt:
+            this.processManager.getLastUsedAt(model)?.getTime() ??
+            (await stat(getModelPath(this.config.modelsDir, model))).mtimeMs,
+        }))
+    );
+    candidates.sort((a, b) => a.usedAt - b.usedAt);
+
+    for (const { model } of candidates) {
+      if (free >= needed) break;
+      const { freedBytes } = await this.removeModelFiles(model);
+      logger.warn(
+        { modelName: model, freedBytes },
+        "Deleted model to make room for a download"
+      );
+      free = (await getDiskSpace(this.config.modelsDir)).free;
+    }
+
+    if (free < needed) {
+      throw new InsufficientDiskSpaceError(needed, free);
+    }
+  }
+
+  /**
+   * Tell the controller which models are installed now, with what their
+   * GGUF headers say about them
+   */
+  async reportModels(): Promise<void> {
+    if (!this.controllerRPC) return;
+    try {
+      const installedModels = await this.getInstalledModels();
+      await this.controllerRPC.updateModels({
+        agentId: this.agentId,
+        models: installedModels,
+        inventory: await this.modelInsights.describeModels(installedModels),
+      });
+      logger.info(
+        { count: installedModels.length },
+        "Notified controller of model update"
+      );
+    } catch (notifyError) {
       logger.error(
-        { error, filename: params.filename },
-        "Model download failed"
+        { error: notifyError },
+        "Failed to notify controller of model update"
       );
-      throw error;
     }
   }
 
@@ -318,6 +806,15 @@ export class AgentService {
     return {};
   }
 
+  /**
+   * RPC Method: Cancel an in-progress completion or chat
+   */
+  async cancel(params: { requestId: string }): Promise<{ cancelled: boolean }> {
+    const cancelled = await this.processManager.cancelRequest(params.requestId);
+    logger.info({ requestId: params.requestId, cancelled }, "Cancel request");
+    return { cancelled };
+  }
+
   /**
    * RPC Method: Get agent status
    */
@@ -340,7 +837,10 @@ export class AgentService {
    */
   async startWatching(): Promise<void> {
     if (this.modelsWatcher) {
-      return; // Already watching
+      // Reconnected: the connection headers only carry filenames, so send
+      // the inventory again
+      await this.reportModels();
+      return;
     }
 
     this.modelsWatcher = watchModelsFolder(
@@ -358,6 +858,7 @@ export class AgentService {
           await this.controllerRPC.updateModels({
             agentId: this.agentId,
             models,
+            inventory: await this.modelInsights.describeModels(models),
           });
           logger.info(
             { modelCount: models.length },
@@ -395,7 +896,13 @@ export class AgentService {
       this.modelsWatcher = null;
     }
 
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
     this.hardwareMonitor.stopMonitoring();
+    await this.peerServer.stop();
     await this.processManager.shutdown();
 
     logger.info("Agent service shut down");
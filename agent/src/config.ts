@@ -1,13 +1,34 @@
+import { networkInterfaces } from "os";
+import { EVICTION_POLICIES, isEvictionPolicy } from "./processes/types.js";
+import type { EvictionPolicy } from "./processes/types.js";
+
 export interface AgentConfig {
   controllerUrl: string;
   agentSecretKey: string;
   agentName: string;
+  // Placement labels advertised to the controller, e.g. gpu=a100
+  labels: Record<string, string>;
   modelsDir: string;
   agentDataDir: string;
   maxConcurrentModels: number;
+  maxSequencesPerModel: number;
+  modelSequences: Record<string, number>;
+  sequenceContextSize: number;
   hardwarePollIntervalMs: number;
+  statusReportIntervalMs: number;
   vramBufferPercent: number;
   minFreeVramMb: number;
+  // Disk space downloads leave free, deleting collectable models if needed
+  minFreeDiskMb: number;
+  evictionPolicy: EvictionPolicy;
+  // Where hf: model references are resolved and downloaded from
+  huggingFaceEndpoint: string;
+  // For gated and private repositories
+  huggingFaceToken?: string;
+  // Port serving installed model files to other agents; unset disables it
+  peerPort?: number;
+  // Where other agents reach the peer server
+  peerUrl?: string;
 }
 
 export function loadConfig(): AgentConfig {
@@ -15,13 +36,88 @@ export function loadConfig(): AgentConfig {
     controllerUrl: process.env.CONTROLLER_URL_WS || "ws://localhost:4080/ws",
     agentSecretKey: process.env.AGENT_SECRET_KEY || "dev-secret-key",
     agentName: process.env.AGENT_NAME || "Agent-1",
+    labels: parseLabels(process.env.AGENT_LABELS || ""),
     modelsDir: process.env.MODELS_DIR || "./models",
     agentDataDir: process.env.AGENT_DATA_DIR || "./data",
     maxConcurrentModels: parseInt(process.env.MAX_CONCURRENT_MODELS || "3"),
+    maxSequencesPerModel: parseInt(process.env.MAX_SEQUENCES_PER_MODEL || "8"),
+    modelSequences: parseModelSequences(process.env.MODEL_SEQUENCES || ""),
+    sequenceContextSize: parseInt(process.env.SEQUENCE_CONTEXT_SIZE || "4096"),
     hardwarePollIntervalMs: parseInt(
       process.env.HARDWARE_POLL_INTERVAL_MS || "5000"
     ),
+    statusReportIntervalMs: parseInt(
+      process.env.STATUS_REPORT_INTERVAL_MS || "10000"
+    ),
     vramBufferPercent: parseInt(process.env.VRAM_BUFFER_PERCENT || "20"),
     minFreeVramMb: parseInt(process.env.MIN_FREE_VRAM_MB || "1024"),
+    minFreeDiskMb: parseInt(process.env.MIN_FREE_DISK_MB || "1024"),
+    evictionPolicy: parseEvictionPolicy(process.env.EVICTION_POLICY || "lfu"),
+    huggingFaceEndpoint: process.env.HF_ENDPOINT || "https://huggingface.co",
+    huggingFaceToken: process.env.HF_TOKEN || undefined,
+    ...parsePeerConfig(process.env.PEER_PORT || "", process.env.PEER_URL || ""),
+  };
+}
+
+/**
+ * The peer server's port and advertised URL, which defaults to the first
+ * LAN address
+ */
+function parsePeerConfig(
+  port: string,
+  url: string
+): Pick<AgentConfig, "peerPort" | "peerUrl"> {
+  if (!port) return {};
+
+  const peerPort = parseInt(port);
+  if (!(peerPort > 0 && peerPort < 65536)) {
+    throw new Error("PEER_PORT must be a port number");
+  }
+  if (url) return { peerPort, peerUrl: url.replace(/\/$/, "") };
+
+  const address = Object.values(networkInterfaces())
+    .flat()
+    .find((net) => net?.family === "IPv4" && !net.internal)?.address;
+  return {
+    peerPort,
+    peerUrl: `http://${address ?? "localhost"}:${peerPort}`,
   };
 }
+
+/**
+ * Parse per-model sequence overrides, e.g. "llama-3-8b.gguf=4,qwen.gguf=2"
+ */
+function parseModelSequences(value: string): Record<string, number> {
+  const sequences: Record<string, number> = {};
+  for (const entry of value.split(",")) {
+    const [model, count] = entry.split("=").map((part) => part.trim());
+    const parsed = parseInt(count || "");
+    if (model && parsed > 0) {
+      sequences[model] = parsed;
+    }
+  }
+  return sequences;
+}
+
+/**
+ * Parse agent labels, e.g. "region=eu-west,gpu=a100,trust=private"
+ */
+function parseLabels(value: string): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    const [key, label] = entry.split("=").map((part) => part.trim());
+    if (key && label) {
+      labels[key] = label;
+    }
+  }
+  return labels;
+}
+
+function parseEvictionPolicy(value: string): EvictionPolicy {
+  if (!isEvictionPolicy(value)) {
+    throw new Error(
+      `EVICTION_POLICY must be one of: ${EVICTION_POLICIES.join(", ")}`
+    );
+  }
+  return value;
+}
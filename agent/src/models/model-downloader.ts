@@ -1,58 +1,396 @@
-import { createWriteStream } from "fs";
+import { createReadStream, createWriteStream } from "fs";
+import { rename, rm, stat } from "fs/promises";
+import { createHash } from "crypto";
 import { pipeline } from "stream/promises";
+import { Readable } from "stream";
 import { join } from "path";
 import { logger } from "../utils/logger.js";
+import { AgentError } from "../utils/errors.js";
+import { peerFileUrl } from "./peer-server.js";
+import type {
+  DownloadOptions,
+  DownloadProgress,
+  DownloadStatus,
+  ResolvedFile,
+  ResolvedModel,
+} from "./types.js";
+
+// Partial downloads end in .part, so they are never listed as installed
+export const PARTIAL_SUFFIX = ".part";
+
+// Attempts per download, resuming where the previous one stopped
+const MAX_ATTEMPTS = 5;
+// Peers are on the LAN; one that fails twice is better left for the origin
+const PEER_ATTEMPTS = 2;
+const RETRY_DELAY_MS = 2000;
+// Minimum time between two progress reports
+const PROGRESS_INTERVAL_MS = 1000;
+
+export class DownloadError extends AgentError {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    details?: any
+  ) {
+    super(message, "DOWNLOAD_ERROR", details);
+    this.name = "DownloadError";
+  }
+}
 
 export class ModelDownloader {
-  constructor(private modelsDir: string) {}
+  constructor(
+    private modelsDir: string,
+    // Authenticates with other agents' peer servers
+    private peerSecretKey?: string
+  ) {}
 
-  async downloadModel(url: string, filename: string): Promise<string> {
+  /**
+   * Download a model into a partial file next to its final path, resuming
+   * with HTTP Range requests after dropped connections. The file is only
+   * renamed into place once its size and checksum check out. Peers that
+   * have the file are tried first, falling back to the url.
+   */
+  async downloadModel(
+    url: string,
+    filename: string,
+    options: DownloadOptions = {}
+  ): Promise<string> {
     const modelPath = join(this.modelsDir, filename);
+    const partialPath = modelPath + PARTIAL_SUFFIX;
+    const progress = new ProgressReporter(filename, options.onProgress);
+    const sources = [
+      ...(options.sha256 && this.peerSecretKey
+        ? (options.peers ?? [])
+        : []
+      ).map((peer) => ({
+        url: peerFileUrl(peer, filename),
+        headers: { Authorization: `Bearer ${this.peerSecretKey}` },
+        attempts: PEER_ATTEMPTS,
+      })),
+      { url, headers: options.headers, attempts: MAX_ATTEMPTS },
+    ];
 
     logger.info({ url, filename, modelPath }, "Starting model download");
 
     try {
-      const response = await fetch(url);
+      for (const [index, source] of sources.entries()) {
+        try {
+          const total = await this.fetchWithRetries(
+            source.url,
+            partialPath,
+            progress,
+            { ...options, headers: source.headers },
+            source.attempts
+          );
+          progress.report("verifying", true);
+          await this.verify(partialPath, options.size ?? total, options.sha256);
+          break;
+        } catch (error) {
+          if (options.signal?.aborted || index === sources.length - 1) {
+            throw error;
+          }
+          // Whatever the peer sent is kept unless it failed verification
+          logger.warn(
+            { error, filename, peer: source.url },
+            "Download from peer failed, trying the next source"
+          );
+        }
+      }
+      await rename(partialPath, modelPath);
 
-      if (!response.ok) {
-        throw new Error(`Failed to download: ${response.statusText}`);
+      progress.report("completed", true);
+      logger.info({ filename, modelPath }, "Model downloaded successfully");
+      return filename;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        await rm(partialPath, { force: true });
+        progress.report("cancelled", true);
+        logger.info({ filename }, "Model download cancelled");
+        throw new DownloadError(`Download of ${filename} cancelled`, false);
       }
+      progress.fail(error as Error);
+      logger.error({ error, filename }, "Model download failed");
+      throw error;
+    }
+  }
 
-      const totalSize = parseInt(response.headers.get("content-length") || "0");
-      let downloaded = 0;
+  /**
+   * Download every file of a resolved model, e.g. the parts of a split
+   * GGUF. Progress is reported for the whole model under its filename;
+   * parts already downloaded are skipped.
+   */
+  async downloadFiles(
+    model: ResolvedModel,
+    options: Omit<DownloadOptions, "sha256" | "size"> = {}
+  ): Promise<string> {
+    const sizes = model.files.map((file) => file.size ?? 0);
+    const total = sizes.every((size) => size > 0)
+      ? sizes.reduce((sum, size) => sum + size, 0)
+      : 0;
 
-      logger.info({ totalSize, filename }, "Download started");
+    let done = 0;
+    for (const [index, file] of model.files.entries()) {
+      const path = join(this.modelsDir, file.filename);
+      const existing = await stat(path).catch(() => null);
+      if (!existing || file.size === undefined || existing.size !== file.size) {
+        const last = index === model.files.length - 1;
+        await this.downloadModel(file.url, file.filename, {
+          ...options,
+          sha256: file.sha256,
+          size: file.size,
+          headers: { ...options.headers, ...file.headers },
+          onProgress: (progress) => {
+            // Intermediate parts completing don't complete the model
+            if (progress.status === "completed" && !last) return;
+            const downloaded = done + progress.downloaded;
+            options.onProgress?.({
+              ...progress,
+              filename: model.filename,
+              downloaded,
+              total: total || progress.total,
+              percent:
+                total > 0
+                  ? Math.round((downloaded / total) * 10000) / 100
+                  : progress.percent,
+            });
+          },
+        });
+      }
+      done += (await stat(path)).size;
+    }
+    return model.filename;
+  }
 
-      const fileStream = createWriteStream(modelPath);
+  /**
+   * Bytes still to download for the files, counting complete files and
+   * partial downloads already on disk. Files of unknown size are asked for
+   * with a HEAD request, and count as 0 if the server doesn't tell.
+   */
+  async remainingBytes(files: ResolvedFile[]): Promise<number> {
+    let remaining = 0;
+    for (const file of files) {
+      const path = join(this.modelsDir, file.filename);
+      const size = file.size ?? (await this.probeSize(file));
+      const existing = await stat(path).catch(() => null);
+      if (existing && existing.size === size) continue;
 
-      // Stream to file with progress tracking
-      await pipeline(
-        response.body!,
-        async function* (source) {
-          for await (const chunk of source) {
-            downloaded += chunk.length;
-            const percent =
-              totalSize > 0 ? ((downloaded / totalSize) * 100).toFixed(2) : "0";
+      const partial = await stat(path + PARTIAL_SUFFIX).catch(() => null);
+      remaining += Math.max(0, size - (partial?.size ?? 0));
+    }
+    return remaining;
+  }
 
-            // Log progress every 10%
-            if (totalSize > 0 && downloaded % Math.floor(totalSize / 10) < chunk.length) {
-              logger.info(
-                { filename, downloaded, totalSize, percent },
-                "Download progress"
-              );
-            }
+  private async probeSize(file: ResolvedFile): Promise<number> {
+    try {
+      const response = await fetch(file.url, {
+        method: "HEAD",
+        headers: file.headers,
+      });
+      return parseInt(response.headers.get("content-length") || "0") || 0;
+    } catch {
+      return 0;
+    }
+  }
 
-            yield chunk;
-          }
-        },
-        fileStream
+  /**
+   * Fetch the file from one source, resuming after retryable failures;
+   * returns the full size of the file, or 0 if the server didn't tell
+   */
+  private async fetchWithRetries(
+    url: string,
+    partialPath: string,
+    progress: ProgressReporter,
+    options: DownloadOptions,
+    attempts: number
+  ): Promise<number> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.fetchToFile(url, partialPath, progress, options);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        const retryable = !(error instanceof DownloadError) || error.retryable;
+        if (!retryable || attempt >= attempts) throw error;
+
+        logger.warn({ error, url, attempt }, "Download interrupted, resuming");
+        await new Promise((r) => setTimeout(r, RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
+  /**
+   * Fetch the rest of the file into the partial file; returns the full size
+   * of the file, or 0 if the server didn't tell
+   */
+  private async fetchToFile(
+    url: string,
+    partialPath: string,
+    progress: ProgressReporter,
+    { signal, headers }: DownloadOptions
+  ): Promise<number> {
+    const offset = await stat(partialPath)
+      .then((stats) => stats.size)
+      .catch(() => 0);
+
+    const response = await fetch(url, {
+      headers: {
+        ...headers,
+        ...(offset > 0 ? { Range: `bytes=${offset}-` } : {}),
+      },
+      signal,
+    });
+
+    // The partial file already holds everything
+    if (response.status === 416 && offset > 0) {
+      progress.update(offset, offset);
+      return offset;
+    }
+
+    if (!response.ok || !response.body) {
+      throw new DownloadError(
+        `Failed to download: ${response.status} ${response.statusText}`,
+        response.status >= 500 || response.status === 429,
+        { status: response.status }
       );
+    }
 
-      logger.info({ filename, modelPath }, "Model downloaded successfully");
-      return filename;
-    } catch (error) {
-      logger.error({ error, filename }, "Model download failed");
-      throw error;
+    // Servers that ignore the Range header send the whole file again
+    const resumed = response.status === 206;
+    const start = resumed ? offset : 0;
+    const length = parseInt(response.headers.get("content-length") || "0");
+    const total = resumed
+      ? parseContentRangeTotal(response.headers.get("content-range")) ||
+        (length > 0 ? start + length : 0)
+      : length;
+
+    if (resumed) {
+      logger.info({ partialPath, offset, total }, "Resuming download");
+    }
+
+    let downloaded = start;
+    progress.update(downloaded, total);
+
+    await pipeline(
+      Readable.fromWeb(response.body as any),
+      async function* (source) {
+        for await (const chunk of source) {
+          downloaded += chunk.length;
+          progress.update(downloaded, total);
+          yield chunk;
+        }
+      },
+      createWriteStream(partialPath, { flags: resumed ? "a" : "w" }),
+      { signal }
+    );
+
+    if (total > 0 && downloaded < total) {
+      throw new DownloadError(
+        `Connection closed after ${downloaded} of ${total} bytes`,
+        true
+      );
+    }
+    return total || downloaded;
+  }
+
+  /**
+   * Check the downloaded file; mismatching files are deleted so the next
+   * attempt starts over
+   */
+  private async verify(
+    partialPath: string,
+    expectedSize: number,
+    sha256?: string
+  ): Promise<void> {
+    const { size } = await stat(partialPath);
+    if (expectedSize > 0 && size !== expectedSize) {
+      await rm(partialPath, { force: true });
+      throw new DownloadError(
+        `Size mismatch: expected ${expectedSize} bytes, got ${size}`,
+        false
+      );
+    }
+
+    if (!sha256) return;
+
+    const hash = createHash("sha256");
+    await pipeline(createReadStream(partialPath), hash);
+    const actual = hash.digest("hex");
+    if (actual !== sha256.toLowerCase()) {
+      await rm(partialPath, { force: true });
+      throw new DownloadError(
+        `Checksum mismatch: expected sha256 ${sha256}, got ${actual}`,
+        false
+      );
     }
   }
 }
+
+/**
+ * Total size from a "bytes start-end/total" Content-Range header
+ */
+function parseContentRangeTotal(header: string | null): number {
+  const match = header?.match(/\/(\d+)$/);
+  return match ? parseInt(match[1]!) : 0;
+}
+
+/**
+ * Throttles progress callbacks and tracks the transfer rate
+ */
+class ProgressReporter {
+  private downloaded = 0;
+  private total = 0;
+  private lastReportAt = 0;
+  private rateSince = Date.now();
+  private rateBytes = 0;
+  private bytesPerSecond = 0;
+
+  constructor(
+    private filename: string,
+    private onProgress?: (progress: DownloadProgress) => void
+  ) {}
+
+  update(downloaded: number, total: number): void {
+    const now = Date.now();
+    this.rateBytes += Math.max(0, downloaded - this.downloaded);
+    this.downloaded = downloaded;
+    this.total = total;
+
+    const elapsed = now - this.rateSince;
+    if (elapsed >= PROGRESS_INTERVAL_MS) {
+      this.bytesPerSecond = Math.round((this.rateBytes / elapsed) * 1000);
+      this.rateSince = now;
+      this.rateBytes = 0;
+    }
+    this.report("downloading");
+  }
+
+  report(status: DownloadStatus, force = false, error?: string): void {
+    const now = Date.now();
+    if (!force && now - this.lastReportAt < PROGRESS_INTERVAL_MS) return;
+    this.lastReportAt = now;
+
+    const percent =
+      this.total > 0
+        ? Math.round((this.downloaded / this.total) * 10000) / 100
+        : 0;
+    if (status === "downloading") {
+      logger.info(
+        { filename: this.filename, downloaded: this.downloaded, percent },
+        "Download progress"
+      );
+    }
+
+    this.onProgress?.({
+      filename: this.filename,
+      status,
+      downloaded: this.downloaded,
+      total: this.total,
+      percent: status === "completed" ? 100 : percent,
+      bytesPerSecond: this.bytesPerSecond,
+      ...(error ? { error } : {}),
+    });
+  }
+
+  fail(error: Error): void {
+    this.report("failed", true, error.message);
+  }
+}
@@ -0,0 +1,190 @@
+import { stat } from "fs/promises";
+import { readGgufFileInfo, GgufInsights, GgufFileType } from "node-llama-cpp";
+import type { GgufFileInfo } from "node-llama-cpp";
+import { getModelFiles, getModelPath } from "../utils/filesystem.js";
+import { logger } from "../utils/logger.js";
+import type { InstalledModel } from "./types.js";
+
+const MB = 1024 * 1024;
+
+// Headroom on top of the raw file size when the GGUF can't be parsed
+const FALLBACK_OVERHEAD = 1.2;
+
+/**
+ * Estimates how much memory a model needs once loaded, and describes it,
+ * from its GGUF metadata. Results are cached per file until the file
+ * changes.
+ */
+export class ModelInsights {
+  private cache = new Map<string, { mtimeMs: number; memoryMb: number }>();
+  private descriptions = new Map<
+    string,
+    { mtimeMs: number; model: InstalledModel }
+  >();
+
+  constructor(
+    private modelsDir: string,
+    private contextSize: number
+  ) {}
+
+  /**
+   * Memory (in MB) needed to load the model with a single sequence,
+   * counted in VRAM when offloading to a GPU and in RAM otherwise
+   */
+  async estimateFootprintMb(
+    modelName: string,
+    onGpu: boolean
+  ): Promise<number> {
+    const modelPath = getModelPath(this.modelsDir, modelName);
+    const { mtimeMs, size } = await stat(modelPath);
+    const cacheKey = `${modelName}:${onGpu ? "gpu" : "cpu"}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.memoryMb;
+    }
+
+    let memoryMb: number;
+    try {
+      const fileInfo = await readGgufFileInfo(modelPath, {
+        logWarnings: false,
+      });
+      const insights = await GgufInsights.from(fileInfo);
+      const gpuLayers = onGpu ? insights.totalLayers : 0;
+
+      const model = insights.estimateModelResourceRequirements({ gpuLayers });
+      const context = insights.estimateContextResourceRequirements({
+        contextSize: Math.min(
+          this.contextSize,
+          insights.trainContextSize ?? this.contextSize
+        ),
+        modelGpuLayers: gpuLayers,
+        sequences: 1,
+        flashAttention: true,
+      });
+
+      const bytes = onGpu
+        ? model.gpuVram + context.gpuVram
+        : model.cpuRam + context.cpuRam;
+      memoryMb = Math.ceil(bytes / MB);
+    } catch (error) {
+      logger.warn(
+        { modelName, error },
+        "Could not read GGUF metadata, estimating from file size"
+      );
+      memoryMb = Math.ceil((size * FALLBACK_OVERHEAD) / MB);
+    }
+
+    this.cache.set(cacheKey, { mtimeMs, memoryMb });
+    return memoryMb;
+  }
+
+  /**
+   * Footprints of all the given models, skipping files that disappeared
+   */
+  async estimateFootprints(
+    modelNames: string[],
+    onGpu: boolean
+  ): Promise<Record<string, number>> {
+    const footprints: Record<string, number> = {};
+    for (const modelName of modelNames) {
+      try {
+        footprints[modelName] = await this.estimateFootprintMb(
+          modelName,
+          onGpu
+        );
+      } catch (error) {
+        logger.warn({ modelName, error }, "Could not estimate model footprint");
+      }
+    }
+    return footprints;
+  }
+
+  /**
+   * Architecture, size and capabilities of an installed model. Fields the
+   * GGUF header doesn't carry, or all of them when it can't be parsed,
+   * are null.
+   */
+  async describe(modelName: string): Promise<InstalledModel> {
+    const modelPath = getModelPath(this.modelsDir, modelName);
+    const { mtimeMs } = await stat(modelPath);
+
+    const cached = this.descriptions.get(modelName);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.model;
+    }
+
+    let sizeBytes = 0;
+    for (const file of getModelFiles(modelName)) {
+      const part = await stat(getModelPath(this.modelsDir, file)).catch(
+        () => null
+      );
+      sizeBytes += part?.size ?? 0;
+    }
+
+    const model: InstalledModel = {
+      filename: modelName,
+      sizeBytes,
+      architecture: null,
+      parameterCount: null,
+      quantization: null,
+      contextLength: null,
+      chatTemplate: null,
+    };
+    try {
+      const fileInfo = await readGgufFileInfo(modelPath, {
+        logWarnings: false,
+      });
+      const { general, tokenizer } = fileInfo.metadata;
+      const fileType = general.file_type;
+
+      model.architecture = general.architecture ?? null;
+      model.parameterCount = countParameters(fileInfo);
+      model.quantization =
+        fileType !== undefined && GgufFileType[fileType]
+          ? GgufFileType[fileType].replace(/^(MOSTLY|ALL)_/, "")
+          : null;
+      model.contextLength =
+        fileInfo.architectureMetadata.context_length ?? null;
+      model.chatTemplate = tokenizer?.chat_template ?? null;
+    } catch (error) {
+      logger.warn({ modelName, error }, "Could not read GGUF metadata");
+    }
+
+    this.descriptions.set(modelName, { mtimeMs, model });
+    return model;
+  }
+
+  /**
+   * Descriptions of all the given models, skipping files that disappeared
+   */
+  async describeModels(modelNames: string[]): Promise<InstalledModel[]> {
+    const models: InstalledModel[] = [];
+    for (const modelName of modelNames) {
+      try {
+        models.push(await this.describe(modelName));
+      } catch (error) {
+        logger.warn({ modelName, error }, "Could not describe model");
+      }
+    }
+    return models;
+  }
+}
+
+/**
+ * Weights across all the tensors of every part, null when the header has
+ * no tensor info
+ */
+function countParameters(fileInfo: GgufFileInfo): number | null {
+  const tensors = fileInfo.fullTensorInfo ?? fileInfo.tensorInfo;
+  if (!tensors || tensors.length === 0) return null;
+
+  let count = 0;
+  for (const tensor of tensors) {
+    count += tensor.dimensions.reduce<number>(
+      (product, dimension) => product * Number(dimension),
+      1
+    );
+  }
+  return count;
+}
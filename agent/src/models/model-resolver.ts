@@ -0,0 +1,192 @@
+import { basename } from "path";
+import { logger } from "../utils/logger.js";
+import { ModelResolveError } from "../utils/errors.js";
+import type {
+  ModelSourceResolver,
+  ResolvedFile,
+  ResolvedModel,
+} from "./types.js";
+
+// Quantization picked when a repository has several and none was asked for
+const DEFAULT_QUANTIZATION = "Q4_K_M";
+
+// Part suffix of split GGUFs, e.g. model-Q8_0-00001-of-00003.gguf
+const SPLIT_SUFFIX = /-(\d{5})-of-(\d{5})\.gguf$/i;
+
+interface HubFile {
+  type: string;
+  path: string;
+  size: number;
+  lfs?: { oid: string; size: number };
+}
+
+/**
+ * Resolves hf:owner/repo[@revision][:quantization] against the Hugging Face
+ * Hub API, or anything that serves the same routes
+ */
+export class HuggingFaceResolver implements ModelSourceResolver {
+  constructor(
+    private endpoint: string = "https://huggingface.co",
+    private token?: string
+  ) {
+    this.endpoint = endpoint.replace(/\/$/, "");
+  }
+
+  canResolve(reference: string): boolean {
+    return reference.startsWith("hf:");
+  }
+
+  async resolve(reference: string): Promise<ResolvedModel> {
+    const match = reference.match(
+      /^hf:([\w.-]+\/[\w.-]+)(?:@([\w./-]+))?(?::([\w.-]+))?$/
+    );
+    if (!match) {
+      throw new ModelResolveError(
+        reference,
+        "expected hf:owner/repo[@revision][:quantization]"
+      );
+    }
+    const [, repo, revision = "main", quantization] = match;
+
+    const files = (await this.listFiles(reference, repo!, revision)).filter(
+      (file) =>
+        file.path.toLowerCase().endsWith(".gguf") &&
+        // Vision projectors ship next to the weights
+        !basename(file.path).toLowerCase().startsWith("mmproj")
+    );
+    if (files.length === 0) {
+      throw new ModelResolveError(
+        reference,
+        "the repository has no GGUF files"
+      );
+    }
+
+    const models = groupSplitFiles(files);
+    const candidates = quantization
+      ? models.filter((parts) => hasQuantization(parts[0]!.path, quantization))
+      : models.length === 1
+        ? models
+        : models.filter((parts) =>
+            hasQuantization(parts[0]!.path, DEFAULT_QUANTIZATION)
+          );
+
+    if (candidates.length !== 1) {
+      const available = models.map((parts) => parts[0]!.path).join(", ");
+      throw new ModelResolveError(
+        reference,
+        candidates.length === 0
+          ? `no GGUF matches ${quantization ?? "a default quantization"}; available: ${available}`
+          : `several GGUFs match ${quantization}: ${candidates.map((parts) => parts[0]!.path).join(", ")}`
+      );
+    }
+
+    const parts = candidates[0]!;
+    const resolved: ResolvedFile[] = parts.map((file) => ({
+      url: `${this.endpoint}/${repo}/resolve/${encodeURIComponent(revision)}/${file.path
+        .split("/")
+        .map(encodeURIComponent)
+        .join("/")}`,
+      filename: basename(file.path),
+      size: file.lfs?.size ?? file.size,
+      sha256: file.lfs?.oid,
+      headers: this.headers(),
+    }));
+
+    logger.info(
+      { reference, files: resolved.map((file) => file.filename) },
+      "Resolved model reference"
+    );
+    return { filename: resolved[0]!.filename, files: resolved };
+  }
+
+  /**
+   * Every file of the repository, following the API's pagination
+   */
+  private async listFiles(
+    reference: string,
+    repo: string,
+    revision: string
+  ): Promise<HubFile[]> {
+    const files: HubFile[] = [];
+    let url: string | null =
+      `${this.endpoint}/api/models/${repo}/tree/${encodeURIComponent(revision)}?recursive=true`;
+
+    while (url) {
+      const response: Response = await fetch(url, { headers: this.headers() });
+      if (!response.ok) {
+        throw new ModelResolveError(
+          reference,
+          response.status === 401 || response.status === 404
+            ? "repository not found, or gated without a valid HF_TOKEN"
+            : `hub answered ${response.status} ${response.statusText}`
+        );
+      }
+
+      const page = (await response.json()) as HubFile[];
+      files.push(...page.filter((file) => file.type === "file"));
+      url = nextPageUrl(response.headers.get("link"));
+    }
+    return files;
+  }
+
+  private headers(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+}
+
+/**
+ * Picks the resolver for a model reference. Plain URLs aren't references.
+ */
+export class ModelResolver {
+  private resolvers: ModelSourceResolver[] = [];
+
+  constructor(resolvers: ModelSourceResolver[] = []) {
+    this.resolvers = resolvers;
+  }
+
+  register(resolver: ModelSourceResolver): void {
+    this.resolvers.push(resolver);
+  }
+
+  isReference(reference: string): boolean {
+    return this.resolvers.some((resolver) => resolver.canResolve(reference));
+  }
+
+  async resolve(reference: string): Promise<ResolvedModel> {
+    const resolver = this.resolvers.find((r) => r.canResolve(reference));
+    if (!resolver) {
+      throw new ModelResolveError(reference, "unknown model source");
+    }
+    return resolver.resolve(reference);
+  }
+}
+
+/**
+ * Group the parts of split GGUFs together, each group in part order
+ */
+function groupSplitFiles(files: HubFile[]): HubFile[][] {
+  const groups = new Map<string, HubFile[]>();
+  for (const file of files) {
+    const key = file.path.replace(SPLIT_SUFFIX, "");
+    groups.set(key, [...(groups.get(key) ?? []), file]);
+  }
+  return [...groups.values()].map((group) =>
+    group.sort((a, b) => a.path.localeCompare(b.path))
+  );
+}
+
+/**
+ * Whether a path names the quantization, in the file name or a directory,
+ * e.g. Q4_K_M in model.Q4_K_M.gguf or Q4_K_M/model-00001-of-00002.gguf
+ */
+function hasQuantization(path: string, quantization: string): boolean {
+  const escaped = quantization.toLowerCase().replace(/[.]/g, "\\.");
+  return new RegExp(`(^|[^a-z0-9_])${escaped}([^a-z0-9_]|$)`).test(
+    path.toLowerCase()
+  );
+}
+
+function nextPageUrl(link: string | null): string | null {
+  const match = link?.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1]! : null;
+}
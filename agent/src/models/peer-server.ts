@@ -0,0 +1,126 @@
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { join } from "path";
+import { logger } from "../utils/logger.js";
+
+// Files peers may download: whole models and every part of split GGUFs,
+// never partial downloads
+const SERVABLE_FILE = /^[^/\\]+\.(gguf|ggml)$/;
+
+/**
+ * Path of a model file on a peer's server
+ */
+export function peerFileUrl(peerUrl: string, filename: string): string {
+  return `${peerUrl}/models/${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Serves installed model files to other agents over HTTP, with Range
+ * support so interrupted transfers resume. Peers authenticate with the
+ * agent secret key they share with the controller.
+ */
+export class PeerServer {
+  private server: Server | null = null;
+
+  constructor(
+    private modelsDir: string,
+    private secretKey: string
+  ) {}
+
+  async start(port: number): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error({ error, url: req.url }, "Peer request failed");
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, () => resolve());
+    });
+    this.server = server;
+    logger.info({ port }, "Serving model files to peers");
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (req.headers.authorization !== `Bearer ${this.secretKey}`) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    const match = req.url?.match(/^\/models\/([^/?]+)$/);
+    const filename = match ? decodeURIComponent(match[1]!) : null;
+    if (
+      (req.method !== "GET" && req.method !== "HEAD") ||
+      !filename ||
+      !SERVABLE_FILE.test(filename)
+    ) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const path = join(this.modelsDir, filename);
+    const file = await stat(path).catch(() => null);
+    if (!file?.isFile()) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const range = parseRange(req.headers.range, file.size);
+    if (range === "unsatisfiable") {
+      res.writeHead(416, { "Content-Range": `bytes */${file.size}` }).end();
+      return;
+    }
+
+    const { start, end } = range ?? { start: 0, end: file.size - 1 };
+    res.writeHead(range ? 206 : 200, {
+      "Content-Type": "application/octet-stream",
+      "Content-Length": end - start + 1,
+      "Accept-Ranges": "bytes",
+      ...(range
+        ? { "Content-Range": `bytes ${start}-${end}/${file.size}` }
+        : {}),
+    });
+    if (req.method === "HEAD" || file.size === 0) {
+      res.end();
+      return;
+    }
+
+    logger.info(
+      { filename, start, peer: req.socket.remoteAddress },
+      "Serving model file to peer"
+    );
+    createReadStream(path, { start, end }).pipe(res);
+  }
+}
+
+/**
+ * A single "bytes=start-end" range, null to send the whole file
+ */
+function parseRange(
+  header: string | undefined,
+  size: number
+): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return null;
+
+  const start = parseInt(match[1]!);
+  const end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
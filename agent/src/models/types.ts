@@ -1,6 +1,92 @@
+export type DownloadStatus =
+  | "downloading"
+  | "verifying"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
 export interface DownloadProgress {
   filename: string;
+  status: DownloadStatus;
   downloaded: number;
+  // 0 while the size is unknown
   total: number;
   percent: number;
+  bytesPerSecond: number;
+  error?: string;
+}
+
+export interface DownloadOptions {
+  // Expected hex sha256 of the whole file
+  sha256?: string;
+  // Expected size in bytes
+  size?: number;
+  onProgress?: (progress: DownloadProgress) => void;
+  // Aborting stops the download and deletes the partial file
+  signal?: AbortSignal;
+  // Sent with every request, e.g. credentials for the source
+  headers?: Record<string, string>;
+  // Peer servers of agents that have the file, tried before the url. Only
+  // used when the sha256 is known, so a bad copy can't spread.
+  peers?: string[];
+}
+
+export interface ModelFileUsage {
+  model: string;
+  // All its files, e.g. every part of a split GGUF
+  bytes: number;
+  loaded: boolean;
+  pinned: boolean;
+}
+
+export interface DiskUsage {
+  totalBytes: number;
+  freeBytes: number;
+  modelsBytes: number;
+  models: ModelFileUsage[];
+}
+
+// Why a model can't be deleted
+export type DeleteRefusal = "not_found" | "loaded" | "pinned" | "downloading";
+
+export type DeleteModelResult =
+  // Every file removed, e.g. all parts of a split GGUF
+  | { deleted: string[]; freedBytes: number }
+  | { deleted: false; reason: DeleteRefusal };
+
+// What an installed model is, read from its GGUF header
+export interface InstalledModel {
+  filename: string;
+  // All its files, e.g. every part of a split GGUF
+  sizeBytes: number;
+  architecture: string | null;
+  parameterCount: number | null;
+  // e.g. Q4_K_M
+  quantization: string | null;
+  // Context length the model was trained with
+  contextLength: number | null;
+  chatTemplate: string | null;
+}
+
+// A file to download for a model
+export interface ResolvedFile {
+  url: string;
+  filename: string;
+  size?: number;
+  sha256?: string;
+  headers?: Record<string, string>;
+}
+
+export interface ResolvedModel {
+  // What the model is loaded as: the file itself, or the first part of a
+  // split GGUF
+  filename: string;
+  // Every file to download, first part first
+  files: ResolvedFile[];
+}
+
+// Turns references like hf:owner/repo:Q4_K_M into downloadable files
+export interface ModelSourceResolver {
+  canResolve(reference: string): boolean;
+  resolve(reference: string): Promise<ResolvedModel>;
 }
@@ -1,3 +1,5 @@
+import type { EvictionPolicy, ModelSlots } from "../processes/types.js";
+
 export interface HardwareMetrics {
   type: "gpu" | "cpu";
   // GPU metrics (when nvidia-smi available)
@@ -10,3 +12,25 @@ export interface HardwareMetrics {
   ramTotal?: number; // MB
   cpuUtilization?: number; // 0-100% (average across cores)
 }
+
+/**
+ * Heartbeat pushed to the controller every STATUS_REPORT_INTERVAL_MS
+ */
+export interface StatusReport {
+  agentId: string;
+  hardware: HardwareMetrics | null;
+  loadedModels: string[];
+  slots: Record<string, ModelSlots>;
+  // Sequences currently generating, across all models
+  busySlots: number;
+  // Completion tokens generated per second since the previous report
+  tokensPerSecond: number;
+  // Memory (MB) still usable for models after the configured reserve,
+  // null until hardware metrics have been collected
+  availableMemoryMb: number | null;
+  // Estimated memory (MB) each installed model needs once loaded
+  modelFootprints: Record<string, number>;
+  // Models that are never evicted to make room for others
+  pinnedModels: string[];
+  evictionPolicy: EvictionPolicy;
+}
@@ -14,10 +14,13 @@ import {
   Token,
   TokenBias,
   LlamaContext,
+  LlamaContextSequence,
   Llama,
   LlamaModel,
   defineChatSessionFunction,
 } from "node-llama-cpp";
+import { freemem } from "os";
+import { createHash } from "crypto";
 import { RPC } from "@piercer/rpc";
 import { ParentProcessTransport } from "../rpc/child-process-transport";
 import type {
@@ -27,6 +30,7 @@ import type {
   ChatParams,
   TokenUsage,
   ToolDefinition,
+  LoadModelParams,
 } from "./types.js";
 
 // Single shared Llama instances
@@ -34,7 +38,18 @@ let llama: Llama | null = null;
 let currentModel: LlamaModel | null = null;
 let currentContext: LlamaContext | null = null;
 
-const MAX_SEQUENCE_INDEX = 1;
+// Requests waiting for a sequence to be released
+const sequenceWaiters: Array<() => void> = [];
+
+// Released sequences keep their KV cache, so a follow-up request for the
+// same conversation only evaluates the new messages. Oldest first.
+const warmSequences: Array<{
+  sequence: LlamaContextSequence;
+  prefixKey?: string;
+}> = [];
+
+// Abort controllers for in-progress generations, keyed by requestId
+const activeGenerations = new Map<string, AbortController>();
 
 // Setup RPC communication with parent
 const transport = new ParentProcessTransport();
@@ -224,6 +239,118 @@ function toolsToFunctions(
   return functions;
 }
 
+/**
+ * Work out how many parallel sequences fit in free memory, keeping
+ * vramBufferPercent of it in reserve
+ */
+async function resolveSequenceCount(
+  llama: Llama,
+  model: LlamaModel,
+  params: LoadModelParams
+): Promise<number> {
+  if (params.sequences) {
+    return params.sequences;
+  }
+
+  const contextSize = Math.min(params.contextSize, model.trainContextSize);
+  const perSequence = model.fileInsights.estimateContextResourceRequirements({
+    contextSize,
+    modelGpuLayers: model.gpuLayers,
+    sequences: 1,
+    flashAttention: true,
+  });
+
+  const onGpu = model.gpuLayers > 0;
+  const free = onGpu ? (await llama.getVramState()).free : freemem();
+  const cost = onGpu ? perSequence.gpuVram : perSequence.cpuRam;
+  const usable = free * (1 - params.vramBufferPercent / 100);
+
+  const fit = cost > 0 ? Math.floor(usable / cost) : params.maxSequences;
+  return Math.max(1, Math.min(fit, params.maxSequences));
+}
+
+/**
+ * Take a sequence for a request, waiting for one to be released if all of
+ * them are busy. Prefers the warm sequence that last served the same
+ * conversation prefix, then a fresh one, then the least recently used
+ * warm sequence.
+ */
+async function acquireSequence(
+  context: LlamaContext,
+  signal: AbortSignal,
+  prefixKey?: string
+): Promise<LlamaContextSequence> {
+  while (context.sequencesLeft === 0 && warmSequences.length === 0) {
+    await new Promise<void>((resolve, reject) => {
+      // Cancelled before it got here; the abort event has already fired
+      if (signal.aborted) {
+        reject(new Error("Request cancelled while waiting for a sequence"));
+        return;
+      }
+      const onAbort = () => {
+        sequenceWaiters.splice(sequenceWaiters.indexOf(wake), 1);
+        reject(new Error("Request cancelled while waiting for a sequence"));
+      };
+      const wake = () => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      sequenceWaiters.push(wake);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  const warmIndex = prefixKey
+    ? warmSequences.findIndex((warm) => warm.prefixKey === prefixKey)
+    : -1;
+  if (warmIndex !== -1) {
+    return warmSequences.splice(warmIndex, 1)[0]!.sequence;
+  }
+  if (context.sequencesLeft > 0) {
+    return context.getSequence();
+  }
+  // The next evaluation erases whatever doesn't match its prompt
+  return warmSequences.shift()!.sequence;
+}
+
+function releaseSequence(
+  sequence: LlamaContextSequence | null,
+  prefixKey?: string
+) {
+  if (!sequence) return;
+  if (!sequence.disposed) {
+    warmSequences.push({ sequence, prefixKey });
+  }
+  sequenceWaiters.shift()?.();
+}
+
+/**
+ * Hash a chat's messages the way the controller does. The key of the
+ * messages plus the reply is what the next turn of the conversation is
+ * routed by, and which warm sequence it picks up.
+ */
+function conversationKey(
+  messages: Array<{ role: string; content: string | null }>
+): string {
+  const hash = createHash("sha256");
+  for (const { role, content } of messages) {
+    hash.update(JSON.stringify([role, content ?? ""]));
+  }
+  return hash.digest("hex").slice(0, 32);
+}
+
+/**
+ * Length of the shared start of two token lists, i.e. how much of a
+ * sequence's previous state a new evaluation reused
+ */
+function commonPrefixLength(a: Token[], b: Token[]): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
 /**
  * Expose functions for parent to call
  */
@@ -245,6 +372,7 @@ const functions: InferenceProcessFunctions = {
         await currentModel.dispose();
         currentModel = null;
         currentContext = null;
+        warmSequences.length = 0;
       }
 
       // Load new model with auto-disposal support
@@ -254,13 +382,16 @@ const functions: InferenceProcessFunctions = {
         defaultContextFlashAttention: true, // Performance optimization
       });
 
-      console.log("Creating context...");
+      const sequences = await resolveSequenceCount(llama, currentModel, params);
+
+      console.log("Creating context with", sequences, "sequences...");
       currentContext = await currentModel.createContext({
-        sequences: MAX_SEQUENCE_INDEX,
+        sequences,
+        contextSize: { max: params.contextSize },
       });
 
       console.log("Model loaded successfully");
-      return { success: true };
+      return { success: true, sequences: currentContext.totalSequences };
     } catch (error: any) {
       console.error("Failed to load model:", error);
       return {
@@ -275,14 +406,16 @@ const functions: InferenceProcessFunctions = {
       throw new Error("No model loaded");
     }
 
+    const abortController = new AbortController();
+    activeGenerations.set(params.requestId, abortController);
+    let sequence: LlamaContextSequence | null = null;
+    let completion: LlamaCompletion | null = null;
+
     try {
       const llamaParams = mapParameters(params, currentModel);
 
-      if (currentContext.sequencesLeft == 0)
-        throw new Error("No sequences left");
-
-      const sequence = currentContext.getSequence();
-      const completion = new LlamaCompletion({
+      sequence = await acquireSequence(currentContext, abortController.signal);
+      completion = new LlamaCompletion({
         contextSequence: sequence,
       });
 
@@ -296,6 +429,7 @@ const functions: InferenceProcessFunctions = {
       await completion.generateCompletion(params.prompt, {
         ...llamaParams,
         seed: Math.floor(Math.random() * 1_000_000),
+        signal: abortController.signal,
         onTextChunk: (chunk: string) => {
           // Send text chunk to parent
           parent.receiveChunk({
@@ -325,9 +459,13 @@ const functions: InferenceProcessFunctions = {
         data: "[DONE]",
         usage,
       });
-
-      sequence.dispose();
     } catch (error: any) {
+      if (abortController.signal.aborted) {
+        // The controller already answered the client, nothing to report
+        console.log("Completion cancelled:", params.requestId);
+        return;
+      }
+
       console.error("Completion error:", error);
 
       await parent.receiveError({
@@ -337,6 +475,10 @@ const functions: InferenceProcessFunctions = {
           type: "inference_error",
         },
       });
+    } finally {
+      activeGenerations.delete(params.requestId);
+      completion?.dispose({ disposeSequence: false });
+      releaseSequence(sequence);
     }
   },
 
@@ -345,6 +487,13 @@ const functions: InferenceProcessFunctions = {
       throw new Error("No model loaded");
     }
 
+    const abortController = new AbortController();
+    activeGenerations.set(params.requestId, abortController);
+    let sequence: LlamaContextSequence | null = null;
+    let session: LlamaChatSession | null = null;
+    // Set once the reply is complete
+    let nextPrefixKey: string | undefined;
+
     try {
       const llamaParams = mapParameters(params, currentModel);
 
@@ -411,13 +560,19 @@ const functions: InferenceProcessFunctions = {
       });
 
       console.log("Creating session...");
-      if (currentContext.sequencesLeft == 0)
-        throw new Error("No sequences left");
-
-      const sequence = currentContext.getSequence();
+      sequence = await acquireSequence(
+        currentContext,
+        abortController.signal,
+        params.prefix_key
+      );
       const currentSession = new LlamaChatSession({
         contextSequence: sequence,
       });
+      session = currentSession;
+
+      // What the sequence held before, to tell how much of it was reused
+      const previousTokens = sequence.contextTokens.slice();
+      const previousInputTokens = sequence.tokenMeter.usedInputTokens;
 
       // Set the chat history using the session's method
       currentSession.setChatHistory(history);
@@ -454,6 +609,7 @@ const functions: InferenceProcessFunctions = {
         ...llamaParams,
         functions,
         seed: Math.floor(Math.random() * 1_000_000),
+        signal: abortController.signal,
         onResponseChunk: (chunk: LlamaChatResponseChunk) => {
           // Track tokens
           if (chunk.tokens) {
@@ -561,22 +717,48 @@ const functions: InferenceProcessFunctions = {
         },
       });
 
+      // Everything evaluated now was prompt, on top of the reused prefix
+      const cachedTokens = commonPrefixLength(
+        previousTokens,
+        sequence.contextTokens
+      );
+      promptTokens =
+        sequence.tokenMeter.usedInputTokens -
+        previousInputTokens +
+        cachedTokens;
+
       // Send completion signal with usage
       const usage: TokenUsage = {
         prompt_tokens: promptTokens,
         completion_tokens: completionTokens,
         thought_tokens: thoughtTokens,
         total_tokens: promptTokens + completionTokens + thoughtTokens,
+        cached_tokens: cachedTokens,
       };
 
+      nextPrefixKey = conversationKey([
+        ...params.messages,
+        {
+          role: "assistant",
+          content: responseContent
+            .filter((item) => typeof item === "string")
+            .join(""),
+        },
+      ]);
+
       await parent.receiveComplete({
         requestId: params.requestId,
         data: "[DONE]",
         usage,
+        prefixKey: nextPrefixKey,
       });
-
-      sequence.dispose();
     } catch (error: any) {
+      if (abortController.signal.aborted) {
+        // The controller already answered the client, nothing to report
+        console.log("Chat cancelled:", params.requestId);
+        return;
+      }
+
       console.error("Chat error:", error);
 
       await parent.receiveError({
@@ -586,7 +768,22 @@ const functions: InferenceProcessFunctions = {
           type: "inference_error",
         },
       });
+    } finally {
+      activeGenerations.delete(params.requestId);
+      session?.dispose({ disposeSequence: false });
+      releaseSequence(sequence, nextPrefixKey);
+    }
+  },
+
+  async cancel(params) {
+    const abortController = activeGenerations.get(params.requestId);
+    if (!abortController) {
+      return { cancelled: false };
     }
+
+    console.log("Cancelling generation:", params.requestId);
+    abortController.abort();
+    return { cancelled: true };
   },
 
   async unloadModel() {
@@ -600,6 +797,7 @@ const functions: InferenceProcessFunctions = {
 
       currentModel = null;
       currentContext = null;
+      warmSequences.length = 0;
 
       return { success: true };
     } catch (error: any) {
@@ -11,6 +11,8 @@ import type {
   MainProcessFunctions,
   CompletionParams,
   ChatParams,
+  EvictionPolicy,
+  ModelSlots,
 } from "./types.js";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -18,13 +20,25 @@ const __dirname = dirname(__filename);
 
 export class ProcessManager {
   private processes = new Map<string, ManagedProcess>();
+  // requestId -> modelName of the process serving it
+  private activeRequests = new Map<string, string>();
+  // Models that are never evicted, whether loaded yet or not
+  private pinnedModels = new Set<string>();
+  // When unloaded models last served a request
+  private lastUsedAt = new Map<string, Date>();
   private mainFunctions: MainProcessFunctions;
 
   constructor(
     private config: {
       maxConcurrentModels: number;
+      maxSequencesPerModel: number;
+      modelSequences: Record<string, number>;
+      sequenceContextSize: number;
+      vramBufferPercent: number;
+      evictionPolicy: EvictionPolicy;
     },
-    mainFunctions: MainProcessFunctions
+    mainFunctions: MainProcessFunctions,
+    private onSlotsChanged: () => void = () => {}
   ) {
     this.mainFunctions = mainFunctions;
   }
@@ -44,7 +58,7 @@ export class ProcessManager {
 
     // Check if we need to unload a model first
     if (this.processes.size >= this.config.maxConcurrentModels) {
-      await this.unloadLeastUsedModel();
+      await this.evictModel();
     }
 
     logger.info({ modelName, modelPath }, "Spawning inference process");
@@ -74,20 +88,22 @@ export class ProcessManager {
       process: childProcess,
       rpc,
       remote,
-      isGenerating: false,
+      slots: 0,
+      activeRequests: 0,
       requestCount: 0,
       startedAt: new Date(),
+      lastUsedAt: new Date(),
     };
 
     // Handle process events
     childProcess.on("exit", (code, signal) => {
       logger.warn({ modelName, code, signal }, "Inference process exited");
-      this.processes.delete(modelName);
+      this.removeProcess(modelName, managedProcess);
     });
 
     childProcess.on("error", (err) => {
       logger.error({ modelName, error: err }, "Inference process error");
-      this.processes.delete(modelName);
+      this.removeProcess(modelName, managedProcess);
     });
 
     // Store the process
@@ -97,13 +113,22 @@ export class ProcessManager {
     try {
       const result = await remote.loadModel({
         modelPath,
+        sequences: this.config.modelSequences[modelName],
+        maxSequences: this.config.maxSequencesPerModel,
+        contextSize: this.config.sequenceContextSize,
+        vramBufferPercent: this.config.vramBufferPercent,
       });
 
       if (!result.success) {
         throw new ProcessError(`Failed to load model: ${result.error}`);
       }
 
-      logger.info({ modelName }, "Model loaded successfully");
+      managedProcess.slots = result.sequences ?? 1;
+      logger.info(
+        { modelName, slots: managedProcess.slots },
+        "Model loaded successfully"
+      );
+      this.onSlotsChanged();
       return managedProcess;
     } catch (error) {
       logger.error(
@@ -129,6 +154,20 @@ export class ProcessManager {
     return Array.from(this.processes.keys());
   }
 
+  /**
+   * Get total and free sequences of every loaded model
+   */
+  getSlots(): Record<string, ModelSlots> {
+    const slots: Record<string, ModelSlots> = {};
+    for (const [modelName, proc] of this.processes) {
+      slots[modelName] = {
+        total: proc.slots,
+        free: Math.max(0, proc.slots - proc.activeRequests),
+      };
+    }
+    return slots;
+  }
+
   /**
    * Unload a specific model
    */
@@ -159,29 +198,86 @@ export class ProcessManager {
       }, 5000);
     }
 
+    this.removeProcess(modelName, proc);
+  }
+
+  private removeProcess(modelName: string, proc: ManagedProcess): void {
+    // The exit handler fires after unloadModel already removed the process
+    if (this.processes.get(modelName) !== proc) return;
     this.processes.delete(modelName);
+    if (proc.requestCount > 0) {
+      this.lastUsedAt.set(modelName, proc.lastUsedAt);
+    }
+    this.onSlotsChanged();
   }
 
   /**
-   * Unload the least recently used model (that's not currently generating)
+   * Keep a model loaded no matter the eviction policy, or release it
    */
-  private async unloadLeastUsedModel(): Promise<void> {
+  pinModel(modelName: string, pinned: boolean): void {
+    if (pinned) {
+      this.pinnedModels.add(modelName);
+    } else {
+      this.pinnedModels.delete(modelName);
+    }
+  }
+
+  getPinnedModels(): string[] {
+    return Array.from(this.pinnedModels);
+  }
+
+  /**
+   * When the model last served a request since the agent started, if ever
+   */
+  getLastUsedAt(modelName: string): Date | undefined {
+    const proc = this.processes.get(modelName);
+    return proc && proc.requestCount > 0
+      ? proc.lastUsedAt
+      : this.lastUsedAt.get(modelName);
+  }
+
+  setEvictionPolicy(policy: EvictionPolicy): void {
+    this.config.evictionPolicy = policy;
+  }
+
+  getEvictionPolicy(): EvictionPolicy {
+    return this.config.evictionPolicy;
+  }
+
+  /**
+   * Unload the idle, unpinned model the eviction policy picks and return
+   * its name
+   */
+  async evictModel(): Promise<string> {
+    const policy = this.config.evictionPolicy;
+    if (policy === "pinned") {
+      throw new ProcessError(
+        "Cannot unload any model - the eviction policy pins every model"
+      );
+    }
+
     // Find processes not currently generating
     const candidates = Array.from(this.processes.entries())
-      .filter(([_, proc]) => !proc.isGenerating)
-      .sort((a, b) => a[1].requestCount - b[1].requestCount);
+      .filter(
+        ([modelName, proc]) =>
+          proc.activeRequests === 0 && !this.pinnedModels.has(modelName)
+      )
+      .sort(([, a], [, b]) =>
+        policy === "lru"
+          ? a.lastUsedAt.getTime() - b.lastUsedAt.getTime()
+          : a.requestCount - b.requestCount
+      );
 
     if (candidates.length === 0) {
       throw new ProcessError(
-        "Cannot unload any model - all are currently generating"
+        "Cannot unload any model - all are generating or pinned"
       );
     }
 
     const [modelName, _] = candidates[0]!;
-    if (modelName) {
-      logger.info({ modelName }, "Unloading least used model");
-      await this.unloadModel(modelName);
-    }
+    logger.info({ modelName, policy }, "Evicting model");
+    await this.unloadModel(modelName);
+    return modelName;
   }
 
   /**
@@ -196,13 +292,19 @@ export class ProcessManager {
       throw new ProcessError(`Model not loaded: ${modelName}`);
     }
 
-    proc.isGenerating = true;
+    proc.activeRequests++;
     proc.requestCount++;
+    proc.lastUsedAt = new Date();
+
+    this.activeRequests.set(params.requestId, modelName);
+    this.onSlotsChanged();
 
     try {
       await proc.remote.completion(params);
     } finally {
-      proc.isGenerating = false;
+      proc.activeRequests--;
+      this.activeRequests.delete(params.requestId);
+      this.onSlotsChanged();
     }
   }
 
@@ -215,14 +317,35 @@ export class ProcessManager {
       throw new ProcessError(`Model not loaded: ${modelName}`);
     }
 
-    proc.isGenerating = true;
+    proc.activeRequests++;
     proc.requestCount++;
+    proc.lastUsedAt = new Date();
+
+    this.activeRequests.set(params.requestId, modelName);
+    this.onSlotsChanged();
 
     try {
       await proc.remote.chat(params);
     } finally {
-      proc.isGenerating = false;
+      proc.activeRequests--;
+      this.activeRequests.delete(params.requestId);
+      this.onSlotsChanged();
+    }
+  }
+
+  /**
+   * Abort an in-progress generation
+   */
+  async cancelRequest(requestId: string): Promise<boolean> {
+    const modelName = this.activeRequests.get(requestId);
+    const proc = modelName ? this.processes.get(modelName) : undefined;
+    if (!proc) {
+      return false;
     }
+
+    logger.info({ requestId, modelName }, "Cancelling request");
+    const { cancelled } = await proc.remote.cancel({ requestId });
+    return cancelled;
   }
 
   /**
@@ -4,12 +4,14 @@ import type { RPC } from "@piercer/rpc";
  * RPC interface exposed by the inference child process
  */
 export type InferenceProcessFunctions = {
-  loadModel(params: { modelPath: string }): Promise<{
+  loadModel(params: LoadModelParams): Promise<{
     success: boolean;
     error?: string;
+    sequences?: number;
   }>;
   completion(params: CompletionParams): Promise<void>; // Streams via receiveChunk
   chat(params: ChatParams): Promise<void>; // Streams via receiveChunk
+  cancel(params: { requestId: string }): Promise<{ cancelled: boolean }>;
   unloadModel(): Promise<{ success: boolean }>;
   shutdown(): Promise<void>;
 };
@@ -23,15 +25,52 @@ export type MainProcessFunctions = {
     requestId: string;
     data?: any;
     usage?: TokenUsage;
+    // Key of a chat's messages plus its reply, see conversationKey
+    prefixKey?: string;
   }): Promise<void>;
   receiveError(params: { requestId: string; error: any }): Promise<void>;
 };
 
+export interface LoadModelParams {
+  modelPath: string;
+  // Fixed number of parallel sequences, sized from free memory when omitted
+  sequences?: number;
+  maxSequences: number;
+  // Upper bound on the context size of each sequence
+  contextSize: number;
+  vramBufferPercent: number;
+}
+
+/**
+ * Which idle model to unload when another one needs the room:
+ * - lru: the one used least recently
+ * - lfu: the one that served the fewest requests
+ * - pinned: none, every loaded model stays until explicitly unloaded
+ * Pinned models are never evicted, whatever the policy.
+ */
+export type EvictionPolicy = "lru" | "lfu" | "pinned";
+
+export const EVICTION_POLICIES: EvictionPolicy[] = ["lru", "lfu", "pinned"];
+
+export function isEvictionPolicy(value: string): value is EvictionPolicy {
+  return (EVICTION_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Parallel sequences of a loaded model, advertised to the controller
+ */
+export interface ModelSlots {
+  total: number;
+  free: number;
+}
+
 export interface TokenUsage {
   prompt_tokens: number;
   completion_tokens: number;
   thought_tokens?: number;
   total_tokens: number;
+  // Prompt tokens reused from the sequence's KV cache
+  cached_tokens?: number;
 }
 
 export interface CompletionParams {
@@ -71,6 +110,8 @@ export interface ChatParams {
   logit_bias?: Record<string, number>;
   logprobs?: boolean;
   thought_tokens?: number;
+  // Key of the conversation this request continues, set by the controller
+  prefix_key?: string;
 }
 
 export interface ToolDefinition {
@@ -91,7 +132,10 @@ export interface ManagedProcess {
   process: any; // ChildProcess
   rpc: RPC<MainProcessFunctions>;
   remote: InferenceProcessFunctions;
-  isGenerating: boolean;
+  // Number of parallel sequences in the model's context
+  slots: number;
+  activeRequests: number;
   requestCount: number;
   startedAt: Date;
+  lastUsedAt: Date;
 }
@@ -1,3 +1,5 @@
+const MB = 1024 * 1024;
+
 export class AgentError extends Error {
   constructor(
     message: string,
@@ -41,3 +43,23 @@ export class ProcessError extends AgentError {
     this.name = "ProcessError";
   }
 }
+
+export class InsufficientDiskSpaceError extends AgentError {
+  constructor(needed: number, free: number) {
+    super(
+      `Not enough disk space: ${Math.ceil(needed / MB)} MB needed, ${Math.floor(free / MB)} MB free`,
+      "INSUFFICIENT_DISK_SPACE",
+      { needed, free }
+    );
+    this.name = "InsufficientDiskSpaceError";
+  }
+}
+
+export class ModelResolveError extends AgentError {
+  constructor(reference: string, reason: string) {
+    super(`Cannot resolve ${reference}: ${reason}`, "MODEL_RESOLVE_ERROR", {
+      reference,
+    });
+    this.name = "ModelResolveError";
+  }
+}
@@ -1,4 +1,4 @@
-import { readdir, readFile, writeFile, stat, mkdir } from "fs/promises";
+import { readdir, readFile, writeFile, stat, statfs, mkdir } from "fs/promises";
 import { join } from "path";
 import { existsSync, watch } from "fs";
 
@@ -11,6 +11,50 @@ export async function ensureDirExists(dirPath: string): Promise<void> {
   }
 }
 
+// Second and later parts of a split GGUF, e.g. model-00002-of-00003.gguf.
+// llama.cpp loads them through the first part.
+const SPLIT_PART_PATTERN = /-(\d{5})-of-\d{5}\.gguf$/;
+
+/**
+ * Whether a file in the models directory can be loaded as a model
+ */
+export function isModelFile(filename: string): boolean {
+  if (!filename.endsWith(".gguf") && !filename.endsWith(".ggml")) {
+    return false;
+  }
+  const part = filename.match(SPLIT_PART_PATTERN);
+  return !part || part[1] === "00001";
+}
+
+/**
+ * Every file a model is made of: the file itself, or all the parts of a
+ * split GGUF named by its first part
+ */
+export function getModelFiles(modelName: string): string[] {
+  const split = modelName.match(/^(.*)-00001-of-(\d{5})\.gguf$/);
+  if (!split) return [modelName];
+
+  const count = parseInt(split[2]!);
+  return Array.from(
+    { length: count },
+    (_, index) =>
+      `${split[1]}-${String(index + 1).padStart(5, "0")}-of-${split[2]}.gguf`
+  );
+}
+
+/**
+ * Total and available bytes of the filesystem holding the directory
+ */
+export async function getDiskSpace(
+  dirPath: string
+): Promise<{ total: number; free: number }> {
+  const stats = await statfs(dirPath);
+  return {
+    total: stats.blocks * stats.bsize,
+    free: stats.bavail * stats.bsize,
+  };
+}
+
 /**
  * Get list of all model files in the models directory
  * Filesystem is the source of truth - no database needed
@@ -25,7 +69,7 @@ export async function listInstalledModels(
 
     const files = await readdir(modelsDir);
     // Filter for GGUF files (common llama.cpp format)
-    return files.filter((f) => f.endsWith(".gguf") || f.endsWith(".ggml"));
+    return files.filter(isModelFile);
   } catch (error) {
     console.error("Error listing models:", error);
     return [];
@@ -100,7 +144,7 @@ export function watchModelsFolder(
         return [];
       }
       const files = await readdir(modelsDir);
-      return files.filter((f) => f.endsWith(".gguf") || f.endsWith(".ggml"));
+      return files.filter(isModelFile);
     } catch {
       return [];
     }
@@ -0,0 +1,148 @@
+import {
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  describe,
+} from "bun:test";
+import { createServer } from "http";
+import type { IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { createHash } from "crypto";
+import { mkdtemp, readFile, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DownloadError,
+  ModelDownloader,
+  PARTIAL_SUFFIX,
+} from "../src/models/model-downloader";
+
+describe("ModelDownloader", () => {
+  const CONTENT = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 251));
+  const SHA256 = createHash("sha256").update(CONTENT).digest("hex");
+
+  let server: Server;
+  let url: string;
+  let modelsDir: string;
+  let downloader: ModelDownloader;
+  // Range header of every request the server got
+  let ranges: Array<string | undefined>;
+  let handler: (req: IncomingMessage, res: ServerResponse) => void;
+
+  // Answer Range requests with the rest of the file
+  function serveRange(req: IncomingMessage, res: ServerResponse) {
+    const offset = parseInt(req.headers.range?.match(/^bytes=(\d+)-/)?.[1]!);
+    if (isNaN(offset)) {
+      res.writeHead(200, { "Content-Length": CONTENT.length });
+      res.end(CONTENT);
+      return;
+    }
+    if (offset >= CONTENT.length) {
+      res.writeHead(416, { "Content-Range": `bytes */${CONTENT.length}` });
+      res.end();
+      return;
+    }
+    res.writeHead(206, {
+      "Content-Length": CONTENT.length - offset,
+      "Content-Range": `bytes ${offset}-${CONTENT.length - 1}/${CONTENT.length}`,
+    });
+    res.end(CONTENT.subarray(offset));
+  }
+
+  function partialPath(filename: string) {
+    return join(modelsDir, filename) + PARTIAL_SUFFIX;
+  }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      ranges.push(req.headers.range);
+      handler(req, res);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/model`;
+  });
+
+  afterAll(async () => {
+    server.close();
+    await rm(modelsDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    if (modelsDir) await rm(modelsDir, { recursive: true, force: true });
+    modelsDir = await mkdtemp(join(tmpdir(), "piercer-downloader-"));
+    downloader = new ModelDownloader(modelsDir);
+    ranges = [];
+    handler = serveRange;
+  });
+
+  test("resumes with a Range request after the connection drops", async () => {
+    let dropped = false;
+    handler = (req, res) => {
+      if (dropped) return serveRange(req, res);
+      dropped = true;
+      res.writeHead(200, { "Content-Length": CONTENT.length });
+      res.write(CONTENT.subarray(0, 400));
+      // Let the first bytes reach the file before dropping the connection
+      setTimeout(() => res.socket?.destroy(), 100);
+    };
+
+    await downloader.downloadModel(url, "model.gguf", { sha256: SHA256 });
+
+    expect(ranges).toEqual([undefined, "bytes=400-"]);
+    expect(await readFile(join(modelsDir, "model.gguf"))).toEqual(CONTENT);
+    expect(await stat(partialPath("model.gguf")).catch(() => null)).toBe(null);
+  }, 10000);
+
+  test("keeps a partial file that already holds everything", async () => {
+    await writeFile(partialPath("model.gguf"), CONTENT);
+
+    await downloader.downloadModel(url, "model.gguf", {
+      sha256: SHA256,
+      size: CONTENT.length,
+    });
+
+    expect(ranges).toEqual([`bytes=${CONTENT.length}-`]);
+    expect(await readFile(join(modelsDir, "model.gguf"))).toEqual(CONTENT);
+  });
+
+  test("starts over when the server ignores the Range header", async () => {
+    await writeFile(partialPath("model.gguf"), Buffer.alloc(400, 0xff));
+    handler = (req, res) => {
+      res.writeHead(200, { "Content-Length": CONTENT.length });
+      res.end(CONTENT);
+    };
+
+    await downloader.downloadModel(url, "model.gguf", { sha256: SHA256 });
+
+    expect(ranges).toEqual(["bytes=400-"]);
+    expect(await readFile(join(modelsDir, "model.gguf"))).toEqual(CONTENT);
+  });
+
+  test("deletes a download with the wrong checksum", async () => {
+    const error = await downloader
+      .downloadModel(url, "model.gguf", { sha256: "0".repeat(64) })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DownloadError);
+    expect(error.message).toContain("Checksum mismatch");
+    expect(error.retryable).toBe(false);
+    expect(await stat(partialPath("model.gguf")).catch(() => null)).toBe(null);
+    expect(await stat(join(modelsDir, "model.gguf")).catch(() => null)).toBe(
+      null
+    );
+  });
+
+  test("deletes a download with the wrong size", async () => {
+    const error = await downloader
+      .downloadModel(url, "model.gguf", { size: CONTENT.length + 1 })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DownloadError);
+    expect(error.message).toContain("Size mismatch");
+    expect(await stat(partialPath("model.gguf")).catch(() => null)).toBe(null);
+  });
+});
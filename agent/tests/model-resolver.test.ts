@@ -0,0 +1,151 @@
+import { test, expect, beforeAll, afterAll, describe } from "bun:test";
+import {
+  HuggingFaceResolver,
+  ModelResolver,
+} from "../src/models/model-resolver";
+import { ModelResolveError } from "../src/utils/errors";
+import { isModelFile } from "../src/utils/filesystem";
+
+describe("HuggingFaceResolver", () => {
+  // Files the hub stand-in lists per repository
+  const REPOS: Record<string, Array<{ path: string; size: number }>> = {
+    "org/quants": [
+      { path: "README.md", size: 10 },
+      { path: "model.Q4_K_M.gguf", size: 400 },
+      { path: "model.Q8_0.gguf", size: 800 },
+      { path: "mmproj-model-f16.gguf", size: 100 },
+    ],
+    "org/split": [
+      { path: "Q8_0/model-Q8_0-00002-of-00002.gguf", size: 300 },
+      { path: "Q8_0/model-Q8_0-00001-of-00002.gguf", size: 500 },
+      { path: "model.Q4_K_M.gguf", size: 400 },
+    ],
+    "org/ambiguous": [
+      { path: "model.Q4_K_M.gguf", size: 400 },
+      { path: "model-instruct.Q4_K_M.gguf", size: 400 },
+    ],
+  };
+  const PAGE_SIZE = 2;
+
+  let server: ReturnType<typeof Bun.serve>;
+  let resolver: HuggingFaceResolver;
+  // Tree API requests the hub got
+  let listings: string[];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const url = new URL(req.url);
+        const match = url.pathname.match(/^\/api\/models\/(.+)\/tree\/main$/);
+        const files = match ? REPOS[match[1]!] : undefined;
+        if (!files) return new Response("Not found", { status: 404 });
+        if (req.headers.get("authorization") !== "Bearer hf-token") {
+          return new Response("Unauthorized", { status: 401 });
+        }
+        listings.push(url.pathname + url.search);
+
+        const page = parseInt(url.searchParams.get("page") ?? "0");
+        const entries = [
+          { type: "directory", path: "Q8_0", size: 0 },
+          ...files.map((file) => ({
+            type: "file",
+            ...file,
+            ...(file.path.endsWith(".gguf")
+              ? { lfs: { oid: `sha-${file.path}`, size: file.size } }
+              : {}),
+          })),
+        ];
+        const next = (page + 1) * PAGE_SIZE;
+        url.searchParams.set("page", String(page + 1));
+        return Response.json(entries.slice(page * PAGE_SIZE, next), {
+          headers:
+            next < entries.length ? { Link: `<${url}>; rel="next"` } : {},
+        });
+      },
+    });
+    resolver = new HuggingFaceResolver(`${server.url}`, "hf-token");
+    listings = [];
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("picks the default quantization", async () => {
+    const model = await resolver.resolve("hf:org/quants");
+
+    expect(model.filename).toBe("model.Q4_K_M.gguf");
+    expect(model.files).toEqual([
+      {
+        url: `${server.url.origin}/org/quants/resolve/main/model.Q4_K_M.gguf`,
+        filename: "model.Q4_K_M.gguf",
+        size: 400,
+        sha256: "sha-model.Q4_K_M.gguf",
+        headers: { Authorization: "Bearer hf-token" },
+      },
+    ]);
+  });
+
+  test("picks the requested quantization", async () => {
+    const model = await resolver.resolve("hf:org/quants:q8_0");
+    expect(model.filename).toBe("model.Q8_0.gguf");
+
+    const error = await resolver.resolve("hf:org/quants:Q2_K").catch((e) => e);
+    expect(error).toBeInstanceOf(ModelResolveError);
+    expect(error.message).toContain("no GGUF matches Q2_K");
+    expect(error.message).not.toContain("mmproj");
+  });
+
+  test("refuses a quantization that matches several files", async () => {
+    const error = await resolver
+      .resolve("hf:org/ambiguous:Q4_K_M")
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ModelResolveError);
+    expect(error.message).toContain("several GGUFs match Q4_K_M");
+  });
+
+  test("resolves every part of a split GGUF in order", async () => {
+    const model = await resolver.resolve("hf:org/split:Q8_0");
+
+    const filenames = model.files.map((file) => file.filename);
+    expect(model.filename).toBe("model-Q8_0-00001-of-00002.gguf");
+    expect(filenames).toEqual([
+      "model-Q8_0-00001-of-00002.gguf",
+      "model-Q8_0-00002-of-00002.gguf",
+    ]);
+    expect(model.files[0]!.url).toEndWith(
+      "/org/split/resolve/main/Q8_0/model-Q8_0-00001-of-00002.gguf"
+    );
+
+    // Only the first part is listed as a model once downloaded
+    expect(filenames.filter(isModelFile)).toEqual([model.filename]);
+  });
+
+  test("follows the pagination of the file listing", async () => {
+    listings = [];
+    const model = await resolver.resolve("hf:org/quants:Q8_0");
+
+    expect(model.filename).toBe("model.Q8_0.gguf");
+    expect(listings).toEqual([
+      "/api/models/org/quants/tree/main?recursive=true",
+      "/api/models/org/quants/tree/main?recursive=true&page=1",
+      "/api/models/org/quants/tree/main?recursive=true&page=2",
+    ]);
+  });
+
+  test("reports repositories the hub doesn't know", async () => {
+    const error = await resolver.resolve("hf:org/missing").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ModelResolveError);
+    expect(error.message).toContain("repository not found");
+  });
+
+  test("is picked for hf: references only", () => {
+    const models = new ModelResolver([resolver]);
+
+    expect(models.isReference("hf:org/quants")).toBe(true);
+    expect(models.isReference("https://example.com/model.gguf")).toBe(false);
+  });
+});
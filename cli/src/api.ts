@@ -2,11 +2,25 @@ import OpenAI from "openai";
 import type {
   ControllerInfo,
   Agent,
+  AgentDrain,
+  DrainAction,
+  EvictionPolicy,
+  MappingOptions,
   ModelMapping,
-  DownloadResult,
+  ModelOperation,
+  ModelOperationResult,
+  DeleteModelResult,
+  DiskUsage,
+  InventoryModel,
+  DownloadJob,
+  DownloadOptions,
+  Distribution,
+  DistributionOptions,
   AvailableModel,
   ToolDefinition,
   ToolCall,
+  ReconcilerStatus,
+  AutoscalerStatus,
 } from "./types.js";
 
 export function getBaseUrl(url: string): string {
@@ -73,12 +87,13 @@ export async function listModels(url: string): Promise<AvailableModel[]> {
 export async function addMapping(
   url: string,
   publicName: string,
-  filename: string
+  filename: string,
+  options: MappingOptions = {}
 ): Promise<void> {
   const baseUrl = getBaseUrl(url);
   await request(baseUrl, "/management/mappings", {
     method: "POST",
-    body: JSON.stringify({ public_name: publicName, filename }),
+    body: JSON.stringify({ public_name: publicName, filename, ...options }),
   });
 }
 
@@ -100,19 +115,219 @@ export async function downloadModel(
   url: string,
   agentId: string,
   modelUrl: string,
-  filename: string
-): Promise<DownloadResult> {
+  options: DownloadOptions = {}
+): Promise<DownloadJob> {
   const baseUrl = getBaseUrl(url);
-  return request<DownloadResult>(
+  return request<DownloadJob>(
     baseUrl,
     `/management/agents/${encodeURIComponent(agentId)}/models/download`,
     {
       method: "POST",
-      body: JSON.stringify({ model_url: modelUrl, filename }),
+      body: JSON.stringify({ model_url: modelUrl, ...options }),
     }
   );
 }
 
+export async function listDownloads(
+  url: string,
+  agentId?: string
+): Promise<DownloadJob[]> {
+  const baseUrl = getBaseUrl(url);
+  const query = agentId ? `?agent=${encodeURIComponent(agentId)}` : "";
+  return request<DownloadJob[]>(baseUrl, `/management/downloads${query}`);
+}
+
+export async function getDownload(
+  url: string,
+  id: string
+): Promise<DownloadJob> {
+  const baseUrl = getBaseUrl(url);
+  return request<DownloadJob>(
+    baseUrl,
+    `/management/downloads/${encodeURIComponent(id)}`
+  );
+}
+
+export async function cancelDownload(
+  url: string,
+  id: string
+): Promise<DownloadJob> {
+  const baseUrl = getBaseUrl(url);
+  return request<DownloadJob>(
+    baseUrl,
+    `/management/downloads/${encodeURIComponent(id)}`,
+    { method: "DELETE" }
+  );
+}
+
+export async function distributeModel(
+  url: string,
+  modelUrl: string,
+  options: DistributionOptions
+): Promise<Distribution> {
+  const baseUrl = getBaseUrl(url);
+  return request<Distribution>(baseUrl, "/management/models/distribute", {
+    method: "POST",
+    body: JSON.stringify({ model_url: modelUrl, ...options }),
+  });
+}
+
+export async function listDistributions(url: string): Promise<Distribution[]> {
+  const baseUrl = getBaseUrl(url);
+  return request<Distribution[]>(baseUrl, "/management/models/distributions");
+}
+
+export async function getDistribution(
+  url: string,
+  id: string
+): Promise<Distribution> {
+  const baseUrl = getBaseUrl(url);
+  return request<Distribution>(
+    baseUrl,
+    `/management/models/distributions/${encodeURIComponent(id)}`
+  );
+}
+
+export async function cancelDistribution(
+  url: string,
+  id: string
+): Promise<Distribution> {
+  const baseUrl = getBaseUrl(url);
+  return request<Distribution>(
+    baseUrl,
+    `/management/models/distributions/${encodeURIComponent(id)}`,
+    { method: "DELETE" }
+  );
+}
+
+export async function manageModel(
+  url: string,
+  agentId: string,
+  model: string,
+  operation: ModelOperation
+): Promise<ModelOperationResult> {
+  const baseUrl = getBaseUrl(url);
+  return request<ModelOperationResult>(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/models/${encodeURIComponent(model)}/${operation}`,
+    { method: "POST" }
+  );
+}
+
+export async function deleteModel(
+  url: string,
+  agentId: string,
+  model: string
+): Promise<DeleteModelResult> {
+  const baseUrl = getBaseUrl(url);
+  return request<DeleteModelResult>(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/models/${encodeURIComponent(model)}`,
+    { method: "DELETE" }
+  );
+}
+
+export async function listInventory(url: string): Promise<InventoryModel[]> {
+  const baseUrl = getBaseUrl(url);
+  return request<InventoryModel[]>(baseUrl, "/management/models");
+}
+
+export async function getDiskUsage(
+  url: string,
+  agentId: string
+): Promise<DiskUsage> {
+  const baseUrl = getBaseUrl(url);
+  return request<DiskUsage>(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/disk`
+  );
+}
+
+export async function setEvictionPolicy(
+  url: string,
+  agentId: string,
+  policy: EvictionPolicy
+): Promise<void> {
+  const baseUrl = getBaseUrl(url);
+  await request(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/models/eviction-policy`,
+    {
+      method: "PUT",
+      body: JSON.stringify({ policy }),
+    }
+  );
+}
+
+export async function getReconcilerStatus(
+  url: string
+): Promise<ReconcilerStatus> {
+  const baseUrl = getBaseUrl(url);
+  return request<ReconcilerStatus>(baseUrl, "/management/reconciler");
+}
+
+export async function runReconciler(url: string): Promise<ReconcilerStatus> {
+  const baseUrl = getBaseUrl(url);
+  return request<ReconcilerStatus>(baseUrl, "/management/reconciler/run", {
+    method: "POST",
+  });
+}
+
+export async function getAutoscalerStatus(
+  url: string
+): Promise<AutoscalerStatus> {
+  const baseUrl = getBaseUrl(url);
+  return request<AutoscalerStatus>(baseUrl, "/management/autoscaler");
+}
+
+export async function cordonAgent(url: string, agentId: string): Promise<void> {
+  const baseUrl = getBaseUrl(url);
+  await request(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/cordon`,
+    { method: "POST" }
+  );
+}
+
+export async function uncordonAgent(
+  url: string,
+  agentId: string
+): Promise<void> {
+  const baseUrl = getBaseUrl(url);
+  await request(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/uncordon`,
+    { method: "POST" }
+  );
+}
+
+export async function drainAgent(
+  url: string,
+  agentId: string,
+  action: DrainAction
+): Promise<AgentDrain> {
+  const baseUrl = getBaseUrl(url);
+  return request<AgentDrain>(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/drain`,
+    {
+      method: "POST",
+      body: JSON.stringify({ action }),
+    }
+  );
+}
+
+export async function getAgentDrain(
+  url: string,
+  agentId: string
+): Promise<AgentDrain> {
+  const baseUrl = getBaseUrl(url);
+  return request<AgentDrain>(
+    baseUrl,
+    `/management/agents/${encodeURIComponent(agentId)}/drain`
+  );
+}
+
 export function createOpenAIClient(url: string, apiKey?: string): OpenAI {
   if (!apiKey && !process.env.API_KEY) throw new Error("No API key configured");
   const baseUrl = getBaseUrl(url);
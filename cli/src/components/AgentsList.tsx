@@ -43,6 +43,18 @@ export default function AgentsList({ agents }: AgentsListProps) {
             <Text color="yellow">({agent.name})</Text>
           </Box>
 
+          {/* Labels */}
+          {Object.keys(agent.labels ?? {}).length > 0 && (
+            <Box marginLeft={2}>
+              <Text color="white">Labels: </Text>
+              <Text color="cyan">
+                {Object.entries(agent.labels ?? {})
+                  .map(([key, value]) => `${key}=${value}`)
+                  .join(", ")}
+              </Text>
+            </Box>
+          )}
+
           {/* Loaded models */}
           <Box marginLeft={2}>
             <Text color="white">Loaded: </Text>
@@ -11,10 +11,38 @@ import {
   addMapping,
   removeMapping,
   downloadModel,
+  listDownloads,
+  getDownload,
+  cancelDownload,
+  distributeModel,
+  listDistributions,
+  getDistribution,
+  cancelDistribution,
+  cordonAgent,
+  uncordonAgent,
+  drainAgent,
+  getAgentDrain,
+  manageModel,
+  deleteModel,
+  listInventory,
+  getDiskUsage,
+  setEvictionPolicy,
+  getReconcilerStatus,
+  runReconciler,
+  getAutoscalerStatus,
   createOpenAIClient,
 } from "./api.js";
+import type {
+  Distribution,
+  DownloadJob,
+  DrainAction,
+  EvictionPolicy,
+  ModelOperation,
+  ReconcilerStatus,
+} from "./types.js";
 import { handleError as handleErrorUtil, setupSignalHandler } from "./utils.js";
 import InkRepl from "./components/InkRepl.js";
+import { DownloadProgress } from "./components/ProgressBar.js";
 
 const DEFAULT_URL = process.env.CONTROLLER_URL || "http://localhost:4080";
 
@@ -108,6 +136,13 @@ agentsCommand
           "\n  ",
           chalk.white("Pending requests:"),
           String(agent.pendingRequests),
+          ...(agent.cordoned
+            ? [
+                "\n  ",
+                chalk.red("Cordoned"),
+                agent.drain ? chalk.gray(`(drain ${agent.drain.status})`) : "",
+              ]
+            : []),
         ].join(" ")
       );
 
@@ -115,6 +150,94 @@ agentsCommand
     })
   );
 
+agentsCommand
+  .command("cordon <agentId>")
+  .description("Stop routing new requests to an agent")
+  .action(
+    handleError(async (agentId: string) => {
+      const url = program.opts().url;
+      await cordonAgent(url, agentId);
+      console.log(chalk.green(`✓ Agent cordoned: ${agentId}`));
+    })
+  );
+
+agentsCommand
+  .command("uncordon <agentId>")
+  .description("Let an agent receive requests again")
+  .action(
+    handleError(async (agentId: string) => {
+      const url = program.opts().url;
+      await uncordonAgent(url, agentId);
+      console.log(chalk.green(`✓ Agent uncordoned: ${agentId}`));
+    })
+  );
+
+agentsCommand
+  .command("drain <agentId>")
+  .description(
+    "Cordon an agent and act once its in-flight requests have finished"
+  )
+  .option(
+    "--action <action>",
+    "What to do once drained: none, unload or exit",
+    "none"
+  )
+  .action(
+    handleError(async (agentId: string, options: { action: DrainAction }) => {
+      const url = program.opts().url;
+      const drain = await drainAgent(url, agentId, options.action);
+      console.log(chalk.green(`✓ Draining agent ${agentId}`));
+      console.log(`  Action: ${drain.action}`);
+      console.log(`  Status: ${drain.status}`);
+    })
+  );
+
+agentsCommand
+  .command("drain-status <agentId>")
+  .description("Show the progress of an agent drain")
+  .action(
+    handleError(async (agentId: string) => {
+      const url = program.opts().url;
+      const drain = await getAgentDrain(url, agentId);
+      console.log(chalk.blue(`Drain of agent ${agentId}:`));
+      console.log(`  Action: ${drain.action}`);
+      console.log(`  Status: ${drain.status}`);
+      console.log(`  Started: ${new Date(drain.startedAt).toLocaleString()}`);
+      if (drain.finishedAt !== null) {
+        console.log(
+          `  Finished: ${new Date(drain.finishedAt).toLocaleString()}`
+        );
+      }
+      if (drain.error) {
+        console.log(chalk.red(`  Error: ${drain.error}`));
+      }
+    })
+  );
+
+agentsCommand
+  .command("disk <agentId>")
+  .description("Show an agent's disk space and what each model takes")
+  .action(
+    handleError(async (agentId: string) => {
+      const url = program.opts().url;
+      const usage = await getDiskUsage(url, agentId);
+      const gb = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+
+      console.log(
+        `${chalk.white("Disk:")} ${gb(usage.freeBytes)} free of ${gb(usage.totalBytes)}, models take ${gb(usage.modelsBytes)}`
+      );
+      for (const model of [...usage.models].sort((a, b) => b.bytes - a.bytes)) {
+        const flags = [
+          model.loaded ? chalk.green("loaded") : "",
+          model.pinned ? chalk.cyan("pinned") : "",
+        ].filter(Boolean);
+        console.log(
+          `  ${gb(model.bytes).padStart(9)}  ${model.model} ${flags.join(" ")}`
+        );
+      }
+    })
+  );
+
 // Model Mappings commands
 
 const mappingsCommand = program
@@ -146,10 +269,32 @@ mappingsCommand
 mappingsCommand
   .command("add <publicName> <filename>")
   .description("Create a model mapping")
+  .option(
+    "--min-agents <count>",
+    "Keep the model loaded on at least this many agents"
+  )
+  .option(
+    "--max-agents <count>",
+    "Keep the model loaded on at most this many agents"
+  )
+  .option(
+    "--download-url <url>",
+    "Where agents download the model from when scaling up, a URL or hf:owner/repo:QUANT"
+  )
   .action(
-    handleError(async (publicName: string, filename: string) => {
+    handleError(async (publicName: string, filename: string, options) => {
       const url = program.opts().url;
-      await addMapping(url, publicName, filename);
+      await addMapping(url, publicName, filename, {
+        min_agents:
+          options.minAgents !== undefined
+            ? parseInt(options.minAgents, 10)
+            : undefined,
+        max_agents:
+          options.maxAgents !== undefined
+            ? parseInt(options.maxAgents, 10)
+            : undefined,
+        download_url: options.downloadUrl,
+      });
       console.log(
         chalk.green(`✓ Mapping created: ${publicName} → ${filename}`)
       );
@@ -167,18 +312,493 @@ mappingsCommand
     })
   );
 
+// Reconciler commands
+
+function printReconcilerStatus(status: ReconcilerStatus) {
+  const lastRun = status.lastRunAt
+    ? new Date(status.lastRunAt).toLocaleString()
+    : "never";
+  console.log(chalk.blue(`Desired model state (last run: ${lastRun}):\n`));
+
+  if (status.models.length === 0) {
+    console.log(chalk.yellow("No mapping sets min_agents or max_agents"));
+  }
+  for (const model of status.models) {
+    const bounds = `${model.minAgents}..${model.maxAgents ?? "∞"}`;
+    const drift =
+      model.drift === 0
+        ? chalk.green("in range")
+        : chalk.red(`drift ${model.drift > 0 ? "+" : ""}${model.drift}`);
+    console.log(
+      `${chalk.white(model.publicName)} ${chalk.gray(`(${bounds})`)} ${drift}`
+    );
+    console.log(`  Loaded on: ${model.loadedOn.join(", ") || "none"}`);
+    if (model.blocked) {
+      console.log(chalk.yellow(`  ${model.blocked}`));
+    }
+  }
+
+  const actions = status.actions.slice(0, 10);
+  if (actions.length > 0) {
+    console.log(chalk.blue("\nRecent actions:"));
+  }
+  for (const action of actions) {
+    const color =
+      action.status === "failed"
+        ? chalk.red
+        : action.status === "running"
+          ? chalk.yellow
+          : chalk.green;
+    console.log(
+      `  ${color(action.status)} ${action.type} ${action.model} on ${action.agentId}` +
+        (action.error ? chalk.gray(` (${action.error})`) : "")
+    );
+  }
+}
+
+const reconcilerCommand = program
+  .command("reconciler")
+  .description("Keep models loaded on the number of agents mappings ask for");
+
+reconcilerCommand
+  .command("status")
+  .description("Show drift from the desired state and recent actions")
+  .action(
+    handleError(async () => {
+      const url = program.opts().url;
+      printReconcilerStatus(await getReconcilerStatus(url));
+    })
+  );
+
+reconcilerCommand
+  .command("run")
+  .description("Reconcile now instead of waiting for the next interval")
+  .action(
+    handleError(async () => {
+      const url = program.opts().url;
+      printReconcilerStatus(await runReconciler(url));
+    })
+  );
+
+program
+  .command("autoscaler")
+  .description("Show autoscaled models, their demand and recent decisions")
+  .action(
+    handleError(async () => {
+      const url = program.opts().url;
+      const status = await getAutoscalerStatus(url);
+
+      if (status.models.length === 0) {
+        console.log(chalk.yellow("No mapping has max_agents above min_agents"));
+        return;
+      }
+
+      console.log(chalk.blue(`Autoscaled models (${status.models.length}):\n`));
+      for (const model of status.models) {
+        const utilization =
+          model.utilization === null
+            ? "no replicas"
+            : `${Math.round(model.utilization * 100)}%`;
+        console.log(
+          `${chalk.white(model.publicName)} ${model.replicas}/${model.target} agents ${chalk.gray(`(${model.minAgents}..${model.maxAgents})`)}`
+        );
+        console.log(
+          `  Busy: ${model.busy}/${model.capacity}  Queued: ${model.queued}  Utilization: ${utilization}` +
+            (model.ttftMs !== null
+              ? `  TTFT: ${Math.round(model.ttftMs)}ms`
+              : "")
+        );
+      }
+
+      const decisions = status.decisions.slice(0, 10);
+      if (decisions.length > 0) {
+        console.log(chalk.blue("\nRecent decisions:"));
+      }
+      for (const decision of decisions) {
+        console.log(
+          `  ${new Date(decision.at).toLocaleTimeString()} ${decision.publicName} ${decision.from} → ${decision.to}: ${decision.reason}`
+        );
+      }
+    })
+  );
+
+// Agent models commands
+
+const modelsCommand = program
+  .command("models")
+  .description("List, load, unload, pin and delete models on agents");
+
+modelsCommand
+  .command("list")
+  .description("List the models installed across the fleet")
+  .option("--templates", "Also print each model's chat template")
+  .action(
+    handleError(async (options: { templates?: boolean }) => {
+      const url = program.opts().url;
+      const models = await listInventory(url);
+
+      if (models.length === 0) {
+        console.log(chalk.yellow("No models installed"));
+        return;
+      }
+
+      console.log(chalk.blue(`Installed Models (${models.length}):\n`));
+      for (const model of models) {
+        console.log(chalk.white(model.filename));
+        if (model.publicNames.length > 0) {
+          console.log(`  Served as: ${model.publicNames.join(", ")}`);
+        }
+        console.log(
+          `  Architecture: ${model.architecture ?? "unknown"}, ${
+            model.parameterCount !== null
+              ? `${(model.parameterCount / 1e9).toFixed(1)}B parameters`
+              : "unknown size"
+          }, ${model.quantization ?? "unknown quantization"}`
+        );
+        if (model.contextLength !== null) {
+          console.log(`  Context length: ${model.contextLength}`);
+        }
+        if (model.sizeBytes !== null) {
+          console.log(
+            `  File size: ${(model.sizeBytes / 1024 ** 3).toFixed(1)} GB`
+          );
+        }
+        console.log(`  Agents: ${model.agents.join(", ")}`);
+        if (options.templates && model.chatTemplate) {
+          console.log(chalk.gray(model.chatTemplate));
+        }
+        console.log();
+      }
+    })
+  );
+
+const modelOperations: Array<[ModelOperation, string, string]> = [
+  ["load", "Pre-warm a model on an agent", "Model loaded"],
+  ["unload", "Unload a model from an agent", "Model unloaded"],
+  ["pin", "Load a model and never evict it", "Model pinned"],
+  ["unpin", "Let a pinned model be evicted again", "Model unpinned"],
+];
+
+for (const [operation, description, done] of modelOperations) {
+  modelsCommand
+    .command(`${operation} <agentId> <model>`)
+    .description(description)
+    .action(
+      handleError(async (agentId: string, model: string) => {
+        const url = program.opts().url;
+        const { result } = await manageModel(url, agentId, model, operation);
+        console.log(chalk.green(`✓ ${done}: ${model} on agent ${agentId}`));
+        console.log(`  Loaded: ${result.models.join(", ") || "none"}`);
+        if (result.pinned) {
+          console.log(`  Pinned: ${result.pinned.join(", ") || "none"}`);
+        }
+      })
+    );
+}
+
+modelsCommand
+  .command("eviction-policy <agentId> <policy>")
+  .description(
+    "Choose which idle model makes room for another: lru, lfu or pinned"
+  )
+  .action(
+    handleError(async (agentId: string, policy: EvictionPolicy) => {
+      const url = program.opts().url;
+      await setEvictionPolicy(url, agentId, policy);
+      console.log(
+        chalk.green(`✓ Eviction policy of agent ${agentId}: ${policy}`)
+      );
+    })
+  );
+
+modelsCommand
+  .command("delete <agentId> <model>")
+  .description(
+    "Delete a model's files from an agent; loaded and pinned models are refused"
+  )
+  .action(
+    handleError(async (agentId: string, model: string) => {
+      const url = program.opts().url;
+      const { result } = await deleteModel(url, agentId, model);
+      console.log(chalk.green(`✓ Model deleted: ${model} on agent ${agentId}`));
+      console.log(
+        `  Freed: ${(result.freedBytes / 1024 / 1024).toFixed(1)} MB (${result.deleted.length} file(s))`
+      );
+    })
+  );
+
 // Download command
 
+function formatJobProgress(job: DownloadJob): string {
+  const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (job.total === 0) return mb(job.downloaded);
+  const percent = Math.round((job.downloaded / job.total) * 100);
+  return `${mb(job.downloaded)} / ${mb(job.total)} (${percent}%)`;
+}
+
+function isJobFinished(job: DownloadJob): boolean {
+  return (
+    job.status === "done" ||
+    job.status === "failed" ||
+    job.status === "cancelled"
+  );
+}
+
+program
+  .command("download <agentId> <source> [filename]")
+  .description(
+    "Download a model on an agent from a URL or a reference such as hf:owner/repo:Q4_K_M, showing its progress"
+  )
+  .option("--sha256 <digest>", "Fail unless the file has this sha256")
+  .option("--size <bytes>", "Fail unless the file has this many bytes")
+  .option("-n, --name <publicName>", "Map the model to this public name")
+  .option("--gc", "Delete unmapped models if the disk is short of space")
+  .option("-d, --detach", "Print the download's id and return")
+  .action(
+    handleError(
+      async (
+        agentId: string,
+        source: string,
+        filename: string | undefined,
+        options
+      ) => {
+        const url = program.opts().url;
+        let job = await downloadModel(url, agentId, source, {
+          filename,
+          sha256: options.sha256,
+          size:
+            options.size !== undefined ? parseInt(options.size, 10) : undefined,
+          public_name: options.name,
+          gc: options.gc,
+        });
+
+        if (options.detach) {
+          console.log(chalk.green(`✓ Download ${job.id} started`));
+          return;
+        }
+
+        // Ctrl-C cancels the download instead of leaving it running
+        const signal = setupSignalHandler();
+        const app = render(
+          <DownloadProgress downloaded={0} total={0} label={job.filename} />
+        );
+        try {
+          while (!isJobFinished(job)) {
+            if (signal.aborted) {
+              job = await cancelDownload(url, job.id);
+              break;
+            }
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+            job = await getDownload(url, job.id);
+            app.rerender(
+              <DownloadProgress
+                downloaded={job.downloaded}
+                total={job.total}
+                speed={String(job.bytesPerSecond)}
+                label={
+                  job.status === "verifying"
+                    ? `Verifying ${job.filename}`
+                    : job.filename
+                }
+              />
+            );
+          }
+        } finally {
+          app.unmount();
+          signal.cleanup();
+        }
+
+        if (job.status === "done") {
+          console.log(chalk.green(`✓ Downloaded on agent ${agentId}`));
+          console.log(`  Source: ${source}`);
+          console.log(`  Filename: ${job.filename}`);
+          if (job.publicName) {
+            console.log(`  Mapped as: ${job.publicName}`);
+          }
+        } else if (job.status === "cancelled") {
+          console.log(chalk.yellow(`Download ${job.id} cancelled`));
+        } else {
+          throw new Error(job.error || `Download ${job.status}`);
+        }
+      }
+    )
+  );
+
+const downloadsCommand = program
+  .command("downloads")
+  .description("Track and cancel model downloads");
+
+downloadsCommand
+  .command("list")
+  .description("List running and recent downloads")
+  .option("-a, --agent <agentId>", "Only downloads on this agent")
+  .action(
+    handleError(async (options) => {
+      const url = program.opts().url;
+      const jobs = await listDownloads(url, options.agent);
+
+      if (jobs.length === 0) {
+        console.log(chalk.yellow("No downloads"));
+        return;
+      }
+
+      for (const job of jobs) {
+        const color =
+          job.status === "failed"
+            ? chalk.red
+            : job.status === "done"
+              ? chalk.green
+              : job.status === "cancelled"
+                ? chalk.gray
+                : chalk.yellow;
+        console.log(
+          `${chalk.magenta(job.id)} ${job.filename} on ${job.agentId} ${color(job.status)}`
+        );
+        console.log(`  ${formatJobProgress(job)}`);
+        if (job.error) {
+          console.log(chalk.red(`  ${job.error}`));
+        }
+      }
+    })
+  );
+
+downloadsCommand
+  .command("cancel <id>")
+  .description("Stop a download and delete its partial file")
+  .action(
+    handleError(async (id: string) => {
+      const url = program.opts().url;
+      const job = await cancelDownload(url, id);
+      if (job.status === "cancelled") {
+        console.log(chalk.green(`✓ Download ${id} cancelled`));
+      } else {
+        console.log(chalk.yellow(`Download ${id} already ${job.status}`));
+      }
+    })
+  );
+
+// Distribution commands
+
+function parseLabelOption(value: string): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    const [key, label] = entry.split("=");
+    if (!key || label === undefined) {
+      throw new Error(`Invalid label '${entry}', expected key=value`);
+    }
+    labels[key.trim()] = label.trim();
+  }
+  return labels;
+}
+
+function printDistribution(distribution: Distribution) {
+  const color =
+    distribution.status === "failed"
+      ? chalk.red
+      : distribution.status === "completed"
+        ? chalk.green
+        : distribution.status === "cancelled"
+          ? chalk.gray
+          : chalk.yellow;
+  const target = distribution.labels
+    ? Object.entries(distribution.labels)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(",")
+    : "all agents";
+  console.log(
+    `${chalk.magenta(distribution.id)} ${distribution.filename} to ${target} ${color(distribution.status)}${distribution.required ? chalk.cyan(" required") : ""}`
+  );
+  for (const agent of distribution.agents) {
+    console.log(
+      `  ${agent.agentId}: ${agent.status}${agent.attempts > 1 ? ` (attempt ${agent.attempts})` : ""}`
+    );
+    if (agent.error) {
+      console.log(chalk.red(`    ${agent.error}`));
+    }
+  }
+}
+
 program
-  .command("download <agentId> <modelUrl> <filename>")
-  .description("Trigger model download on an agent")
+  .command("distribute <source> [filename]")
+  .description(
+    "Download a model onto every agent, or every agent with the labels"
+  )
+  .option("-l, --labels <labels>", "Only agents with these key=value labels")
+  .option("--all", "Every agent")
+  .option("-r, --required", "Also download onto agents that connect later")
+  .option("-c, --concurrency <n>", "Agents downloading at once")
+  .option("--sha256 <digest>", "Fail unless the file has this sha256")
+  .option("--size <bytes>", "Fail unless the file has this many bytes")
+  .option("-n, --name <publicName>", "Map the model to this public name")
+  .action(
+    handleError(
+      async (source: string, filename: string | undefined, options) => {
+        const url = program.opts().url;
+        const distribution = await distributeModel(url, source, {
+          filename,
+          labels: options.labels ? parseLabelOption(options.labels) : undefined,
+          all: options.all,
+          required: options.required,
+          concurrency:
+            options.concurrency !== undefined
+              ? parseInt(options.concurrency, 10)
+              : undefined,
+          sha256: options.sha256,
+          size:
+            options.size !== undefined ? parseInt(options.size, 10) : undefined,
+          public_name: options.name,
+        });
+
+        console.log(
+          chalk.green(
+            `✓ Distributing ${distribution.filename} to ${distribution.agents.length} agent(s)`
+          )
+        );
+        console.log(
+          `  Track it with: piercer distributions status ${distribution.id}`
+        );
+      }
+    )
+  );
+
+const distributionsCommand = program
+  .command("distributions")
+  .description("Track and cancel fleet-wide model distributions");
+
+distributionsCommand
+  .command("list")
+  .description("List distributions and their agents")
+  .action(
+    handleError(async () => {
+      const url = program.opts().url;
+      const distributions = await listDistributions(url);
+
+      if (distributions.length === 0) {
+        console.log(chalk.yellow("No distributions"));
+        return;
+      }
+      distributions.forEach(printDistribution);
+    })
+  );
+
+distributionsCommand
+  .command("status <id>")
+  .description("Show each agent's progress of a distribution")
+  .action(
+    handleError(async (id: string) => {
+      const url = program.opts().url;
+      printDistribution(await getDistribution(url, id));
+    })
+  );
+
+distributionsCommand
+  .command("cancel <id>")
+  .description("Stop a distribution's downloads and stop requiring the model")
   .action(
-    handleError(async (agentId: string, modelUrl: string, filename: string) => {
+    handleError(async (id: string) => {
       const url = program.opts().url;
-      const result = await downloadModel(url, agentId, modelUrl, filename);
-      console.log(chalk.green(`✓ Download started on agent ${agentId}`));
-      console.log(`  URL: ${modelUrl}`);
-      console.log(`  Filename: ${result.result || filename}`);
+      await cancelDistribution(url, id);
+      console.log(chalk.green(`✓ Distribution ${id} cancelled`));
     })
   );
 
@@ -6,17 +6,112 @@ export interface ControllerInfo {
 export interface Agent {
   id: string;
   name: string;
+  labels?: Record<string, string>;
   loadedModels: string[];
   installedModels: string[];
   pendingRequests: number;
+  cordoned?: boolean;
+  drain?: AgentDrain | null;
   status?: string;
   vram_used?: number;
   vram_total?: number;
 }
 
+export type DrainAction = "none" | "unload" | "exit";
+
+export interface AgentDrain {
+  agentId: string;
+  action: DrainAction;
+  status: "draining" | "drained" | "failed" | "cancelled";
+  startedAt: number;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+export type ModelOperation = "load" | "unload" | "pin" | "unpin";
+
+export type EvictionPolicy = "lru" | "lfu" | "pinned";
+
+export interface ModelOperationResult {
+  result: {
+    // Models loaded on the agent afterwards
+    models: string[];
+    pinned?: string[];
+  };
+}
+
+export interface DeleteModelResult {
+  result: {
+    // Every file removed, e.g. all parts of a split GGUF
+    deleted: string[];
+    freedBytes: number;
+  };
+}
+
+export interface ModelFileUsage {
+  model: string;
+  bytes: number;
+  loaded: boolean;
+  pinned: boolean;
+}
+
+export interface DiskUsage {
+  totalBytes: number;
+  freeBytes: number;
+  modelsBytes: number;
+  models: ModelFileUsage[];
+}
+
+// An installed model across the fleet, with what its GGUF header says
+export interface InventoryModel {
+  filename: string;
+  agents: string[];
+  publicNames: string[];
+  // Null until an agent has reported the model's metadata
+  sizeBytes: number | null;
+  architecture: string | null;
+  parameterCount: number | null;
+  quantization: string | null;
+  contextLength: number | null;
+  chatTemplate: string | null;
+}
+
 export interface ModelMapping {
   public_name: string;
   internal_name: string;
+  min_agents?: number;
+  max_agents?: number | null;
+  download_url?: string | null;
+}
+
+export interface MappingOptions {
+  min_agents?: number;
+  max_agents?: number;
+  download_url?: string;
+}
+
+export interface ReconcileAction {
+  type: "download" | "load" | "unload";
+  publicName: string;
+  model: string;
+  agentId: string;
+  status: "running" | "succeeded" | "failed";
+  startedAt: number;
+  error: string | null;
+}
+
+export interface ReconcilerStatus {
+  lastRunAt: number | null;
+  models: Array<{
+    publicName: string;
+    model: string;
+    minAgents: number;
+    maxAgents: number | null;
+    loadedOn: string[];
+    drift: number;
+    blocked: string | null;
+  }>;
+  actions: ReconcileAction[];
 }
 
 export interface AvailableModel {
@@ -37,8 +132,84 @@ export interface CLIConfig {
   apiKey?: string;
 }
 
-export interface DownloadResult {
-  result?: string;
+export type DownloadJobStatus =
+  | "queued"
+  | "downloading"
+  | "verifying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface DownloadJob {
+  id: string;
+  agentId: string;
+  url: string;
+  filename: string;
+  sha256: string | null;
+  size: number | null;
+  publicName: string | null;
+  // Agents the file is pulled from before the source
+  peers: string[];
+  // Unmapped models the agent may delete if the disk is short
+  collectable: string[];
+  status: DownloadJobStatus;
+  downloaded: number;
+  total: number;
+  bytesPerSecond: number;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+export interface DownloadOptions {
+  // Taken from the source for references such as hf:owner/repo:Q4_K_M
+  filename?: string;
+  sha256?: string;
+  size?: number;
+  // Mapping created once the download is done
+  public_name?: string;
+  // Let the agent delete unmapped models to make room
+  gc?: boolean;
+}
+
+export type DistributionTargetStatus =
+  | "pending"
+  | "downloading"
+  | "installed"
+  | "failed"
+  | "cancelled";
+
+export interface DistributionTarget {
+  agentId: string;
+  status: DistributionTargetStatus;
+  attempts: number;
+  jobId: string | null;
+  error: string | null;
+}
+
+export interface Distribution {
+  id: string;
+  modelUrl: string;
+  filename: string;
+  labels: Record<string, string> | null;
+  required: boolean;
+  concurrency: number;
+  sha256: string | null;
+  size: number | null;
+  publicName: string | null;
+  status: "running" | "completed" | "failed" | "cancelled";
+  agents: DistributionTarget[];
+  createdAt: number;
+}
+
+export interface DistributionOptions extends DownloadOptions {
+  // Every agent when unset, which needs all
+  labels?: Record<string, string>;
+  all?: boolean;
+  // Agents that connect later receive the model too
+  required?: boolean;
+  concurrency?: number;
 }
 
 export interface ToolDefinition {
@@ -68,3 +239,26 @@ export interface ToolCall {
     arguments: string;
   };
 }
+
+export interface AutoscalerStatus {
+  models: Array<{
+    publicName: string;
+    minAgents: number;
+    maxAgents: number;
+    target: number;
+    replicas: number;
+    capacity: number;
+    busy: number;
+    queued: number;
+    // null when requests wait for a model without replicas
+    utilization: number | null;
+    ttftMs: number | null;
+  }>;
+  decisions: Array<{
+    publicName: string;
+    from: number;
+    to: number;
+    reason: string;
+    at: number;
+  }>;
+}
@@ -1,9 +1,27 @@
-import type { Context } from "hono";
+import type { Context, Next } from "hono";
 import type { Db } from "../services/db";
 import type { Logger } from "../services/logger";
-import type { AgentManager } from "../services/agents";
+import type { Agent, AgentManager } from "../services/agents";
 import type { MappingsService } from "../services/mappings";
 import type { AgentRPCService } from "../services/agent-rpc";
+import type { RequestQueue } from "../services/queue";
+import { isPriorityClass } from "../services/queue";
+import {
+  ROUTING_STRATEGIES,
+  isRoutingStrategy,
+  matchesLabels,
+} from "../services/routing";
+import type { ApiKeysService } from "../services/api-keys";
+import type { UsageService } from "../services/usage";
+import type { DrainService } from "../services/drain";
+import type { DownloadService } from "../services/downloads";
+import type { DistributionService } from "../services/distribution";
+import { DRAIN_ACTIONS, isDrainAction } from "../services/drain";
+import type { ReconcilerService } from "../services/reconciler";
+import type { AutoscalerService } from "../services/autoscaler";
+import type { ApiKeyOptions, UsageDimension, UsageQuery } from "../services/db";
+import { EVICTION_POLICIES, isEvictionPolicy } from "../rpc-types";
+import type { DeleteRefusal } from "../rpc-types";
 
 export interface ManagementAPIConfig {
   db: Db;
@@ -11,14 +29,67 @@ export interface ManagementAPIConfig {
   agentManager: AgentManager;
   mappingsService: MappingsService;
   agentRPCService: AgentRPCService;
+  requestQueue: RequestQueue;
+  apiKeysService: ApiKeysService;
+  usageService: UsageService;
+  drainService: DrainService;
+  downloadService: DownloadService;
+  distributionService: DistributionService;
+  reconcilerService: ReconcilerService;
+  autoscalerService: AutoscalerService;
+  // Required to manage API keys when set
+  adminKey?: string;
 }
 
+// Agents that haven't sent a heartbeat for this long are reported as stale
+const TELEMETRY_STALE_MS = 60 * 1000;
+
+const MB = 1024 * 1024;
+
+const USAGE_DIMENSIONS: UsageDimension[] = ["key", "model", "agent", "time"];
+
+const USAGE_BUCKETS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isLabelMap(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((label) => typeof label === "string")
+  );
+}
+
+// Status for each reason an agent refuses to delete a model
+const DELETE_REFUSAL_STATUS: Record<DeleteRefusal, 404 | 409> = {
+  not_found: 404,
+  loaded: 409,
+  pinned: 409,
+  downloading: 409,
+};
+
 export class ManagementAPIHandler {
   private db: Db;
   private logger: Logger;
   private agentManager: AgentManager;
   private mappingsService: MappingsService;
   private agentRPCService: AgentRPCService;
+  private requestQueue: RequestQueue;
+  private apiKeysService: ApiKeysService;
+  private usageService: UsageService;
+  private drainService: DrainService;
+  private downloadService: DownloadService;
+  private distributionService: DistributionService;
+  private reconcilerService: ReconcilerService;
+  private autoscalerService: AutoscalerService;
+  private adminKey?: string;
 
   constructor(config: ManagementAPIConfig) {
     this.db = config.db;
@@ -26,17 +97,113 @@ export class ManagementAPIHandler {
     this.agentManager = config.agentManager;
     this.mappingsService = config.mappingsService;
     this.agentRPCService = config.agentRPCService;
+    this.requestQueue = config.requestQueue;
+    this.apiKeysService = config.apiKeysService;
+    this.usageService = config.usageService;
+    this.drainService = config.drainService;
+    this.downloadService = config.downloadService;
+    this.distributionService = config.distributionService;
+    this.reconcilerService = config.reconcilerService;
+    this.autoscalerService = config.autoscalerService;
+    this.adminKey = config.adminKey;
+  }
+
+  /**
+   * Only let the holder of the admin key (API_KEY) through, if one is set
+   */
+  requireAdminKey() {
+    return async (c: Context, next: Next) => {
+      if (!this.adminKey) {
+        return next();
+      }
+
+      const token = c.req.header("Authorization")?.replace("Bearer ", "");
+      if (token !== this.adminKey) {
+        return c.json({ error: "Admin API key required" }, 401);
+      }
+      return next();
+    };
   }
 
   async createModelMapping(c: Context) {
     const body = await c.req.json();
-    const { public_name, filename } = body;
+    const {
+      public_name,
+      filename,
+      timeout_ms,
+      routing_strategy,
+      required_labels,
+      preferred_labels,
+      min_agents,
+      max_agents,
+      download_url,
+    } = body;
 
     if (!public_name || !filename) {
       return c.json({ error: "public_name and filename are required" }, 400);
     }
 
-    this.mappingsService.addMapping(filename, public_name);
+    if (
+      timeout_ms !== undefined &&
+      (!Number.isInteger(timeout_ms) || timeout_ms <= 0)
+    ) {
+      return c.json({ error: "timeout_ms must be a positive integer" }, 400);
+    }
+
+    if (
+      routing_strategy !== undefined &&
+      (typeof routing_strategy !== "string" ||
+        !isRoutingStrategy(routing_strategy))
+    ) {
+      return c.json(
+        {
+          error: `routing_strategy must be one of: ${ROUTING_STRATEGIES.join(", ")}`,
+        },
+        400
+      );
+    }
+
+    for (const [name, labels] of [
+      ["required_labels", required_labels],
+      ["preferred_labels", preferred_labels],
+    ]) {
+      if (labels !== undefined && !isLabelMap(labels)) {
+        return c.json(
+          { error: `${name} must be an object of string label values` },
+          400
+        );
+      }
+    }
+
+    for (const [name, count] of [
+      ["min_agents", min_agents],
+      ["max_agents", max_agents],
+    ]) {
+      if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+        return c.json({ error: `${name} must be a non-negative integer` }, 400);
+      }
+    }
+    if (
+      min_agents !== undefined &&
+      max_agents !== undefined &&
+      min_agents > max_agents
+    ) {
+      return c.json({ error: "min_agents can't exceed max_agents" }, 400);
+    }
+
+    if (download_url !== undefined && typeof download_url !== "string") {
+      return c.json({ error: "download_url must be a string" }, 400);
+    }
+
+    this.mappingsService.addMapping(filename, public_name, {
+      timeoutMs: timeout_ms,
+      routingStrategy: routing_strategy,
+      requiredLabels: required_labels,
+      preferredLabels: preferred_labels,
+      minAgents: min_agents,
+      maxAgents: max_agents,
+      downloadUrl: download_url,
+    });
     this.logger.info(`Model mapping created: ${public_name} -> ${filename}`);
     return c.json({ success: true });
   }
@@ -46,6 +213,17 @@ export class ManagementAPIHandler {
     return c.json(mappings);
   }
 
+  async listModels(c: Context) {
+    const mappings = this.mappingsService.getAllMappings();
+    const models = this.agentManager.getInventory().map((model) => ({
+      ...model,
+      publicNames: mappings
+        .filter((mapping) => mapping.internal_name === model.filename)
+        .map((mapping) => mapping.public_name),
+    }));
+    return c.json(models);
+  }
+
   async deleteModelMapping(c: Context) {
     const publicName = c.req.param("publicName");
     const success = this.mappingsService.removeMapping(publicName);
@@ -59,7 +237,38 @@ export class ManagementAPIHandler {
   async downloadModel(c: Context) {
     const agentId = c.req.param("agentId");
     const body = await c.req.json();
-    const { model_url, filename } = body;
+    const { model_url, sha256, size, public_name, gc } = body;
+    let { filename } = body;
+
+    if (typeof model_url !== "string") {
+      return c.json({ error: "model_url is required" }, 400);
+    }
+    if (filename !== undefined && typeof filename !== "string") {
+      return c.json({ error: "filename must be a string" }, 400);
+    }
+    if (
+      sha256 !== undefined &&
+      (typeof sha256 !== "string" || !/^[0-9a-f]{64}$/i.test(sha256))
+    ) {
+      return c.json({ error: "sha256 must be a 64 character hex digest" }, 400);
+    }
+    if (size !== undefined && !isPositiveInteger(size)) {
+      return c.json({ error: "size must be a positive integer" }, 400);
+    }
+    if (gc !== undefined && typeof gc !== "boolean") {
+      return c.json({ error: "gc must be a boolean" }, 400);
+    }
+    if (public_name !== undefined) {
+      if (typeof public_name !== "string" || !public_name) {
+        return c.json({ error: "public_name must be a non-empty string" }, 400);
+      }
+      if (this.mappingsService.getMapping(public_name)) {
+        return c.json(
+          { error: `Mapping with public_name '${public_name}' already exists` },
+          409
+        );
+      }
+    }
 
     // Validate agent exists
     const agent = this.agentManager.getAgent(agentId);
@@ -68,22 +277,315 @@ export class ManagementAPIHandler {
       return c.json({ error: `Agent '${agentId}' not found` }, 404);
     }
 
+    // References such as hf:owner/repo:Q4_K_M name their own file
+    if (filename === undefined) {
+      try {
+        const resolved = await this.agentRPCService.resolveModel({
+          agentId,
+          reference: model_url,
+        });
+        filename = resolved.filename;
+      } catch (error) {
+        return c.json(
+          {
+            error: `Cannot resolve '${model_url}'; plain URLs need a filename`,
+            details: (error as Error)?.message,
+          },
+          400
+        );
+      }
+    }
+
     this.logger.info(
       `Download request for agent ${agentId}, model ${model_url} as ${filename}`
     );
 
+    // Multi-GB downloads outlive any HTTP request; hand back a job to poll
+    const job = this.downloadService.start({
+      agentId,
+      url: model_url,
+      filename,
+      sha256,
+      size,
+      publicName: public_name,
+      gc,
+    });
+    return c.json(job, 202);
+  }
+
+  async listDownloads(c: Context) {
+    const agentId = c.req.query("agent");
+    return c.json(this.downloadService.listJobs(agentId));
+  }
+
+  async getDownload(c: Context) {
+    const id = c.req.param("id");
+    const job = this.downloadService.getJob(id);
+    if (!job) {
+      return c.json({ error: `Download '${id}' not found` }, 404);
+    }
+    return c.json(job);
+  }
+
+  async cancelDownload(c: Context) {
+    const id = c.req.param("id");
+    const job = await this.downloadService.cancel(id);
+    if (!job) {
+      return c.json({ error: `Download '${id}' not found` }, 404);
+    }
+    return c.json(job);
+  }
+
+  // Download a model onto every agent, or every agent with the labels
+  async distributeModel(c: Context) {
+    const body = await c.req.json();
+    const {
+      model_url,
+      labels,
+      all,
+      required,
+      concurrency,
+      sha256,
+      size,
+      public_name,
+    } = body;
+    let { filename } = body;
+
+    if (typeof model_url !== "string") {
+      return c.json({ error: "model_url is required" }, 400);
+    }
+    if (filename !== undefined && typeof filename !== "string") {
+      return c.json({ error: "filename must be a string" }, 400);
+    }
+    if (labels !== undefined && !isLabelMap(labels)) {
+      return c.json({ error: "labels must map label names to values" }, 400);
+    }
+    // Guard against fanning out to the whole fleet by leaving out labels
+    if ((labels === undefined) === (all !== true)) {
+      return c.json(
+        { error: "Either labels or all: true is required, not both" },
+        400
+      );
+    }
+    if (required !== undefined && typeof required !== "boolean") {
+      return c.json({ error: "required must be a boolean" }, 400);
+    }
+    if (concurrency !== undefined && !isPositiveInteger(concurrency)) {
+      return c.json({ error: "concurrency must be a positive integer" }, 400);
+    }
+    if (
+      sha256 !== undefined &&
+      (typeof sha256 !== "string" || !/^[0-9a-f]{64}$/i.test(sha256))
+    ) {
+      return c.json({ error: "sha256 must be a 64 character hex digest" }, 400);
+    }
+    if (size !== undefined && !isPositiveInteger(size)) {
+      return c.json({ error: "size must be a positive integer" }, 400);
+    }
+    if (public_name !== undefined) {
+      if (typeof public_name !== "string" || !public_name) {
+        return c.json({ error: "public_name must be a non-empty string" }, 400);
+      }
+      if (this.mappingsService.getMapping(public_name)) {
+        return c.json(
+          { error: `Mapping with public_name '${public_name}' already exists` },
+          409
+        );
+      }
+    }
+
+    const targets = this.agentManager
+      .getAllAgents()
+      .filter((agent) => labels === undefined || matchesLabels(agent, labels));
+
+    // References such as hf:owner/repo:Q4_K_M name their own file
+    if (filename === undefined) {
+      if (targets.length === 0) {
+        return c.json(
+          { error: `No connected agent to resolve '${model_url}' with` },
+          400
+        );
+      }
+      try {
+        const resolved = await this.agentRPCService.resolveModel({
+          agentId: targets[0]!.id,
+          reference: model_url,
+        });
+        filename = resolved.filename;
+      } catch (error) {
+        return c.json(
+          {
+            error: `Cannot resolve '${model_url}'; plain URLs need a filename`,
+            details: (error as Error)?.message,
+          },
+          400
+        );
+      }
+    }
+
+    if (targets.length === 0 && !required) {
+      return c.json({ error: "No connected agent matches the labels" }, 404);
+    }
+
+    const distribution = this.distributionService.distribute({
+      modelUrl: model_url,
+      filename,
+      labels: labels ?? null,
+      required,
+      concurrency,
+      sha256,
+      size,
+      publicName: public_name,
+    });
+    return c.json(distribution, 202);
+  }
+
+  async listDistributions(c: Context) {
+    return c.json(this.distributionService.listDistributions());
+  }
+
+  async getDistribution(c: Context) {
+    const id = c.req.param("id");
+    const distribution = this.distributionService.getDistribution(id);
+    if (!distribution) {
+      return c.json({ error: `Distribution '${id}' not found` }, 404);
+    }
+    return c.json(distribution);
+  }
+
+  async cancelDistribution(c: Context) {
+    const id = c.req.param("id");
+    const distribution = await this.distributionService.cancel(id);
+    if (!distribution) {
+      return c.json({ error: `Distribution '${id}' not found` }, 404);
+    }
+    return c.json(distribution);
+  }
+
+  // Pre-warm a model so the first request doesn't pay for the load
+  async loadModel(c: Context) {
+    const agentId = c.req.param("agentId");
+    const model = c.req.param("model");
+    return this.manageModel(c, "load model", () =>
+      this.agentRPCService.startModel({ agentId, model })
+    );
+  }
+
+  async unloadModel(c: Context) {
+    const agentId = c.req.param("agentId");
+    const model = c.req.param("model");
+    return this.manageModel(c, "unload model", () =>
+      this.agentRPCService.unloadModel({ agentId, model })
+    );
+  }
+
+  async pinModel(c: Context) {
+    const agentId = c.req.param("agentId");
+    const model = c.req.param("model");
+    return this.manageModel(c, "pin model", () =>
+      this.agentRPCService.pinModel({ agentId, model, pinned: true })
+    );
+  }
+
+  async unpinModel(c: Context) {
+    const agentId = c.req.param("agentId");
+    const model = c.req.param("model");
+    return this.manageModel(c, "unpin model", () =>
+      this.agentRPCService.pinModel({ agentId, model, pinned: false })
+    );
+  }
+
+  // Missing, loaded, pinned and downloading models are refused by the agent
+  async deleteModel(c: Context) {
+    const agentId = c.req.param("agentId");
+    const model = c.req.param("model");
+    if (!this.agentManager.getAgent(agentId)) {
+      return c.json({ error: `Agent '${agentId}' not found` }, 404);
+    }
+
     try {
-      const result = await this.agentRPCService.downloadModel({
+      const result = await this.agentRPCService.deleteModel({
         agentId,
-        model_url,
-        filename,
+        model,
       });
+      if (result.deleted === false) {
+        return c.json(
+          { error: `Cannot delete ${model}`, reason: result.reason },
+          DELETE_REFUSAL_STATUS[result.reason]
+        );
+      }
+      this.logger.info(`Agent ${agentId}: delete model`, { model });
       return c.json({ success: true, result });
     } catch (error) {
-      this.logger.error("Failed to trigger model download", error as Error);
+      this.logger.error("Failed to delete model", error as Error);
       return c.json(
         {
-          error: "Failed to trigger model download",
+          error: "Failed to delete model",
+          details: (error as Error).message,
+        },
+        500
+      );
+    }
+  }
+
+  async getDiskUsage(c: Context) {
+    const agentId = c.req.param("agentId");
+    if (!this.agentManager.getAgent(agentId)) {
+      return c.json({ error: `Agent '${agentId}' not found` }, 404);
+    }
+
+    try {
+      return c.json(await this.agentRPCService.diskUsage({ agentId }));
+    } catch (error) {
+      this.logger.error("Failed to get disk usage", error as Error);
+      return c.json(
+        {
+          error: "Failed to get disk usage",
+          details: (error as Error).message,
+        },
+        500
+      );
+    }
+  }
+
+  async setEvictionPolicy(c: Context) {
+    const agentId = c.req.param("agentId");
+    const { policy } = await c.req.json();
+    if (typeof policy !== "string" || !isEvictionPolicy(policy)) {
+      return c.json(
+        { error: `policy must be one of: ${EVICTION_POLICIES.join(", ")}` },
+        400
+      );
+    }
+    return this.manageModel(c, "set eviction policy", () =>
+      this.agentRPCService.setEvictionPolicy({ agentId, policy })
+    );
+  }
+
+  /**
+   * Run a model operation on a connected agent and answer with its result
+   */
+  private async manageModel(
+    c: Context,
+    operation: string,
+    run: () => Promise<unknown>
+  ) {
+    const agentId = c.req.param("agentId");
+    if (!this.agentManager.getAgent(agentId)) {
+      return c.json({ error: `Agent '${agentId}' not found` }, 404);
+    }
+
+    try {
+      const result = await run();
+      this.logger.info(`Agent ${agentId}: ${operation}`, {
+        model: c.req.param("model"),
+      });
+      return c.json({ success: true, result });
+    } catch (error) {
+      this.logger.error(`Failed to ${operation}`, error as Error);
+      return c.json(
+        {
+          error: `Failed to ${operation}`,
           details: (error as Error).message,
         },
         500
@@ -93,7 +595,275 @@ export class ManagementAPIHandler {
 
   async listAgents(c: Context) {
     const agents = this.agentManager.getAllAgents();
-    // TODO: get more stats from agents.
-    return c.json(agents);
+    return c.json(agents.map((agent) => this.describeAgent(agent)));
+  }
+
+  /**
+   * Flatten the agent's last heartbeat into the fields the CLI shows
+   */
+  private describeAgent(agent: Agent) {
+    const drain = this.drainService.getDrain(agent.id);
+    const telemetry = agent.telemetry;
+    if (!telemetry) {
+      return { ...agent, drain, status: "unknown" };
+    }
+
+    const hardware = telemetry.hardware;
+    let status = telemetry.busySlots > 0 ? "busy" : "healthy";
+    if (Date.now() - telemetry.reportedAt > TELEMETRY_STALE_MS) {
+      status = "stale";
+    }
+
+    return {
+      ...agent,
+      drain,
+      status,
+      vram_used:
+        hardware?.gpuMemoryUsed !== undefined
+          ? hardware.gpuMemoryUsed * MB
+          : undefined,
+      vram_total:
+        hardware?.gpuMemoryTotal !== undefined
+          ? hardware.gpuMemoryTotal * MB
+          : undefined,
+    };
+  }
+
+  async cordonAgent(c: Context) {
+    const agentId = c.req.param("agentId");
+    if (!this.agentManager.setCordoned(agentId, true)) {
+      return c.json({ error: `Agent '${agentId}' not found` }, 404);
+    }
+    this.logger.info(`Agent cordoned: ${agentId}`);
+    return c.json({ success: true });
+  }
+
+  async uncordonAgent(c: Context) {
+    const agentId = c.req.param("agentId");
+    if (!this.agentManager.setCordoned(agentId, false)) {
+      return c.json({ error: `Agent '${agentId}' not found` }, 404);
+    }
+    this.logger.info(`Agent uncordoned: ${agentId}`);
+    return c.json({ success: true });
+  }
+
+  async drainAgent(c: Context) {
+    const agentId = c.req.param("agentId");
+    const body = await c.req.json().catch(() => ({}));
+    const action = body.action ?? "none";
+
+    if (typeof action !== "string" || !isDrainAction(action)) {
+      return c.json(
+        { error: `action must be one of: ${DRAIN_ACTIONS.join(", ")}` },
+        400
+      );
+    }
+
+    const drain = this.drainService.drain(agentId, action);
+    if (!drain) {
+      return c.json({ error: `Agent '${agentId}' not found` }, 404);
+    }
+    return c.json(drain, 202);
+  }
+
+  async getAgentDrain(c: Context) {
+    const agentId = c.req.param("agentId");
+    const drain = this.drainService.getDrain(agentId);
+    if (!drain) {
+      return c.json({ error: `Agent '${agentId}' is not being drained` }, 404);
+    }
+    return c.json(drain);
+  }
+
+  async getReconcilerStatus(c: Context) {
+    return c.json(this.reconcilerService.getStatus());
+  }
+
+  async runReconciler(c: Context) {
+    return c.json(this.reconcilerService.reconcile());
+  }
+
+  async getAutoscalerStatus(c: Context) {
+    return c.json(this.autoscalerService.getStatus());
+  }
+
+  // Evaluate demand now; returns the decisions taken
+  async runAutoscaler(c: Context) {
+    const decisions = this.autoscalerService.evaluate();
+    return c.json({ decisions, status: this.autoscalerService.getStatus() });
+  }
+
+  async getQueueStats(c: Context) {
+    return c.json(this.requestQueue.getStats());
+  }
+
+  async createApiKey(c: Context) {
+    const body = await c.req.json();
+    const {
+      label,
+      allowed_models,
+      requests_per_minute,
+      tokens_per_minute,
+      priority,
+      expires_at,
+    } = body;
+
+    if (typeof label !== "string" || !label) {
+      return c.json({ error: "label is required" }, 400);
+    }
+    if (
+      allowed_models !== undefined &&
+      (!Array.isArray(allowed_models) ||
+        !allowed_models.every((model) => typeof model === "string"))
+    ) {
+      return c.json(
+        { error: "allowed_models must be an array of strings" },
+        400
+      );
+    }
+    if (
+      requests_per_minute !== undefined &&
+      !isPositiveInteger(requests_per_minute)
+    ) {
+      return c.json(
+        { error: "requests_per_minute must be a positive integer" },
+        400
+      );
+    }
+    if (
+      tokens_per_minute !== undefined &&
+      !isPositiveInteger(tokens_per_minute)
+    ) {
+      return c.json(
+        { error: "tokens_per_minute must be a positive integer" },
+        400
+      );
+    }
+    if (priority !== undefined && !isPriorityClass(priority)) {
+      return c.json(
+        { error: "priority must be one of: high, normal, low" },
+        400
+      );
+    }
+    if (expires_at !== undefined && !isPositiveInteger(expires_at)) {
+      return c.json(
+        { error: "expires_at must be a timestamp in milliseconds" },
+        400
+      );
+    }
+
+    const options: ApiKeyOptions = {
+      label,
+      allowedModels: allowed_models,
+      requestsPerMinute: requests_per_minute,
+      tokensPerMinute: tokens_per_minute,
+      priority,
+      expiresAt: expires_at,
+    };
+    const { key, apiKey } = this.apiKeysService.createKey(options);
+    // The plain key is only shown once
+    return c.json({ ...apiKey, key }, 201);
+  }
+
+  async listApiKeys(c: Context) {
+    return c.json(this.apiKeysService.listKeys());
+  }
+
+  async revokeApiKey(c: Context) {
+    const id = c.req.param("id");
+    if (this.apiKeysService.revokeKey(id)) {
+      return c.json({ success: true });
+    }
+    return c.json({ error: "API key not found" }, 404);
+  }
+
+  async rotateApiKey(c: Context) {
+    const id = c.req.param("id");
+    const rotated = this.apiKeysService.rotateKey(id);
+    if (!rotated) {
+      return c.json({ error: "API key not found" }, 404);
+    }
+    return c.json({ ...rotated.apiKey, key: rotated.key });
+  }
+
+  /**
+   * Aggregate the request log, e.g.
+   * `?group_by=key,time&bucket=day&since=<ms>&model=<public name>`
+   */
+  async getUsage(c: Context) {
+    const groupBy = (c.req.query("group_by") || "")
+      .split(",")
+      .map((dimension) => dimension.trim())
+      .filter(Boolean);
+    const invalid = groupBy.find(
+      (dimension) => !USAGE_DIMENSIONS.includes(dimension as UsageDimension)
+    );
+    if (invalid) {
+      return c.json(
+        { error: `group_by must be a list of: ${USAGE_DIMENSIONS.join(", ")}` },
+        400
+      );
+    }
+
+    const bucket = c.req.query("bucket") || "hour";
+    if (!(bucket in USAGE_BUCKETS)) {
+      return c.json(
+        {
+          error: `bucket must be one of: ${Object.keys(USAGE_BUCKETS).join(", ")}`,
+        },
+        400
+      );
+    }
+
+    const filters = this.parseUsageFilters(c);
+    if (!filters) {
+      return c.json({ error: "since and until must be timestamps in ms" }, 400);
+    }
+
+    return c.json(
+      this.usageService.getUsage({
+        ...filters,
+        groupBy: groupBy as UsageDimension[],
+        bucketMs: USAGE_BUCKETS[bucket],
+      })
+    );
+  }
+
+  /**
+   * List the most recent requests from the request log, newest first
+   */
+  async listRequests(c: Context) {
+    const limit = Number(c.req.query("limit") || "100");
+    if (!isPositiveInteger(limit) || limit > 1000) {
+      return c.json({ error: "limit must be between 1 and 1000" }, 400);
+    }
+
+    const filters = this.parseUsageFilters(c);
+    if (!filters) {
+      return c.json({ error: "since and until must be timestamps in ms" }, 400);
+    }
+
+    return c.json(this.usageService.getRequests(filters, limit));
+  }
+
+  private parseUsageFilters(
+    c: Context
+  ): Omit<UsageQuery, "groupBy" | "bucketMs"> | null {
+    const since = c.req.query("since");
+    const until = c.req.query("until");
+    if (
+      (since !== undefined && !Number.isInteger(Number(since))) ||
+      (until !== undefined && !Number.isInteger(Number(until)))
+    ) {
+      return null;
+    }
+
+    return {
+      since: since !== undefined ? Number(since) : undefined,
+      until: until !== undefined ? Number(until) : undefined,
+      apiKeyId: c.req.query("key"),
+      model: c.req.query("model"),
+      agentId: c.req.query("agent"),
+    };
   }
 }
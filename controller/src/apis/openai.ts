@@ -1,10 +1,22 @@
 import type { Context, Next } from "hono";
-import type { Db } from "../services/db";
+import type { Db, ApiKey } from "../services/db";
 import type { Logger } from "../services/logger";
-import type { RoutingService } from "../services/routing";
+import { conversationPrefixKey, parseLabels } from "../services/routing";
+import type {
+  PlacementConstraints,
+  RoutingService,
+  RoutingStrategy,
+} from "../services/routing";
 import type { MappingsService } from "../services/mappings";
 import type { AgentManager } from "../services/agents";
+import { AgentRequestError, toOpenAIUsage } from "../services/agent-rpc";
 import type { AgentRPCService } from "../services/agent-rpc";
+import { QueueFullError, isPriorityClass } from "../services/queue";
+import type { PriorityClass, RequestQueue } from "../services/queue";
+import { isApiKeyExpired } from "../services/api-keys";
+import type { ApiKeysService } from "../services/api-keys";
+import type { UsageService } from "../services/usage";
+import type { TokenUsage as AgentTokenUsage } from "../rpc-types";
 import { randomUUID } from "crypto";
 
 // ============================================
@@ -28,6 +40,7 @@ export interface CompletionRequest {
   best_of?: number;
   logit_bias?: Record<string, number>;
   user?: string;
+  stream_options?: StreamOptions;
 }
 
 export interface CompletionResponse {
@@ -68,6 +81,7 @@ export interface ChatCompletionRequest {
   logprobs?: boolean;
   top_logprobs?: number;
   user?: string;
+  stream_options?: StreamOptions;
 }
 
 export interface ChatMessage {
@@ -127,6 +141,10 @@ export interface TokenUsage {
   total_tokens: number;
 }
 
+export interface StreamOptions {
+  include_usage?: boolean;
+}
+
 // Models API Types
 export interface ModelsResponse {
   object: "list";
@@ -138,6 +156,12 @@ export interface ModelInfo {
   object: "model";
   created: number;
   owned_by: string;
+  // From the GGUF metadata, once an agent with the model has reported it
+  context_length?: number;
+  architecture?: string;
+  parameters?: number;
+  quantization?: string;
+  size_bytes?: number;
 }
 
 // ============================================
@@ -184,10 +208,20 @@ export interface OpenAIAPIConfig {
   mappingsService: MappingsService;
   agentManager: AgentManager;
   agentRPCService: AgentRPCService;
+  requestQueue: RequestQueue;
+  apiKeysService: ApiKeysService;
+  usageService: UsageService;
   apiKey?: string;
   rateLimitMax?: number;
+  requestTimeoutMs?: number;
 }
 
+// Rate limits are enforced over a sliding one minute window
+const RATE_LIMIT_WINDOW_MS = 60000;
+// Requests for models that aren't mapped are logged under this name, as
+// clients can make up any number of them
+const UNKNOWN_MODEL = "unknown";
+
 export class OpenAIAPIHandler {
   private db: Db;
   private logger: Logger;
@@ -195,9 +229,18 @@ export class OpenAIAPIHandler {
   private mappingsService: MappingsService;
   private agentManager: AgentManager;
   private agentRPCService: AgentRPCService;
+  private requestQueue: RequestQueue;
+  private apiKeysService: ApiKeysService;
+  private usageService: UsageService;
   private apiKey?: string;
   private rateLimitMax: number;
+  private requestTimeoutMs: number;
   private requestCounts: Map<string, number[]> = new Map();
+  // API key ID -> tokens used by recently finished requests
+  private tokenCounts: Map<string, { time: number; tokens: number }[]> =
+    new Map();
+  // Request ID -> API key ID, until the request finishes in any way
+  private requestKeys: Map<string, string> = new Map();
 
   constructor(config: OpenAIAPIConfig) {
     this.db = config.db;
@@ -206,8 +249,21 @@ export class OpenAIAPIHandler {
     this.mappingsService = config.mappingsService;
     this.agentManager = config.agentManager;
     this.agentRPCService = config.agentRPCService;
+    this.requestQueue = config.requestQueue;
+    this.apiKeysService = config.apiKeysService;
+    this.usageService = config.usageService;
     this.apiKey = config.apiKey;
     this.rateLimitMax = config.rateLimitMax || 100;
+    this.requestTimeoutMs = config.requestTimeoutMs || 10 * 60 * 1000;
+
+    this.agentRPCService.onRequestFinished((outcome) => {
+      // Every outcome ends the request, whether or not it used tokens
+      const keyId = this.requestKeys.get(outcome.requestId);
+      this.requestKeys.delete(outcome.requestId);
+      if (keyId && outcome.usage) {
+        this.recordTokenUsage(keyId, outcome.usage);
+      }
+    });
   }
 
   // ========================================
@@ -215,12 +271,14 @@ export class OpenAIAPIHandler {
   // ========================================
 
   /**
-   * API key validation middleware
+   * API key validation middleware. Accepts the API_KEY from the environment
+   * as well as any active key from the database; authenticated database keys
+   * are stored on the context as `apiKey`.
    */
   validateAPIKey() {
     return async (c: Context, next: Next) => {
       // Skip if no API key is configured
-      if (!this.apiKey) {
+      if (!this.apiKey && !this.apiKeysService.hasActiveKeys()) {
         return next();
       }
 
@@ -235,7 +293,12 @@ export class OpenAIAPIHandler {
       }
 
       const token = authHeader.replace("Bearer ", "");
-      if (token !== this.apiKey) {
+      if (this.apiKey && token === this.apiKey) {
+        return next();
+      }
+
+      const apiKey = this.apiKeysService.findKey(token);
+      if (!apiKey) {
         throw new OpenAIAPIError(
           "Invalid API key",
           "invalid_api_key",
@@ -244,26 +307,42 @@ export class OpenAIAPIHandler {
         );
       }
 
+      if (isApiKeyExpired(apiKey)) {
+        throw new OpenAIAPIError(
+          "API key has expired",
+          "expired_api_key",
+          "authentication_error",
+          401
+        );
+      }
+
+      c.set("apiKey", apiKey);
       return next();
     };
   }
 
   /**
-   * Rate limiting middleware
+   * Rate limiting middleware. Limits are tracked per database API key, using
+   * the key's own request and token limits when it has them, and per client
+   * IP for everyone else.
    */
   rateLimit() {
     return async (c: Context, next: Next) => {
+      const apiKey = c.get("apiKey") as ApiKey | undefined;
       const ip =
         c.req.header("X-Forwarded-For") ||
         c.req.header("CF-Connecting-IP") ||
         "unknown";
+      const bucket = apiKey ? `key:${apiKey.id}` : `ip:${ip}`;
       const now = Date.now();
-      const windowMs = 60000; // 1 minute window
 
-      const timestamps = this.requestCounts.get(ip) || [];
-      const validTimestamps = timestamps.filter((t) => now - t < windowMs);
+      const timestamps = this.requestCounts.get(bucket) || [];
+      const validTimestamps = timestamps.filter(
+        (t) => now - t < RATE_LIMIT_WINDOW_MS
+      );
 
-      if (validTimestamps.length >= this.rateLimitMax) {
+      const requestLimit = apiKey?.requests_per_minute ?? this.rateLimitMax;
+      if (validTimestamps.length >= requestLimit) {
         throw new OpenAIAPIError(
           "Rate limit exceeded",
           "rate_limit_exceeded",
@@ -272,8 +351,20 @@ export class OpenAIAPIHandler {
         );
       }
 
+      if (
+        apiKey?.tokens_per_minute != null &&
+        this.tokensUsed(apiKey.id, now) >= apiKey.tokens_per_minute
+      ) {
+        throw new OpenAIAPIError(
+          "Token rate limit exceeded",
+          "token_rate_limit_exceeded",
+          "rate_limit_error",
+          429
+        );
+      }
+
       validTimestamps.push(now);
-      this.requestCounts.set(ip, validTimestamps);
+      this.requestCounts.set(bucket, validTimestamps);
 
       return next();
     };
@@ -306,6 +397,7 @@ export class OpenAIAPIHandler {
       // Parse and validate request body
       const body = await c.req.json();
       const request = this.parseCompletionRequest(body);
+      const timeoutMs = this.resolveTimeout(c, request.model);
 
       // Log request
       this.logger.requestReceived(requestId, "completion", request.model, {
@@ -317,6 +409,15 @@ export class OpenAIAPIHandler {
       const internalModel = this.mappingsService.publicToInternal(
         request.model
       );
+
+      // Written to the request log once the request finishes
+      this.usageService.begin(requestId, {
+        apiKeyId: (c.get("apiKey") as ApiKey | undefined)?.id ?? null,
+        requestType: "completion",
+        publicModel: internalModel ? request.model : UNKNOWN_MODEL,
+      });
+      this.authorizeModel(c, requestId, request.model);
+
       if (!internalModel) {
         throw new OpenAIAPIError(
           `Model '${request.model}' not found`,
@@ -326,22 +427,20 @@ export class OpenAIAPIHandler {
         );
       }
 
-      // Select agent via routing service
-      const routingResult = await this.routingService.selectAgent({
+      // Wait in the queue for an agent with spare capacity
+      const placement = this.resolvePlacement(c, request.model);
+      const routingResult = await this.requestQueue.admit({
+        ...placement,
         model: internalModel,
         requestType: "completion",
         requestId,
+        strategy: this.resolveStrategy(request.model),
+        user: request.user,
+        priority: this.resolvePriority(c),
+        timeoutMs,
+        signal: c.req.raw.signal,
       });
 
-      if (!routingResult) {
-        throw new OpenAIAPIError(
-          "No agents available",
-          "no_available_agents",
-          "service_unavailable_error",
-          503
-        );
-      }
-
       // Check if model needs to be started
       const chatLoadedModels = this.agentManager.getLoadedModels(
         routingResult.agent.id
@@ -356,20 +455,27 @@ export class OpenAIAPIHandler {
           }
         );
 
-        await this.agentRPCService.startModel({
-          agentId: routingResult.agent.id,
-          model: internalModel,
-        });
+        await this.startModelBefore(
+          routingResult.agent.id,
+          internalModel,
+          startTime,
+          timeoutMs
+        );
       }
 
+      // Model loading counts against the deadline too
+      const remainingMs = this.remainingTime(startTime, timeoutMs);
+
       // Handle streaming vs non-streaming
       if (request.stream) {
         return this.handleStreamingCompletion(
           c,
           request,
           internalModel,
+          placement,
           routingResult.agent.id,
-          requestId
+          requestId,
+          remainingMs
         );
       }
 
@@ -379,7 +485,10 @@ export class OpenAIAPIHandler {
           routingResult.agent.id,
           request,
           internalModel,
-          requestId
+          placement,
+          requestId,
+          remainingMs,
+          c.req.raw.signal
         );
 
         // Log completion
@@ -394,6 +503,8 @@ export class OpenAIAPIHandler {
         // Cleanup is handled by agent manager in-memory tracking
       }
     } catch (error) {
+      // Release the agent if the request failed before it was dispatched
+      this.agentRPCService.failRequest(requestId, error);
       return this.handleError(c, error, requestId);
     }
   }
@@ -485,6 +596,16 @@ export class OpenAIAPIHandler {
       );
     }
 
+    if (body.stream_options !== undefined && !body.stream) {
+      throw new OpenAIAPIError(
+        "'stream_options' is only allowed when 'stream' is true",
+        "invalid_parameter_value",
+        "invalid_request_error",
+        400,
+        "stream_options"
+      );
+    }
+
     return {
       model: body.model,
       prompt: body.prompt,
@@ -501,6 +622,7 @@ export class OpenAIAPIHandler {
       best_of: body.best_of,
       logit_bias: body.logit_bias,
       user: body.user,
+      stream_options: body.stream_options,
     };
   }
 
@@ -511,43 +633,32 @@ export class OpenAIAPIHandler {
     c: Context,
     request: CompletionRequest,
     internalModel: string,
+    placement: PlacementConstraints,
     agentId: string,
-    requestId: string
+    requestId: string,
+    timeoutMs: number
   ) {
     const stream = new ReadableStream({
       start: async (controller) => {
         try {
           this.agentManager.registerStream(requestId, controller);
-          this.agentManager.bindRequestToAgent(requestId, agentId);
-          this.agentManager.incrementPendingRequests(agentId);
+          this.agentRPCService.armDeadline(requestId, timeoutMs);
 
           await this.agentRPCService.completion({
             ...request,
             model: internalModel,
+            publicModel: request.model,
             agentId,
             requestId,
+            placement,
           });
         } catch (error) {
-          const errorChunk = {
-            error: {
-              message: error instanceof Error ? error.message : "Unknown error",
-              type: "server_error",
-            },
-          };
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify(errorChunk)}\n\n`)
-          );
-          controller.error(error);
-          this.agentManager.removeStream(requestId);
-          const boundAgent =
-            this.agentManager.unbindRequestFromAgent(requestId);
-          if (boundAgent) {
-            this.agentManager.decrementPendingRequests(boundAgent);
-          }
+          this.agentRPCService.failRequest(requestId, error);
         }
       },
       cancel: () => {
-        this.agentManager.removeStream(requestId);
+        // Client disconnected, stop generating on the agent
+        this.agentRPCService.cancelRequest(requestId);
       },
     });
 
@@ -568,7 +679,10 @@ export class OpenAIAPIHandler {
     agentId: string,
     request: CompletionRequest,
     internalModel: string,
-    requestId: string
+    placement: PlacementConstraints,
+    requestId: string,
+    timeoutMs: number,
+    signal?: AbortSignal
   ) {
     // Register a completion buffer and get the Promise
     const completionPromise =
@@ -579,16 +693,22 @@ export class OpenAIAPIHandler {
       agentId,
     });
 
-    this.agentManager.bindRequestToAgent(requestId, agentId);
-    this.agentManager.incrementPendingRequests(agentId);
+    this.agentRPCService.armDeadline(requestId, timeoutMs);
+    signal?.addEventListener(
+      "abort",
+      () => this.agentRPCService.cancelRequest(requestId),
+      { once: true }
+    );
 
     // Call the agent RPC (fire and forget - results come via WebSocket)
     this.agentRPCService
       .completion({
         ...request,
         model: internalModel,
+        publicModel: request.model,
         agentId,
         requestId,
+        placement,
         stream: false,
       })
       .catch((error) => {
@@ -596,15 +716,11 @@ export class OpenAIAPIHandler {
           `Error calling agent RPC for request ${requestId}`,
           error as Error
         );
-        this.agentManager.rejectCompletionBuffer(requestId, error);
-        const boundAgent = this.agentManager.unbindRequestFromAgent(requestId);
-        if (boundAgent) {
-          this.agentManager.decrementPendingRequests(boundAgent);
-        }
+        this.agentRPCService.failRequest(requestId, error);
       });
 
     // Wait for all chunks to be accumulated via WebSocket messages
-    const chunks = await completionPromise;
+    const { chunks, usage } = await completionPromise;
 
     this.logger.info(
       `Received ${chunks.length} chunks for completion request ${requestId}`
@@ -654,7 +770,11 @@ export class OpenAIAPIHandler {
     if (response.choices[0]) {
       response.choices[0].text = fullText;
     }
-    // TODO: Calculate usage if not provided
+    response.usage = this.buildUsage(
+      usage,
+      ([] as string[]).concat(request.prompt).join(""),
+      fullText
+    );
 
     return response;
   }
@@ -674,6 +794,7 @@ export class OpenAIAPIHandler {
       // Parse and validate request body
       const body = await c.req.json();
       const request = this.parseChatCompletionRequest(body);
+      const timeoutMs = this.resolveTimeout(c, request.model);
 
       // Log request
       this.logger.requestReceived(requestId, "chat", request.model, {
@@ -686,6 +807,15 @@ export class OpenAIAPIHandler {
       const internalModel = this.mappingsService.publicToInternal(
         request.model
       );
+
+      // Written to the request log once the request finishes
+      this.usageService.begin(requestId, {
+        apiKeyId: (c.get("apiKey") as ApiKey | undefined)?.id ?? null,
+        requestType: "chat",
+        publicModel: internalModel ? request.model : UNKNOWN_MODEL,
+      });
+      this.authorizeModel(c, requestId, request.model);
+
       if (!internalModel) {
         throw new OpenAIAPIError(
           `Model '${request.model}' not found`,
@@ -695,22 +825,21 @@ export class OpenAIAPIHandler {
         );
       }
 
-      // Select agent via routing service
-      const routingResult = await this.routingService.selectAgent({
+      // Wait in the queue for an agent with spare capacity
+      const placement = this.resolvePlacement(c, request.model);
+      const routingResult = await this.requestQueue.admit({
+        ...placement,
         model: internalModel,
         requestType: "chat",
         requestId,
+        strategy: this.resolveStrategy(request.model),
+        user: request.user,
+        prefixKey: conversationPrefixKey(request.messages),
+        priority: this.resolvePriority(c),
+        timeoutMs,
+        signal: c.req.raw.signal,
       });
 
-      if (!routingResult) {
-        throw new OpenAIAPIError(
-          "No agents available",
-          "no_available_agents",
-          "service_unavailable_error",
-          503
-        );
-      }
-
       // Check if model needs to be started
       const loadedModels = this.agentManager.getLoadedModels(
         routingResult.agent.id
@@ -725,20 +854,27 @@ export class OpenAIAPIHandler {
           }
         );
 
-        await this.agentRPCService.startModel({
-          agentId: routingResult.agent.id,
-          model: internalModel,
-        });
+        await this.startModelBefore(
+          routingResult.agent.id,
+          internalModel,
+          startTime,
+          timeoutMs
+        );
       }
 
+      // Model loading counts against the deadline too
+      const remainingMs = this.remainingTime(startTime, timeoutMs);
+
       // Handle streaming vs non-streaming
       if (request.stream) {
         return this.handleStreamingChatCompletion(
           c,
           request,
           internalModel,
+          placement,
           routingResult.agent.id,
-          requestId
+          requestId,
+          remainingMs
         );
       }
 
@@ -748,7 +884,10 @@ export class OpenAIAPIHandler {
           routingResult.agent.id,
           request,
           internalModel,
-          requestId
+          placement,
+          requestId,
+          remainingMs,
+          c.req.raw.signal
         );
 
         // Log completion
@@ -763,6 +902,8 @@ export class OpenAIAPIHandler {
         // Cleanup is handled by agent manager in-memory tracking
       }
     } catch (error) {
+      // Release the agent if the request failed before it was dispatched
+      this.agentRPCService.failRequest(requestId, error);
       return this.handleError(c, error, requestId);
     }
   }
@@ -906,6 +1047,16 @@ export class OpenAIAPIHandler {
       );
     }
 
+    if (body.stream_options !== undefined && !body.stream) {
+      throw new OpenAIAPIError(
+        "'stream_options' is only allowed when 'stream' is true",
+        "invalid_parameter_value",
+        "invalid_request_error",
+        400,
+        "stream_options"
+      );
+    }
+
     return {
       model: body.model,
       messages: body.messages,
@@ -920,6 +1071,7 @@ export class OpenAIAPIHandler {
       logprobs: body.logprobs,
       top_logprobs: body.top_logprobs,
       user: body.user,
+      stream_options: body.stream_options,
     };
   }
 
@@ -930,43 +1082,33 @@ export class OpenAIAPIHandler {
     c: Context,
     request: ChatCompletionRequest,
     internalModel: string,
+    placement: PlacementConstraints,
     agentId: string,
-    requestId: string
+    requestId: string,
+    timeoutMs: number
   ) {
     const stream = new ReadableStream({
       start: async (controller) => {
         try {
           this.agentManager.registerStream(requestId, controller);
-          this.agentManager.bindRequestToAgent(requestId, agentId);
-          this.agentManager.incrementPendingRequests(agentId);
+          this.agentRPCService.armDeadline(requestId, timeoutMs);
 
           await this.agentRPCService.chat({
             ...request,
             model: internalModel,
+            publicModel: request.model,
             agentId,
             requestId,
+            placement,
+            prefix_key: conversationPrefixKey(request.messages),
           });
         } catch (error) {
-          const errorChunk = {
-            error: {
-              message: error instanceof Error ? error.message : "Unknown error",
-              type: "server_error",
-            },
-          };
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify(errorChunk)}\n\n`)
-          );
-          controller.error(error);
-          this.agentManager.removeStream(requestId);
-          const boundAgent =
-            this.agentManager.unbindRequestFromAgent(requestId);
-          if (boundAgent) {
-            this.agentManager.decrementPendingRequests(boundAgent);
-          }
+          this.agentRPCService.failRequest(requestId, error);
         }
       },
       cancel: () => {
-        this.agentManager.removeStream(requestId);
+        // Client disconnected, stop generating on the agent
+        this.agentRPCService.cancelRequest(requestId);
       },
     });
 
@@ -987,7 +1129,10 @@ export class OpenAIAPIHandler {
     agentId: string,
     request: ChatCompletionRequest,
     internalModel: string,
-    requestId: string
+    placement: PlacementConstraints,
+    requestId: string,
+    timeoutMs: number,
+    signal?: AbortSignal
   ) {
     // Register a completion buffer and get the Promise
     const completionPromise =
@@ -998,32 +1143,35 @@ export class OpenAIAPIHandler {
       agentId,
     });
 
-    this.agentManager.bindRequestToAgent(requestId, agentId);
-    this.agentManager.incrementPendingRequests(agentId);
+    this.agentRPCService.armDeadline(requestId, timeoutMs);
+    signal?.addEventListener(
+      "abort",
+      () => this.agentRPCService.cancelRequest(requestId),
+      { once: true }
+    );
 
     // Call the agent RPC (fire and forget - results come via WebSocket)
     this.agentRPCService
       .chat({
         ...request,
         model: internalModel,
+        publicModel: request.model,
         agentId,
         requestId,
+        placement,
         stream: false,
+        prefix_key: conversationPrefixKey(request.messages),
       })
       .catch((error) => {
         this.logger.error(
           `Error calling agent RPC for request ${requestId}`,
           error as Error
         );
-        this.agentManager.rejectCompletionBuffer(requestId, error);
-        const boundAgent = this.agentManager.unbindRequestFromAgent(requestId);
-        if (boundAgent) {
-          this.agentManager.decrementPendingRequests(boundAgent);
-        }
+        this.agentRPCService.failRequest(requestId, error);
       });
 
     // Wait for all chunks to be accumulated via WebSocket messages
-    const chunks = await completionPromise;
+    const { chunks, usage } = await completionPromise;
 
     this.logger.info(
       `Received ${chunks.length} chunks for request ${requestId}`
@@ -1134,6 +1282,11 @@ export class OpenAIAPIHandler {
         response.choices[0].message.tool_calls = accumulatedToolCalls;
       }
     }
+    response.usage = this.buildUsage(
+      usage,
+      request.messages.map((m) => m.content || "").join("\n"),
+      fullReasoningContent + fullContent
+    );
 
     return response;
   }
@@ -1149,16 +1302,30 @@ export class OpenAIAPIHandler {
     const requestId = c.get("requestId") as string;
 
     try {
-      const mappings = this.mappingsService.getAllMappings();
+      const apiKey = c.get("apiKey") as ApiKey | undefined;
+      const mappings = this.mappingsService
+        .getAllMappings()
+        .filter((mapping) => this.isModelAllowed(apiKey, mapping.public_name));
+      const inventory = new Map(
+        this.agentManager.getInventory().map((model) => [model.filename, model])
+      );
 
       const modelsResponse: ModelsResponse = {
         object: "list",
-        data: mappings.map((mapping) => ({
-          id: mapping.public_name,
-          object: "model",
-          created: mapping.created_at,
-          owned_by: "piercer",
-        })),
+        data: mappings.map((mapping) => {
+          const model = inventory.get(mapping.internal_name);
+          return {
+            id: mapping.public_name,
+            object: "model",
+            created: mapping.created_at,
+            owned_by: "piercer",
+            context_length: model?.contextLength ?? undefined,
+            architecture: model?.architecture ?? undefined,
+            parameters: model?.parameterCount ?? undefined,
+            quantization: model?.quantization ?? undefined,
+            size_bytes: model?.sizeBytes ?? undefined,
+          };
+        }),
       };
 
       return c.json(modelsResponse, 200);
@@ -1190,7 +1357,23 @@ export class OpenAIAPIHandler {
             param: error.param,
           },
         },
-        error.status as 400 | 401 | 403 | 404 | 429 | 500 | 503
+        error.status as 400 | 401 | 403 | 404 | 429 | 500 | 503 | 504
+      );
+    }
+
+    if (error instanceof AgentRequestError) {
+      this.logger.requestFailed(requestId, error, {
+        code: error.code,
+        type: error.type,
+      });
+
+      if (error instanceof QueueFullError) {
+        c.header("Retry-After", String(error.retryAfterSeconds));
+      }
+
+      return c.json(
+        error.toJSON(),
+        error.status as 400 | 404 | 429 | 500 | 502 | 503 | 504
       );
     }
 
@@ -1215,6 +1398,224 @@ export class OpenAIAPIHandler {
   // Utility Methods
   // ========================================
 
+  /**
+   * Reject models the API key may not use, and remember which key the
+   * request belongs to so its token usage can be counted
+   */
+  private authorizeModel(c: Context, requestId: string, publicModel: string) {
+    const apiKey = c.get("apiKey") as ApiKey | undefined;
+    if (!apiKey) return;
+
+    if (!this.isModelAllowed(apiKey, publicModel)) {
+      throw new OpenAIAPIError(
+        `API key is not allowed to use model '${publicModel}'`,
+        "model_not_allowed",
+        "permission_error",
+        403
+      );
+    }
+    this.requestKeys.set(requestId, apiKey.id);
+  }
+
+  private isModelAllowed(apiKey: ApiKey | undefined, publicModel: string) {
+    return (
+      !apiKey?.allowed_models || apiKey.allowed_models.includes(publicModel)
+    );
+  }
+
+  private recordTokenUsage(keyId: string, usage: AgentTokenUsage) {
+    const now = Date.now();
+    const entries = (this.tokenCounts.get(keyId) || []).filter(
+      (entry) => now - entry.time < RATE_LIMIT_WINDOW_MS
+    );
+    entries.push({ time: now, tokens: toOpenAIUsage(usage).total_tokens });
+    this.tokenCounts.set(keyId, entries);
+  }
+
+  private tokensUsed(keyId: string, now: number): number {
+    const entries = (this.tokenCounts.get(keyId) || []).filter(
+      (entry) => now - entry.time < RATE_LIMIT_WINDOW_MS
+    );
+    this.tokenCounts.set(keyId, entries);
+    return entries.reduce((sum, entry) => sum + entry.tokens, 0);
+  }
+
+  /**
+   * Resolve the queue priority class from the X-Priority header, falling
+   * back to the API key's priority
+   */
+  private resolvePriority(c: Context): PriorityClass {
+    const header = c.req.header("X-Priority");
+    if (header === undefined) {
+      const apiKey = c.get("apiKey") as ApiKey | undefined;
+      return apiKey?.priority ?? "normal";
+    }
+
+    const priority = header.trim().toLowerCase();
+    if (!isPriorityClass(priority)) {
+      throw new OpenAIAPIError(
+        "'X-Priority' must be one of: high, normal, low",
+        "invalid_parameter_value",
+        "invalid_request_error",
+        400
+      );
+    }
+    return priority;
+  }
+
+  /**
+   * Combine the model's label constraints with the X-Require-Labels and
+   * X-Prefer-Labels headers. Headers can add requirements but not change
+   * the ones set on the model.
+   */
+  private resolvePlacement(
+    c: Context,
+    publicModel: string
+  ): PlacementConstraints {
+    const mapping = this.mappingsService.getMapping(publicModel);
+    const required = { ...mapping?.required_labels };
+    const preferred = { ...mapping?.preferred_labels };
+
+    for (const [header, target] of [
+      ["X-Require-Labels", required],
+      ["X-Prefer-Labels", preferred],
+    ] as const) {
+      const value = c.req.header(header);
+      if (value === undefined) continue;
+
+      const labels = parseLabels(value);
+      if (!labels) {
+        throw new OpenAIAPIError(
+          `Invalid ${header} header, expected key=value pairs separated by commas`,
+          "invalid_labels",
+          "invalid_request_error",
+          400
+        );
+      }
+      for (const [key, label] of Object.entries(labels)) {
+        if (target === required && key in required && required[key] !== label) {
+          throw new OpenAIAPIError(
+            `Model '${publicModel}' requires ${key}=${required[key]}`,
+            "invalid_labels",
+            "invalid_request_error",
+            400
+          );
+        }
+        target[key] = label;
+      }
+    }
+
+    return { requiredLabels: required, preferredLabels: preferred };
+  }
+
+  /**
+   * The routing strategy picked by the model's mapping, if any
+   */
+  private resolveStrategy(publicModel: string): RoutingStrategy | undefined {
+    return (
+      this.mappingsService.getMapping(publicModel)?.routing_strategy ??
+      undefined
+    );
+  }
+
+  /**
+   * Resolve the timeout for a request: the model's timeout (or the global
+   * default), optionally shortened by the X-Request-Timeout-Ms header
+   */
+  private resolveTimeout(c: Context, publicModel: string): number {
+    const modelTimeout =
+      this.mappingsService.getMapping(publicModel)?.timeout_ms ||
+      this.requestTimeoutMs;
+
+    const header = c.req.header("X-Request-Timeout-Ms");
+    if (header === undefined) {
+      return modelTimeout;
+    }
+
+    const requested = Number(header);
+    if (!Number.isInteger(requested) || requested <= 0) {
+      throw new OpenAIAPIError(
+        "'X-Request-Timeout-Ms' must be a positive integer",
+        "invalid_parameter_value",
+        "invalid_request_error",
+        400
+      );
+    }
+
+    return Math.min(requested, modelTimeout);
+  }
+
+  /**
+   * Time left before the request deadline, throwing if it already passed
+   */
+  private remainingTime(startTime: number, timeoutMs: number): number {
+    const remaining = startTime + timeoutMs - Date.now();
+    if (remaining <= 0) {
+      throw this.timeoutError(timeoutMs);
+    }
+    return remaining;
+  }
+
+  /**
+   * Load a cold model on the agent, giving up once the request deadline
+   * passes
+   */
+  private async startModelBefore(
+    agentId: string,
+    model: string,
+    startTime: number,
+    timeoutMs: number
+  ): Promise<void> {
+    const remainingMs = this.remainingTime(startTime, timeoutMs);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(this.timeoutError(timeoutMs)),
+        remainingMs
+      );
+    });
+
+    try {
+      await Promise.race([
+        this.agentRPCService.startModel({ agentId, model }),
+        deadline,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private timeoutError(timeoutMs: number): OpenAIAPIError {
+    return new OpenAIAPIError(
+      `Request timed out after ${timeoutMs}ms`,
+      "request_timeout",
+      "timeout_error",
+      504
+    );
+  }
+
+  /**
+   * Convert the usage reported by the agent to the OpenAI format, estimating
+   * it from the text when the agent did not report any
+   */
+  private buildUsage(
+    usage: AgentTokenUsage | undefined,
+    promptText: string,
+    completionText: string
+  ): TokenUsage {
+    if (!usage) {
+      const promptTokens = this.estimateTokenCount(promptText);
+      const completionTokens = this.estimateTokenCount(completionText);
+      return {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      };
+    }
+
+    return toOpenAIUsage(usage);
+  }
+
   /**
    * Estimate token count for a string (simple approximation)
    */
@@ -5,6 +5,7 @@ import type { BunTransport } from "../utils/bun-transport";
 import type { WSContext } from "hono/ws";
 import type { ControllerFunctions } from "../rpc-types";
 import type { AgentRPCService } from "../services/agent-rpc";
+import { parseLabels } from "../services/routing";
 
 export interface AgentInfo {
   id: string;
@@ -57,8 +58,16 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
       error: (params: any) => this.agentRPCService.handleAgentError(params),
       receiveCompletion: (params: any) =>
         this.agentRPCService.handleReceiveCompletion(params),
+      receiveError: (params: any) =>
+        this.agentRPCService.handleReceiveError(params),
       updateModels: (params: any) =>
         this.agentRPCService.handleUpdateModels(params),
+      updateSlots: (params: any) =>
+        this.agentRPCService.handleUpdateSlots(params),
+      reportStatus: (params: any) =>
+        this.agentRPCService.handleReportStatus(params),
+      downloadProgress: (params: any) =>
+        this.agentRPCService.handleDownloadProgress(params),
     };
   }
 
@@ -85,6 +94,8 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
     const installedModels = installedModelsHeader
       ? installedModelsHeader.split(",")
       : [];
+    const labels = parseLabels(req.headers.get("agent-labels") ?? "");
+    const peerUrl = req.headers.get("agent-peer-url") ?? undefined;
 
     if (!agentId || !agentName) {
       this.logger.warn("Agent connection rejected: missing headers", {
@@ -95,6 +106,23 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
       return;
     }
 
+    if (!labels) {
+      this.logger.warn("Agent connection rejected: malformed labels", {
+        agentId,
+      });
+      ws.close(1008, "Malformed agent-labels header");
+      return;
+    }
+
+    if (peerUrl !== undefined && !/^https?:\/\/[^/]+$/.test(peerUrl)) {
+      this.logger.warn("Agent connection rejected: malformed peer URL", {
+        agentId,
+        peerUrl,
+      });
+      ws.close(1008, "Malformed agent-peer-url header");
+      return;
+    }
+
     // Store agent ID in ws.raw for reliable identification during disconnect/error events
     if (!ws.raw) {
       ws.raw = {} as any;
@@ -112,7 +140,7 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
         });
         oldWs.close(1001, "Replaced by new connection");
 
-        this.agentManager.removeAgent(agentId);
+        this.failoverRequests(agentId, this.agentManager.removeAgent(agentId));
       }
     }
 
@@ -120,14 +148,16 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
     const agentInfo: AgentInfo = {
       id: agentId,
       name: agentName,
-      capabilities: [],
+      capabilities: Object.entries(labels).map(
+        ([key, value]) => `${key}=${value}`
+      ),
       connectedAt: Date.now(),
     };
 
     this.connectedAgents.set(agentId, agentInfo);
 
     // Register in agent manager
-    this.agentManager.addAgent(agentId, agentName);
+    this.agentManager.addAgent(agentId, agentName, labels, peerUrl);
     this.agentManager.setInstalledModels(agentId, installedModels);
 
     // Register with Transport
@@ -154,7 +184,7 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
 
     this.transport.removeClient(ws);
     this.connectedAgents.delete(agentId);
-    this.agentManager.removeAgent(agentId);
+    this.failoverRequests(agentId, this.agentManager.removeAgent(agentId));
 
     this.logger.agentDisconnected(agentId, reason || `Code: ${code}`);
 
@@ -182,6 +212,20 @@ export class PiercerWebSocketHandler implements WebSocketHandler {
     }
   }
 
+  private failoverRequests(agentId: string, requestIds: string[]): void {
+    if (requestIds.length === 0) return;
+
+    this.logger.warn("Agent had in-flight requests, failing over", {
+      agentId,
+      requestCount: requestIds.length,
+    });
+    this.agentRPCService
+      .failoverRequests(agentId, requestIds)
+      .catch((error) =>
+        this.logger.error("Failed to fail over requests", error, { agentId })
+      );
+  }
+
   // Public methods
   public getConnectedAgents(): AgentInfo[] {
     return Array.from(this.connectedAgents.values());
@@ -9,14 +9,38 @@ import type { Db } from "./services/db";
 import { PinoLogger } from "./services/logger";
 import type { Logger } from "./services/logger";
 import { AgentManager } from "./services/agents";
-import { LoadBalancingRouter } from "./services/routing";
-import type { RoutingService } from "./services/routing";
+import { LoadBalancingRouter, isRoutingStrategy } from "./services/routing";
+import type { RoutingService, RoutingStrategy } from "./services/routing";
 import { ModelMappingsService } from "./services/mappings";
 import type { MappingsService } from "./services/mappings";
 import { AgentRPCService } from "./services/agent-rpc";
+import { AdmissionQueue } from "./services/queue";
+import type { RequestQueue } from "./services/queue";
+import { ApiKeyManager } from "./services/api-keys";
+import type { ApiKeysService } from "./services/api-keys";
+import { RequestUsageRecorder } from "./services/usage";
+import type { UsageService } from "./services/usage";
+import { PrometheusMetrics } from "./services/metrics";
+import type { MetricsService } from "./services/metrics";
+import { AgentDrainer } from "./services/drain";
+import type { DrainService } from "./services/drain";
+import { DownloadJobs } from "./services/downloads";
+import type { DownloadService } from "./services/downloads";
+import { ModelDistributor } from "./services/distribution";
+import type { DistributionService } from "./services/distribution";
+import { ModelReconciler } from "./services/reconciler";
+import type { ReconcilerService } from "./services/reconciler";
+import {
+  DEFAULT_AUTOSCALER_OPTIONS,
+  ReplicaAutoscaler,
+} from "./services/autoscaler";
+import type {
+  AutoscalerOptions,
+  AutoscalerService,
+} from "./services/autoscaler";
 import { PiercerWebSocketHandler } from "./apis/websocket";
 import type { WebSocketHandler } from "./apis/websocket";
-import { OpenAIAPIHandler } from "./apis/openai";
+import { OpenAIAPIHandler, OpenAIAPIError } from "./apis/openai";
 import { ManagementAPIHandler } from "./apis/management";
 
 // Environment configuration
@@ -28,6 +52,12 @@ interface AppConfig {
   logLevel: string;
   apiKey?: string;
   agentSecretKey?: string;
+  requestTimeoutMs: number;
+  queueMaxSize: number;
+  queueTimeoutMs: number;
+  routingStrategy: RoutingStrategy;
+  reconcileIntervalMs: number;
+  autoscaler: AutoscalerOptions;
 }
 
 // Get configuration from environment variables
@@ -40,9 +70,37 @@ function getConfig(): AppConfig {
     logLevel: process.env.LOG_LEVEL || "info",
     apiKey: process.env.API_KEY,
     agentSecretKey: process.env.AGENT_SECRET_KEY,
+    requestTimeoutMs: parseInt(process.env.REQUEST_TIMEOUT_MS || "600000", 10),
+    queueMaxSize: parseInt(process.env.QUEUE_MAX_SIZE || "100", 10),
+    queueTimeoutMs: parseInt(process.env.QUEUE_TIMEOUT_MS || "30000", 10),
+    routingStrategy: parseRoutingStrategy(process.env.ROUTING_STRATEGY),
+    reconcileIntervalMs: parseInt(
+      process.env.RECONCILE_INTERVAL_MS || "30000",
+      10
+    ),
+    autoscaler: {
+      ...DEFAULT_AUTOSCALER_OPTIONS,
+      intervalMs: parseInt(process.env.AUTOSCALE_INTERVAL_MS || "15000", 10),
+      ttftTargetMs: parseInt(
+        process.env.AUTOSCALE_TTFT_TARGET_MS || "2000",
+        10
+      ),
+      scaleDownDelayMs: parseInt(
+        process.env.AUTOSCALE_SCALE_DOWN_DELAY_MS || "600000",
+        10
+      ),
+    },
   };
 }
 
+function parseRoutingStrategy(value: string | undefined): RoutingStrategy {
+  if (!value) return "least_pending";
+  if (!isRoutingStrategy(value)) {
+    throw new Error(`Unknown ROUTING_STRATEGY '${value}'`);
+  }
+  return value;
+}
+
 // Dependency Injection Container
 class DIContainer {
   private db: Db;
@@ -54,6 +112,15 @@ class DIContainer {
   private managementHandler: ManagementAPIHandler;
   private agentManager: AgentManager;
   private agentRPCService: AgentRPCService;
+  private requestQueue: RequestQueue;
+  private apiKeysService: ApiKeysService;
+  private usageService: UsageService;
+  private metricsService: MetricsService;
+  private drainService: DrainService;
+  private downloadService: DownloadService;
+  private distributionService: DistributionService;
+  private reconcilerService: ReconcilerService;
+  private autoscalerService: AutoscalerService;
   private rpc: RPC<any>;
   private transport: BunTransport;
   private config: AppConfig;
@@ -70,8 +137,27 @@ class DIContainer {
     // Initialize agent manager
     this.agentManager = new AgentManager(this.db, this.logger);
 
+    // Initialize routing service
+    this.routingService = new LoadBalancingRouter(
+      this.agentManager,
+      this.logger,
+      { defaultStrategy: config.routingStrategy }
+    );
+
+    // Initialize request queue
+    this.requestQueue = new AdmissionQueue(
+      this.routingService,
+      this.agentManager,
+      this.logger,
+      { maxSize: config.queueMaxSize, timeoutMs: config.queueTimeoutMs }
+    );
+
     // Initialize Agent RPC Service
-    this.agentRPCService = new AgentRPCService(this.agentManager, this.logger);
+    this.agentRPCService = new AgentRPCService(
+      this.agentManager,
+      this.logger,
+      this.routingService
+    );
 
     // Initialize Transport
     this.transport = new BunTransport();
@@ -92,14 +178,73 @@ class DIContainer {
 
     this.rpc.expose(this.wsHandlerInstance.getAgentAPI());
 
-    // Initialize routing service
-    this.routingService = new LoadBalancingRouter(
+    // Initialize mappings service
+    this.mappingsService = new ModelMappingsService(this.db, this.logger);
+
+    // Initialize API keys service
+    this.apiKeysService = new ApiKeyManager(this.db, this.logger);
+
+    // Initialize usage service (request log)
+    this.usageService = new RequestUsageRecorder(
+      this.db,
+      this.logger,
+      this.agentRPCService
+    );
+    this.usageService.onRequestRecorded((record) =>
+      this.routingService.observeRequest(record)
+    );
+
+    // Initialize metrics service
+    this.metricsService = new PrometheusMetrics(
       this.agentManager,
+      this.requestQueue,
+      this.usageService
+    );
+
+    // Initialize drain service
+    this.drainService = new AgentDrainer(
+      this.agentManager,
+      this.agentRPCService,
       this.logger
     );
 
-    // Initialize mappings service
-    this.mappingsService = new ModelMappingsService(this.db, this.logger);
+    // Initialize download jobs
+    this.downloadService = new DownloadJobs(
+      this.agentRPCService,
+      this.mappingsService,
+      this.logger,
+      this.agentManager,
+      this.db
+    );
+
+    // Initialize fleet-wide model distribution
+    this.distributionService = new ModelDistributor(
+      this.agentManager,
+      this.downloadService,
+      this.db,
+      this.logger
+    );
+
+    // Initialize desired-state reconciler
+    this.reconcilerService = new ModelReconciler(
+      this.agentManager,
+      this.mappingsService,
+      this.agentRPCService,
+      this.downloadService,
+      this.logger,
+      config.reconcileIntervalMs
+    );
+
+    // Initialize autoscaler, which sets the reconciler's targets
+    this.autoscalerService = new ReplicaAutoscaler(
+      this.agentManager,
+      this.mappingsService,
+      this.requestQueue,
+      this.reconcilerService,
+      this.logger,
+      this.usageService,
+      config.autoscaler
+    );
 
     // Initialize OpenAI API handler
     this.openaiHandler = new OpenAIAPIHandler({
@@ -109,7 +254,11 @@ class DIContainer {
       mappingsService: this.mappingsService,
       agentManager: this.agentManager,
       agentRPCService: this.agentRPCService,
+      requestQueue: this.requestQueue,
+      apiKeysService: this.apiKeysService,
+      usageService: this.usageService,
       apiKey: config.apiKey,
+      requestTimeoutMs: config.requestTimeoutMs,
     });
 
     // Initialize Management API handler
@@ -119,6 +268,15 @@ class DIContainer {
       agentManager: this.agentManager,
       mappingsService: this.mappingsService,
       agentRPCService: this.agentRPCService,
+      requestQueue: this.requestQueue,
+      apiKeysService: this.apiKeysService,
+      usageService: this.usageService,
+      drainService: this.drainService,
+      downloadService: this.downloadService,
+      distributionService: this.distributionService,
+      reconcilerService: this.reconcilerService,
+      autoscalerService: this.autoscalerService,
+      adminKey: config.apiKey,
     });
   }
 
@@ -142,6 +300,42 @@ class DIContainer {
     return this.routingService;
   }
 
+  getRequestQueue(): RequestQueue {
+    return this.requestQueue;
+  }
+
+  getApiKeysService(): ApiKeysService {
+    return this.apiKeysService;
+  }
+
+  getUsageService(): UsageService {
+    return this.usageService;
+  }
+
+  getMetricsService(): MetricsService {
+    return this.metricsService;
+  }
+
+  getDrainService(): DrainService {
+    return this.drainService;
+  }
+
+  getDownloadService(): DownloadService {
+    return this.downloadService;
+  }
+
+  getDistributionService(): DistributionService {
+    return this.distributionService;
+  }
+
+  getReconcilerService(): ReconcilerService {
+    return this.reconcilerService;
+  }
+
+  getAutoscalerService(): AutoscalerService {
+    return this.autoscalerService;
+  }
+
   getMappingsService(): MappingsService {
     return this.mappingsService;
   }
@@ -159,6 +353,8 @@ class DIContainer {
   }
 
   async shutdown(): Promise<void> {
+    this.autoscalerService.stop();
+    this.reconcilerService.stop();
     this.wsHandlerInstance.shutdown();
     this.db.close();
   }
@@ -174,6 +370,10 @@ class DIContainer {
             "Authorization",
             "agent-id",
             "agent-name",
+            "X-Priority",
+            "X-Require-Labels",
+            "X-Prefer-Labels",
+            "X-Request-Timeout-Ms",
           ],
           allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
           credentials: true,
@@ -193,6 +393,11 @@ class DIContainer {
             this.getWebSocketHandler().getConnectedAgents().length,
         });
       })
+      .get("/metrics", (c) => {
+        return c.text(this.getMetricsService().render(), 200, {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        });
+      })
       .get(
         "/ws",
         upgradeWebSocket((c) => {
@@ -227,6 +432,7 @@ class DIContainer {
           endpoints: {
             websocket: "/ws",
             health: "/health",
+            metrics: "/metrics",
             api: "/api/info",
             completions: "/v1/completions",
             chatCompletions: "/v1/chat/completions",
@@ -267,6 +473,10 @@ class DIContainer {
         const handler = this.getManagementHandler();
         return handler.listAgents(c);
       })
+      .get("/management/queue", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getQueueStats(c);
+      })
       .post("/management/mappings", (c) => {
         const handler = this.getManagementHandler();
         return handler.createModelMapping(c);
@@ -279,13 +489,148 @@ class DIContainer {
         const handler = this.getManagementHandler();
         return handler.deleteModelMapping(c);
       })
+      .get("/management/usage", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getUsage(c);
+      })
+      .get("/management/usage/requests", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.listRequests(c);
+      })
+      .use("/management/keys/*", async (c, next) => {
+        const handler = this.getManagementHandler();
+        const middleware = handler.requireAdminKey();
+        return middleware(c, next);
+      })
+      .post("/management/keys", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.createApiKey(c);
+      })
+      .get("/management/keys", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.listApiKeys(c);
+      })
+      .delete("/management/keys/:id", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.revokeApiKey(c);
+      })
+      .post("/management/keys/:id/rotate", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.rotateApiKey(c);
+      })
       .post("/management/agents/:agentId/models/download", (c) => {
         const handler = this.getManagementHandler();
         return handler.downloadModel(c);
+      })
+      .get("/management/downloads", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.listDownloads(c);
+      })
+      .get("/management/downloads/:id", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getDownload(c);
+      })
+      .delete("/management/downloads/:id", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.cancelDownload(c);
+      })
+      .get("/management/models", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.listModels(c);
+      })
+      .post("/management/models/distribute", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.distributeModel(c);
+      })
+      .get("/management/models/distributions", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.listDistributions(c);
+      })
+      .get("/management/models/distributions/:id", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getDistribution(c);
+      })
+      .delete("/management/models/distributions/:id", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.cancelDistribution(c);
+      })
+      .get("/management/agents/:agentId/disk", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getDiskUsage(c);
+      })
+      .delete("/management/agents/:agentId/models/:model", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.deleteModel(c);
+      })
+      .put("/management/agents/:agentId/models/eviction-policy", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.setEvictionPolicy(c);
+      })
+      .post("/management/agents/:agentId/models/:model/load", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.loadModel(c);
+      })
+      .post("/management/agents/:agentId/models/:model/unload", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.unloadModel(c);
+      })
+      .post("/management/agents/:agentId/models/:model/pin", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.pinModel(c);
+      })
+      .post("/management/agents/:agentId/models/:model/unpin", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.unpinModel(c);
+      })
+      .get("/management/reconciler", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getReconcilerStatus(c);
+      })
+      .post("/management/reconciler/run", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.runReconciler(c);
+      })
+      .get("/management/autoscaler", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getAutoscalerStatus(c);
+      })
+      .post("/management/autoscaler/run", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.runAutoscaler(c);
+      })
+      .post("/management/agents/:agentId/cordon", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.cordonAgent(c);
+      })
+      .post("/management/agents/:agentId/uncordon", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.uncordonAgent(c);
+      })
+      .post("/management/agents/:agentId/drain", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.drainAgent(c);
+      })
+      .get("/management/agents/:agentId/drain", (c) => {
+        const handler = this.getManagementHandler();
+        return handler.getAgentDrain(c);
       });
 
     // Error handling middleware
     app.onError((err, c) => {
+      // Authentication and rate limit errors raised by the /v1 middleware
+      if (err instanceof OpenAIAPIError) {
+        return c.json(
+          {
+            error: {
+              message: err.message,
+              type: err.type,
+              code: err.code,
+            },
+          },
+          err.status as 401 | 403 | 429
+        );
+      }
+
       this.getLogger().error("Request error", err, {
         path: c.req.path,
         method: c.req.method,
@@ -346,6 +691,9 @@ class DIContainer {
     this.getLogger().info(
       `Health check: http://${this.config.host}:${this.config.port}/health`
     );
+    this.getLogger().info(
+      `Metrics: http://${this.config.host}:${this.config.port}/metrics`
+    );
     this.getLogger().info(
       `API info: http://${this.config.host}:${this.config.port}/api/info`
     );
@@ -18,14 +18,159 @@ export interface ChatParams {
   [key: string]: any;
 }
 
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  thought_tokens?: number;
+  total_tokens: number;
+  // Prompt tokens reused from the agent's KV cache
+  cached_tokens?: number;
+}
+
+export interface ModelSlots {
+  total: number;
+  free: number;
+}
+
+export interface HardwareMetrics {
+  type: "gpu" | "cpu";
+  // GPU metrics, in MB where applicable
+  gpuUtilization?: number;
+  gpuMemoryUsed?: number;
+  gpuMemoryTotal?: number;
+  gpuTemperature?: number;
+  // CPU/RAM metrics, in MB where applicable
+  ramUsed?: number;
+  ramTotal?: number;
+  cpuUtilization?: number;
+}
+
+// Which idle model an agent unloads to make room: least recently used,
+// least frequently used, or none at all
+export type EvictionPolicy = "lru" | "lfu" | "pinned";
+
+export const EVICTION_POLICIES: EvictionPolicy[] = ["lru", "lfu", "pinned"];
+
+export function isEvictionPolicy(value: string): value is EvictionPolicy {
+  return (EVICTION_POLICIES as string[]).includes(value);
+}
+
+export type DownloadStatus =
+  | "downloading"
+  | "verifying"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface DownloadProgress {
+  filename: string;
+  status: DownloadStatus;
+  downloaded: number;
+  // 0 while the size is unknown
+  total: number;
+  percent: number;
+  bytesPerSecond: number;
+  error?: string;
+}
+
+// What a model reference such as hf:owner/repo:Q4_K_M stands for
+export interface ResolvedModel {
+  // The file the model is loaded as, the first part of a split GGUF
+  filename: string;
+  files: Array<{
+    url: string;
+    filename: string;
+    size?: number;
+    sha256?: string;
+  }>;
+}
+
+export interface ModelFileUsage {
+  model: string;
+  // All its files, e.g. every part of a split GGUF
+  bytes: number;
+  loaded: boolean;
+  pinned: boolean;
+}
+
+// Disk space of an agent's models directory
+export interface DiskUsage {
+  totalBytes: number;
+  freeBytes: number;
+  modelsBytes: number;
+  models: ModelFileUsage[];
+}
+
+// Why an agent refused to delete a model
+export type DeleteRefusal = "not_found" | "loaded" | "pinned" | "downloading";
+
+export type DeleteModelResult =
+  // Every file removed, e.g. all parts of a split GGUF
+  | { deleted: string[]; freedBytes: number }
+  | { deleted: false; reason: DeleteRefusal };
+
+// What an installed model is, read by the agent from its GGUF header
+export interface InstalledModel {
+  filename: string;
+  // All its files, e.g. every part of a split GGUF
+  sizeBytes: number;
+  architecture: string | null;
+  parameterCount: number | null;
+  // e.g. Q4_K_M
+  quantization: string | null;
+  // Context length the model was trained with
+  contextLength: number | null;
+  chatTemplate: string | null;
+}
+
+export interface StatusReport {
+  agentId: string;
+  hardware: HardwareMetrics | null;
+  loadedModels: string[];
+  slots: Record<string, ModelSlots>;
+  busySlots: number;
+  tokensPerSecond: number;
+  // MB usable for models after the agent's reserve, null if not measured yet
+  availableMemoryMb: number | null;
+  // Estimated MB each installed model needs once loaded
+  modelFootprints: Record<string, number>;
+  // Models the agent never evicts
+  pinnedModels: string[];
+  evictionPolicy: EvictionPolicy;
+}
+
 export interface AgentFunctions {
   completion(params: CompletionParams): Promise<any>;
   chat(params: ChatParams): Promise<any>;
   listModels(): Promise<{ models: string[] }>;
   currentModels(): Promise<{ models: string[] }>;
   startModel(params: { model: string }): Promise<{ models: string[] }>;
-  downloadModel(params: { model_url: string; filename: string }): Promise<any>;
+  resolveModel(params: { reference: string }): Promise<ResolvedModel>;
+  downloadModel(params: {
+    model_url: string;
+    filename?: string;
+    sha256?: string;
+    size?: number;
+    // Peer servers of agents that have the file
+    peers?: string[];
+    // Models that may be deleted to make room, when the disk is short
+    collectable?: string[];
+  }): Promise<any>;
+  cancelDownload(params: { filename: string }): Promise<{ cancelled: boolean }>;
+  deleteModel(params: { model: string }): Promise<DeleteModelResult>;
+  diskUsage(): Promise<DiskUsage>;
   status(): Promise<{ status: string }>;
+  cancel(params: { requestId: string }): Promise<{ cancelled: boolean }>;
+  unloadModel(params: { model: string }): Promise<{ models: string[] }>;
+  pinModel(params: {
+    model: string;
+    pinned: boolean;
+  }): Promise<{ models: string[]; pinned: string[] }>;
+  setEvictionPolicy(params: {
+    policy: EvictionPolicy;
+  }): Promise<{ policy: EvictionPolicy }>;
+  unloadModels(): Promise<{ models: string[] }>;
+  exit(): Promise<{ exiting: boolean }>;
   [key: string]: Function;
 }
 
@@ -35,7 +180,27 @@ export interface ControllerFunctions {
     agentId: string;
     requestId: string;
     data: any;
+    usage?: TokenUsage;
+    // Sent with a chat's [DONE]: the key of its messages plus the reply, see
+    // conversationKey
+    prefixKey?: string;
+  }): void;
+  receiveError(params: {
+    agentId: string;
+    requestId: string;
+    error: { message: string; type?: string; code?: string };
+  }): void;
+  updateModels(params: {
+    agentId: string;
+    models: string[];
+    // Unset by agents that predate model inventories
+    inventory?: InstalledModel[];
+  }): void;
+  updateSlots(params: {
+    agentId: string;
+    slots: Record<string, ModelSlots>;
   }): void;
-  updateModels(params: { agentId: string; models: string[] }): void;
+  reportStatus(params: StatusReport): void;
+  downloadProgress(params: DownloadProgress & { agentId: string }): void;
   [key: string]: Function;
 }
@@ -1,30 +1,212 @@
 import type { Logger } from "./logger";
 import type { AgentManager } from "./agents";
+import type { RoutingService } from "./routing";
 import type { RPC } from "@piercer/rpc";
-import type { AgentFunctions, ControllerFunctions } from "../rpc-types";
+import type {
+  AgentFunctions,
+  ControllerFunctions,
+  DeleteModelResult,
+  DiskUsage,
+  DownloadProgress,
+  EvictionPolicy,
+  InstalledModel,
+  ModelSlots,
+  ResolvedModel,
+  StatusReport,
+  TokenUsage,
+} from "../rpc-types";
+
+/**
+ * Error raised for a single request that failed on (or on the way to) an agent.
+ * Carries the OpenAI error type/code and the HTTP status to answer with.
+ */
+export class AgentRequestError extends Error {
+  public readonly type: string;
+  public readonly code: string;
+  public readonly status: number;
+
+  constructor(message: string, type: string, code: string, status: number) {
+    super(message);
+    this.name = "AgentRequestError";
+    this.type = type;
+    this.code = code;
+    this.status = status;
+  }
+
+  /**
+   * Normalize anything an agent or the RPC layer can hand us
+   * (Error instances, JSON-RPC error objects, child process payloads)
+   */
+  static from(error: any): AgentRequestError {
+    if (error instanceof AgentRequestError) return error;
+
+    const message =
+      (typeof error === "string" ? error : error?.message) ||
+      "Unknown agent error";
+
+    if (error?.type === "invalid_request_error") {
+      return new AgentRequestError(
+        message,
+        "invalid_request_error",
+        typeof error.code === "string" ? error.code : "invalid_request",
+        400
+      );
+    }
+
+    return new AgentRequestError(
+      message,
+      "server_error",
+      typeof error?.type === "string" && error.type !== "server_error"
+        ? error.type
+        : "agent_error",
+      500
+    );
+  }
+
+  toJSON() {
+    return {
+      error: {
+        message: this.message,
+        type: this.type,
+        code: this.code,
+      },
+    };
+  }
+}
+
+/**
+ * Convert agent-reported usage to the OpenAI shape, where reasoning
+ * tokens count towards the completion tokens
+ */
+export function toOpenAIUsage(usage: TokenUsage) {
+  const completionTokens =
+    usage.completion_tokens + (usage.thought_tokens ?? 0);
+  return {
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.prompt_tokens + completionTokens,
+    ...(usage.cached_tokens !== undefined && {
+      prompt_tokens_details: { cached_tokens: usage.cached_tokens },
+    }),
+  };
+}
+
+export type RequestStatus = "completed" | "failed" | "timeout" | "cancelled";
+
+export interface RequestOutcome {
+  requestId: string;
+  status: RequestStatus;
+  agentId?: string;
+  // Internal model name, if the request was dispatched
+  model?: string;
+  firstTokenAt?: number;
+  usage?: TokenUsage;
+  errorCode?: string;
+}
+
+// How many agents a request may be dispatched to before we give up
+const MAX_REQUEST_ATTEMPTS = 3;
 
 export class AgentRPCService {
   private rpc: RPC<ControllerFunctions> | null = null;
+  private deadlines: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  // Errors completion buffers were rejected with. Their handler fails the
+  // request again with the same error, which was already reported.
+  private settledErrors: WeakSet<Error> = new WeakSet();
+  private finishListeners: Array<(outcome: RequestOutcome) => void> = [];
+  private progressListeners: Array<
+    (agentId: string, progress: DownloadProgress) => void
+  > = [];
 
-  constructor(private agentManager: AgentManager, private logger: Logger) {}
+  constructor(
+    private agentManager: AgentManager,
+    private logger: Logger,
+    private routingService?: RoutingService
+  ) {}
 
   public setRpc(rpc: RPC<ControllerFunctions>) {
     this.rpc = rpc;
   }
 
+  /**
+   * Register a listener called once for every request that ends, whether it
+   * completed, failed, timed out or was cancelled
+   */
+  public onRequestFinished(listener: (outcome: RequestOutcome) => void): void {
+    this.finishListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called with every download progress report
+   */
+  public onDownloadProgress(
+    listener: (agentId: string, progress: DownloadProgress) => void
+  ): void {
+    this.progressListeners.push(listener);
+  }
+
+  /**
+   * Must run before the request is untracked and unbound, so the outcome
+   * still knows the agent, model and first token time
+   */
+  private notifyRequestFinished(
+    requestId: string,
+    status: RequestStatus,
+    details: { usage?: TokenUsage; errorCode?: string } = {}
+  ): void {
+    const request = this.agentManager.getInFlightRequest(requestId);
+    const outcome: RequestOutcome = {
+      requestId,
+      status,
+      agentId: this.agentManager.getAgentForRequest(requestId),
+      model: request?.params.model,
+      firstTokenAt: request?.firstTokenAt,
+      ...details,
+    };
+
+    for (const listener of this.finishListeners) {
+      try {
+        listener(outcome);
+      } catch (error) {
+        this.logger.error(
+          `Request finish listener failed for ${requestId}`,
+          error as Error
+        );
+      }
+    }
+  }
+
   // Controller -> Agent procedures
   public async completion(params: any): Promise<any> {
     this.logger.info("Completion request", params);
-    const { agentId, ...completionParams } = params;
+    const { agentId, placement, publicModel, ...completionParams } = params;
     if (!this.rpc) throw new Error("RPC not initialized");
+    if (completionParams.requestId) {
+      this.agentManager.trackRequest(
+        completionParams.requestId,
+        "completion",
+        completionParams,
+        placement,
+        publicModel
+      );
+    }
     const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
     return agentRpc.completion(completionParams);
   }
 
   public async chat(params: any): Promise<any> {
     this.logger.info("Chat request", params);
-    const { agentId, ...chatParams } = params;
+    const { agentId, placement, publicModel, ...chatParams } = params;
     if (!this.rpc) throw new Error("RPC not initialized");
+    if (chatParams.requestId) {
+      this.agentManager.trackRequest(
+        chatParams.requestId,
+        "chat",
+        chatParams,
+        placement,
+        publicModel
+      );
+    }
     const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
     return agentRpc.chat(chatParams);
   }
@@ -58,6 +240,112 @@ export class AgentRPCService {
     return result;
   }
 
+  /**
+   * Unload a single model on the agent; returns the models still loaded
+   */
+  public async unloadModel({
+    agentId,
+    model,
+  }: {
+    agentId: string;
+    model: string;
+  }): Promise<{ models: string[] }> {
+    this.logger.info("Unload model request", { agentId, model });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    const result = await agentRpc.unloadModel({ model });
+    this.syncLoadedModels(agentId, result.models);
+    return result;
+  }
+
+  /**
+   * Pin a model on the agent, loading it first, or unpin it
+   */
+  public async pinModel({
+    agentId,
+    model,
+    pinned,
+  }: {
+    agentId: string;
+    model: string;
+    pinned: boolean;
+  }): Promise<{ models: string[]; pinned: string[] }> {
+    this.logger.info("Pin model request", { agentId, model, pinned });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    const result = await agentRpc.pinModel({ model, pinned });
+    this.syncLoadedModels(agentId, result.models);
+    return result;
+  }
+
+  public async setEvictionPolicy({
+    agentId,
+    policy,
+  }: {
+    agentId: string;
+    policy: EvictionPolicy;
+  }): Promise<{ policy: EvictionPolicy }> {
+    this.logger.info("Set eviction policy request", { agentId, policy });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    return agentRpc.setEvictionPolicy({ policy });
+  }
+
+  /**
+   * Unload every model on the agent; returns the models still loaded
+   */
+  public async unloadModels({
+    agentId,
+  }: {
+    agentId: string;
+  }): Promise<{ models: string[] }> {
+    this.logger.info("Unload models request", { agentId });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    const result = await agentRpc.unloadModels();
+    this.syncLoadedModels(agentId, result.models);
+    return result;
+  }
+
+  /**
+   * Ask the agent process to shut down; it won't reconnect
+   */
+  public async exitAgent({ agentId }: { agentId: string }): Promise<void> {
+    this.logger.info("Exit agent request", { agentId });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    await agentRpc.exit();
+  }
+
+  // Mirror the agent's loaded models after an explicit load or unload
+  private syncLoadedModels(agentId: string, models: string[]): void {
+    for (const model of [...this.agentManager.getLoadedModels(agentId)]) {
+      if (!models.includes(model)) {
+        this.agentManager.removeLoadedModel(agentId, model);
+      }
+    }
+    for (const model of models) {
+      this.agentManager.addLoadedModel(agentId, model);
+    }
+  }
+
+  /**
+   * Ask the agent which files a model reference such as
+   * hf:owner/repo:Q4_K_M stands for
+   */
+  public async resolveModel({
+    agentId,
+    reference,
+  }: {
+    agentId: string;
+    reference: string;
+  }): Promise<ResolvedModel> {
+    this.logger.info("Resolve model request", { agentId, reference });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    return agentRpc.resolveModel({ reference });
+  }
+
   public async downloadModel(params: any): Promise<any> {
     this.logger.info("Download model request", params);
     const { agentId, ...downloadParams } = params;
@@ -66,6 +354,56 @@ export class AgentRPCService {
     return agentRpc.downloadModel(downloadParams);
   }
 
+  /**
+   * Stop a download on the agent; false if it wasn't downloading the file
+   */
+  public async cancelDownload({
+    agentId,
+    filename,
+  }: {
+    agentId: string;
+    filename: string;
+  }): Promise<boolean> {
+    this.logger.info("Cancel download request", { agentId, filename });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    const { cancelled } = await agentRpc.cancelDownload({ filename });
+    return cancelled;
+  }
+
+  /**
+   * Delete an installed model's files from the agent
+   */
+  public async deleteModel({
+    agentId,
+    model,
+  }: {
+    agentId: string;
+    model: string;
+  }): Promise<DeleteModelResult> {
+    this.logger.info("Delete model request", { agentId, model });
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    return agentRpc.deleteModel({ model });
+  }
+
+  public async diskUsage({ agentId }: { agentId: string }): Promise<DiskUsage> {
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    return agentRpc.diskUsage();
+  }
+
+  public async cancel(params: {
+    agentId: string;
+    requestId: string;
+  }): Promise<any> {
+    this.logger.info("Cancel request", params);
+    const { agentId, requestId } = params;
+    if (!this.rpc) throw new Error("RPC not initialized");
+    const agentRpc = this.rpc.remote<AgentFunctions>(agentId);
+    return agentRpc.cancel({ requestId });
+  }
+
   public async status({ agentId }: { agentId: string }): Promise<any> {
     this.logger.info("Status request", { agentId });
     if (!this.rpc) throw new Error("RPC not initialized");
@@ -81,21 +419,336 @@ export class AgentRPCService {
     });
   }
 
+  public handleReceiveError(params: {
+    agentId: string;
+    requestId: string;
+    error: any;
+  }): void {
+    const { agentId, requestId, error } = params;
+    this.logger.error(
+      `Agent reported error for request ${requestId}`,
+      new Error(error?.message || String(error)),
+      { agentId, requestId }
+    );
+
+    if (!this.failRequest(requestId, error)) {
+      this.logger.warn(`Received error for unknown request: ${requestId}`);
+    }
+  }
+
+  /**
+   * Terminate a pending request with an error. Streaming clients receive an
+   * OpenAI-style error event followed by a clean close, non-streaming clients
+   * have their completion buffer rejected. Returns false if nothing was waiting.
+   *
+   * The outcome is reported when a stream or completion buffer is settled,
+   * or when the request failed before it had either. Failing it again with
+   * the error its buffer was rejected with reports nothing.
+   */
+  public failRequest(requestId: string, error: unknown): boolean {
+    const requestError = AgentRequestError.from(error);
+    const errorCode =
+      typeof (error as any)?.code === "string"
+        ? (error as any).code
+        : requestError.code;
+
+    const streamController = this.agentManager.getStream(requestId);
+    const completionBuffer = this.agentManager.getCompletionBuffer(requestId);
+    if (
+      streamController ||
+      completionBuffer ||
+      !this.settledErrors.has(requestError)
+    ) {
+      this.notifyRequestFinished(
+        requestId,
+        errorCode === "request_timeout" ? "timeout" : "failed",
+        { errorCode }
+      );
+    }
+    this.finishRequest(requestId);
+    const agentId = this.agentManager.unbindRequestFromAgent(requestId);
+    if (agentId) {
+      this.agentManager.decrementPendingRequests(agentId);
+    }
+
+    if (streamController) {
+      this.agentManager.removeStream(requestId);
+      try {
+        streamController.enqueue(
+          new TextEncoder().encode(
+            `data: ${JSON.stringify(requestError.toJSON())}\n\n`
+          )
+        );
+        streamController.close();
+      } catch (e) {
+        // Ignore error if stream is already closed
+      }
+      return true;
+    }
+
+    if (completionBuffer) {
+      this.settledErrors.add(requestError);
+      this.agentManager.rejectCompletionBuffer(requestId, requestError);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Fail the request with a timeout error once `timeoutMs` has elapsed,
+   * and tell the agent to stop generating
+   */
+  public armDeadline(requestId: string, timeoutMs: number): void {
+    const existing = this.deadlines.get(requestId);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.deadlines.delete(requestId);
+      this.logger.warn(`Request ${requestId} timed out`, {
+        requestId,
+        timeoutMs,
+      });
+      this.stopGeneration(requestId);
+      this.failRequest(
+        requestId,
+        new AgentRequestError(
+          `Request timed out after ${timeoutMs}ms`,
+          "timeout_error",
+          "request_timeout",
+          504
+        )
+      );
+    }, timeoutMs);
+    this.deadlines.set(requestId, timer);
+  }
+
+  /**
+   * Abandon a request because the client went away. Nothing is written to
+   * the client, the agent is told to stop and all bookkeeping is released.
+   */
+  public cancelRequest(requestId: string): void {
+    if (!this.agentManager.getAgentForRequest(requestId)) return;
+
+    this.logger.info(`Request ${requestId} cancelled by client`, {
+      requestId,
+    });
+    this.stopGeneration(requestId);
+    this.notifyRequestFinished(requestId, "cancelled", {
+      errorCode: "request_cancelled",
+    });
+    this.finishRequest(requestId);
+    this.agentManager.removeStream(requestId);
+    const cancelledError = new AgentRequestError(
+      "Request cancelled by client",
+      "invalid_request_error",
+      "request_cancelled",
+      400
+    );
+    this.settledErrors.add(cancelledError);
+    this.agentManager.rejectCompletionBuffer(requestId, cancelledError);
+    const agentId = this.agentManager.unbindRequestFromAgent(requestId);
+    if (agentId) {
+      this.agentManager.decrementPendingRequests(agentId);
+    }
+  }
+
+  /**
+   * Ask the agent currently serving a request to abort generation
+   */
+  private stopGeneration(requestId: string): void {
+    const agentId = this.agentManager.getAgentForRequest(requestId);
+    if (!agentId) return;
+
+    this.cancel({ agentId, requestId }).catch((error) => {
+      this.logger.warn(`Failed to cancel request ${requestId} on agent`, {
+        requestId,
+        agentId,
+        error: error?.message,
+      });
+    });
+  }
+
+  private finishRequest(requestId: string): void {
+    const deadline = this.deadlines.get(requestId);
+    if (deadline) {
+      clearTimeout(deadline);
+      this.deadlines.delete(requestId);
+    }
+    this.agentManager.untrackRequest(requestId);
+  }
+
+  /**
+   * Rescue the requests that were in flight on an agent that went away.
+   * Requests that have not written anything to the client yet are
+   * re-dispatched to another agent, the rest are ended with an error.
+   */
+  public async failoverRequests(
+    agentId: string,
+    requestIds: string[]
+  ): Promise<void> {
+    await Promise.all(
+      requestIds.map((requestId) => this.failoverRequest(agentId, requestId))
+    );
+  }
+
+  private async failoverRequest(
+    agentId: string,
+    requestId: string
+  ): Promise<void> {
+    const disconnectedError = new AgentRequestError(
+      `Agent ${agentId} disconnected during generation`,
+      "server_error",
+      "agent_disconnected",
+      502
+    );
+
+    const request = this.agentManager.getInFlightRequest(requestId);
+    if (!request || request.started || !this.routingService) {
+      this.failRequest(requestId, disconnectedError);
+      return;
+    }
+
+    if (request.attempts >= MAX_REQUEST_ATTEMPTS) {
+      this.logger.warn(`Request ${requestId} exhausted failover attempts`, {
+        requestId,
+        agentId,
+        attempts: request.attempts,
+      });
+      this.failRequest(requestId, disconnectedError);
+      return;
+    }
+
+    const routingResult = await this.routingService.selectAgent({
+      ...request.placement,
+      model: request.params.model,
+      requestType: request.type,
+      requestId,
+      prefixKey: request.params.prefix_key,
+    });
+
+    if (!routingResult) {
+      this.failRequest(
+        requestId,
+        new AgentRequestError(
+          `Agent ${agentId} disconnected and no other agent is available`,
+          "service_unavailable_error",
+          "no_available_agents",
+          503
+        )
+      );
+      return;
+    }
+
+    const newAgentId = routingResult.agent.id;
+    request.attempts++;
+    this.logger.warn(`Failing over request ${requestId}`, {
+      requestId,
+      fromAgentId: agentId,
+      toAgentId: newAgentId,
+      attempt: request.attempts,
+    });
+
+    // Drop anything a non-streaming request had buffered from the dead agent
+    this.agentManager.resetCompletionBuffer(requestId);
+    this.agentManager.reserveSlot(newAgentId, request.params.model);
+    this.agentManager.bindRequestToAgent(requestId, newAgentId);
+    this.agentManager.incrementPendingRequests(newAgentId);
+
+    try {
+      if (
+        !this.agentManager
+          .getLoadedModels(newAgentId)
+          .includes(request.params.model)
+      ) {
+        await this.startModel({
+          agentId: newAgentId,
+          model: request.params.model,
+        });
+      }
+
+      const params = {
+        ...request.params,
+        agentId: newAgentId,
+        placement: request.placement,
+        publicModel: request.publicModel,
+      };
+      if (request.type === "chat") {
+        await this.chat(params);
+      } else {
+        await this.completion(params);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error re-dispatching request ${requestId}`,
+        error as Error
+      );
+      this.failRequest(requestId, error);
+    }
+  }
+
   public handleUpdateModels(params: {
     agentId: string;
     models: string[];
+    inventory?: InstalledModel[];
   }): void {
     this.logger.info("Agent model update", {
       agentId: params.agentId,
       count: params.models.length,
     });
+    if (params.inventory) {
+      this.agentManager.setInventory(params.agentId, params.inventory);
+    }
     this.agentManager.setInstalledModels(params.agentId, params.models);
   }
 
+  public handleUpdateSlots(params: {
+    agentId: string;
+    slots: Record<string, ModelSlots>;
+  }): void {
+    this.logger.debug("Agent slot update", {
+      agentId: params.agentId,
+      slots: params.slots,
+    });
+    this.agentManager.setSlots(params.agentId, params.slots);
+  }
+
+  public handleReportStatus(params: StatusReport): void {
+    this.logger.debug("Agent status report", {
+      agentId: params.agentId,
+      busySlots: params.busySlots,
+      tokensPerSecond: params.tokensPerSecond,
+    });
+    this.agentManager.setTelemetry(params.agentId, params);
+  }
+
+  public handleDownloadProgress(
+    params: DownloadProgress & { agentId: string }
+  ): void {
+    const { agentId, ...progress } = params;
+    if (progress.status === "failed") {
+      this.logger.warn(`Download of ${progress.filename} failed`, {
+        agentId,
+        error: progress.error,
+      });
+    } else {
+      this.logger.debug("Agent download progress", {
+        agentId,
+        filename: progress.filename,
+        status: progress.status,
+        percent: progress.percent,
+      });
+    }
+    for (const listener of this.progressListeners) {
+      listener(agentId, progress);
+    }
+  }
+
   public handleReceiveCompletion(params: any): void {
-    const { requestId, data } = params;
+    const { requestId, data, usage, prefixKey } = params;
 
     const cleanup = () => {
+      this.finishRequest(requestId);
       const agentId = this.agentManager.unbindRequestFromAgent(requestId);
       if (agentId) {
         this.agentManager.decrementPendingRequests(agentId);
@@ -113,20 +766,53 @@ export class AgentRPCService {
       return;
     }
 
+    // The agent's KV cache now holds the conversation, send its next turn
+    // there
+    const request = this.agentManager.getInFlightRequest(requestId);
+    const agentId = this.agentManager.getAgentForRequest(requestId);
+    if (data === "[DONE]" && prefixKey && request && agentId) {
+      this.routingService?.rememberConversation(
+        request.params.model,
+        prefixKey,
+        agentId
+      );
+    }
+
     // Handle streaming requests
     if (streamController) {
       try {
         if (data === "[DONE]") {
+          if (usage && request?.params.stream_options?.include_usage) {
+            const usageChunk = {
+              id: request.chunkId ?? requestId,
+              object:
+                request.type === "chat"
+                  ? "chat.completion.chunk"
+                  : "text_completion",
+              created: Math.floor(Date.now() / 1000),
+              model: request.publicModel ?? request.params.model,
+              choices: [],
+              usage: toOpenAIUsage(usage),
+            };
+            streamController.enqueue(
+              new TextEncoder().encode(
+                `data: ${JSON.stringify(usageChunk)}\n\n`
+              )
+            );
+          }
           streamController.enqueue(
             new TextEncoder().encode("data: [DONE]\n\n")
           );
           streamController.close();
           this.agentManager.removeStream(requestId);
+          this.notifyRequestFinished(requestId, "completed", { usage });
           cleanup();
         } else {
           // Assume data is the chunk object
           const chunkData = `data: ${JSON.stringify(data)}\n\n`;
           streamController.enqueue(new TextEncoder().encode(chunkData));
+          this.agentManager.markRequestStarted(requestId, data?.id);
+          this.agentManager.markFirstToken(requestId);
         }
       } catch (error) {
         this.logger.error(
@@ -139,6 +825,16 @@ export class AgentRPCService {
           // Ignore error if stream is already closed
         }
         this.agentManager.removeStream(requestId);
+        // Enqueueing throws a TypeError once the client cancelled the stream
+        if (error instanceof TypeError) {
+          this.notifyRequestFinished(requestId, "cancelled", {
+            errorCode: "request_cancelled",
+          });
+        } else {
+          this.notifyRequestFinished(requestId, "failed", {
+            errorCode: "stream_error",
+          });
+        }
         cleanup();
       }
       return;
@@ -149,14 +845,16 @@ export class AgentRPCService {
       try {
         if (data === "[DONE]") {
           // Combine all chunks and resolve the Promise
-          this.agentManager.resolveCompletionBuffer(
-            requestId,
-            completionBuffer.chunks
-          );
+          this.agentManager.resolveCompletionBuffer(requestId, {
+            chunks: completionBuffer.chunks,
+            usage,
+          });
+          this.notifyRequestFinished(requestId, "completed", { usage });
           cleanup();
         } else {
           // Accumulate chunk in the buffer
           this.agentManager.addChunkToBuffer(requestId, data);
+          this.agentManager.markFirstToken(requestId);
         }
       } catch (error) {
         this.logger.error(
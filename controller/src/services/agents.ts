@@ -1,17 +1,82 @@
 import type { Db } from "./db";
 import type { Logger } from "./logger";
+import type { PlacementConstraints } from "./routing";
+import type {
+  EvictionPolicy,
+  HardwareMetrics,
+  InstalledModel,
+  ModelSlots,
+  StatusReport,
+  TokenUsage,
+} from "../rpc-types";
 
 export interface Agent {
   id: string;
   name: string;
+  // Declared by the agent's config, e.g. { gpu: "a100", trust: "private" }
+  labels: Record<string, string>;
+  // Cordoned agents get no new requests
+  cordoned: boolean;
   loadedModels: string[];
   installedModels: string[];
   pendingRequests: number;
+  // Parallel sequences per loaded model, as last reported by the agent
+  slots: Record<string, ModelSlots>;
+  // Last heartbeat, if the agent has sent one
+  telemetry?: AgentTelemetry;
+  // Where other agents can download its model files, if it serves them
+  peerUrl?: string;
+}
+
+export interface AgentTelemetry {
+  hardware: HardwareMetrics | null;
+  busySlots: number;
+  tokensPerSecond: number;
+  availableMemoryMb: number | null;
+  modelFootprints: Record<string, number>;
+  pinnedModels: string[];
+  // Unknown for agents that predate eviction policies
+  evictionPolicy: EvictionPolicy | null;
+  reportedAt: number;
+}
+
+// An installed model across the fleet, described by the first agent that
+// reported its GGUF metadata. Fields are null until one has.
+export interface InventoryModel extends Omit<InstalledModel, "sizeBytes"> {
+  sizeBytes: number | null;
+  // IDs of the agents that have it installed
+  agents: string[];
+}
+
+export type RequestType = "completion" | "chat";
+
+export interface InFlightRequest {
+  requestId: string;
+  type: RequestType;
+  // Params as forwarded to the agent (without agentId), kept for failover
+  params: any;
+  // Label constraints it was routed with, reapplied on failover
+  placement?: PlacementConstraints;
+  // Model name the client asked for
+  publicModel?: string;
+  // ID of the chunks streamed to the client so far
+  chunkId?: string;
+  // Whether any data has already been written to the client
+  started: boolean;
+  attempts: number;
+  // When the agent sent its first chunk
+  firstTokenAt?: number;
+}
+
+export interface CompletionResult {
+  chunks: any[];
+  // Usage as reported by the agent, if it reported any
+  usage?: TokenUsage;
 }
 
 interface CompletionBuffer {
   chunks: any[];
-  resolve: (value: any) => void;
+  resolve: (value: CompletionResult) => void;
   reject: (reason?: any) => void;
 }
 
@@ -21,6 +86,12 @@ export class AgentManager {
   private activeStreams: Map<string, ReadableStreamDefaultController> =
     new Map();
   private completionBuffers: Map<string, CompletionBuffer> = new Map();
+  private inFlightRequests: Map<string, InFlightRequest> = new Map();
+  // Kept apart from Agent, chat templates are too large to list with it
+  private inventories: Map<string, Map<string, InstalledModel>> = new Map();
+  private capacityListeners: Array<() => void> = [];
+  private additionListeners: Array<(agentId: string) => void> = [];
+  private removalListeners: Array<(agentId: string) => void> = [];
 
   constructor(private db: Db, private logger: Logger) {}
 
@@ -41,7 +112,7 @@ export class AgentManager {
   }
 
   // Completion Buffer Management (for non-streaming requests)
-  registerCompletionBuffer(requestId: string): Promise<any> {
+  registerCompletionBuffer(requestId: string): Promise<CompletionResult> {
     return new Promise((resolve, reject) => {
       this.completionBuffers.set(requestId, {
         chunks: [],
@@ -62,7 +133,7 @@ export class AgentManager {
     }
   }
 
-  resolveCompletionBuffer(requestId: string, result: any): void {
+  resolveCompletionBuffer(requestId: string, result: CompletionResult): void {
     const buffer = this.completionBuffers.get(requestId);
     if (buffer) {
       buffer.resolve(result);
@@ -70,6 +141,13 @@ export class AgentManager {
     }
   }
 
+  resetCompletionBuffer(requestId: string): void {
+    const buffer = this.completionBuffers.get(requestId);
+    if (buffer) {
+      buffer.chunks = [];
+    }
+  }
+
   rejectCompletionBuffer(requestId: string, error: any): void {
     const buffer = this.completionBuffers.get(requestId);
     if (buffer) {
@@ -78,29 +156,83 @@ export class AgentManager {
     }
   }
 
-  addAgent(id: string, name: string): void {
+  /**
+   * Register a listener called whenever an agent may be able to take
+   * more requests (connected, new models, slots freed)
+   */
+  onCapacityChange(listener: () => void): void {
+    this.capacityListeners.push(listener);
+  }
+
+  private notifyCapacityChange(): void {
+    for (const listener of this.capacityListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Register a listener called when an agent connects, before its installed
+   * models are known and it can be called
+   */
+  onAgentAdded(listener: (agentId: string) => void): void {
+    this.additionListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called when an agent disconnects
+   */
+  onAgentRemoved(listener: (agentId: string) => void): void {
+    this.removalListeners.push(listener);
+  }
+
+  addAgent(
+    id: string,
+    name: string,
+    labels: Record<string, string> = {},
+    peerUrl?: string
+  ): void {
+    const registered = this.db.getAgent(id);
     this.agents.set(id, {
       id,
       name,
+      labels,
+      cordoned: !!registered?.cordoned_at,
       loadedModels: [],
       installedModels: [],
       pendingRequests: 0,
+      slots: {},
+      peerUrl,
     });
     this.db.registerAgent(id, name);
     this.logger.info(`Agent added to agent manager: ${name} (${id})`);
+    for (const listener of this.additionListeners) {
+      listener(id);
+    }
+    this.notifyCapacityChange();
   }
 
-  removeAgent(id: string): void {
+  /**
+   * Remove an agent and unbind its requests.
+   * Returns the IDs of the requests that were in flight on it.
+   */
+  removeAgent(id: string): string[] {
+    const orphanedRequests: string[] = [];
     const agent = this.agents.get(id);
     if (agent) {
       this.agents.delete(id);
+      this.inventories.delete(id);
       for (const [requestId, agentId] of this.requestToAgent.entries()) {
         if (agentId === id) {
           this.requestToAgent.delete(requestId);
+          orphanedRequests.push(requestId);
         }
       }
       this.logger.info(`Agent disconnected: ${agent.name} (${id})`);
+      for (const listener of this.removalListeners) {
+        listener(id);
+      }
     }
+    return orphanedRequests;
   }
 
   getAgent(id: string): Agent | undefined {
@@ -111,6 +243,21 @@ export class AgentManager {
     return Array.from(this.agents.values());
   }
 
+  /**
+   * Take an agent out of rotation, or put it back. Also works while the
+   * agent is offline; the state is kept for when it reconnects.
+   * Returns false if the agent was never seen.
+   */
+  setCordoned(agentId: string, cordoned: boolean): boolean {
+    const registered = this.db.setAgentCordoned(agentId, cordoned);
+    const agent = this.agents.get(agentId);
+    if (agent) {
+      agent.cordoned = cordoned;
+      if (!cordoned) this.notifyCapacityChange();
+    }
+    return registered || !!agent;
+  }
+
   getLoadedModels(agentId: string): string[] {
     const agent = this.agents.get(agentId);
     return agent?.loadedModels || [];
@@ -142,6 +289,95 @@ export class AgentManager {
     const agent = this.agents.get(agentId);
     if (agent) {
       agent.installedModels = modelNames;
+      this.notifyCapacityChange();
+    }
+  }
+
+  setInventory(agentId: string, models: InstalledModel[]): void {
+    if (!this.agents.has(agentId)) return;
+    this.inventories.set(
+      agentId,
+      new Map(models.map((model) => [model.filename, model]))
+    );
+  }
+
+  /**
+   * Every model installed on a connected agent, by filename
+   */
+  getInventory(): InventoryModel[] {
+    const models = new Map<string, InventoryModel>();
+    for (const agent of this.agents.values()) {
+      const inventory = this.inventories.get(agent.id);
+      for (const filename of agent.installedModels) {
+        const entry = models.get(filename) ?? {
+          filename,
+          agents: [],
+          sizeBytes: null,
+          architecture: null,
+          parameterCount: null,
+          quantization: null,
+          contextLength: null,
+          chatTemplate: null,
+        };
+        entry.agents.push(agent.id);
+
+        const described = inventory?.get(filename);
+        if (described && entry.sizeBytes === null) {
+          Object.assign(entry, described);
+        }
+        models.set(filename, entry);
+      }
+    }
+    return Array.from(models.values());
+  }
+
+  setSlots(agentId: string, slots: Record<string, ModelSlots>): void {
+    const agent = this.agents.get(agentId);
+    if (agent) {
+      agent.slots = slots;
+      agent.loadedModels = Object.keys(slots);
+      this.notifyCapacityChange();
+    }
+  }
+
+  setTelemetry(agentId: string, report: StatusReport): void {
+    const agent = this.agents.get(agentId);
+    if (!agent) return;
+
+    agent.telemetry = {
+      hardware: report.hardware,
+      busySlots: report.busySlots,
+      tokensPerSecond: report.tokensPerSecond,
+      availableMemoryMb: report.availableMemoryMb ?? null,
+      modelFootprints: report.modelFootprints ?? {},
+      pinnedModels: report.pinnedModels ?? [],
+      evictionPolicy: report.evictionPolicy ?? null,
+      reportedAt: Date.now(),
+    };
+    this.setSlots(agentId, report.slots);
+  }
+
+  /**
+   * Free sequences for a model on an agent. Agents that don't report
+   * slots are treated as having a single sequence per model.
+   */
+  getFreeSlots(agentId: string, modelName: string): number {
+    const agent = this.agents.get(agentId);
+    if (!agent || !agent.loadedModels.includes(modelName)) return 0;
+
+    const slots = agent.slots[modelName];
+    if (slots) return slots.free;
+    return agent.pendingRequests === 0 ? 1 : 0;
+  }
+
+  /**
+   * Take a slot until the agent reports its next state, so requests
+   * routed in between don't all land on the same free slot
+   */
+  reserveSlot(agentId: string, modelName: string): void {
+    const slots = this.agents.get(agentId)?.slots[modelName];
+    if (slots) {
+      slots.free = Math.max(0, slots.free - 1);
     }
   }
 
@@ -161,6 +397,7 @@ export class AgentManager {
     const agent = this.agents.get(agentId);
     if (agent) {
       agent.pendingRequests = Math.max(0, agent.pendingRequests - 1);
+      this.notifyCapacityChange();
     }
   }
 
@@ -177,4 +414,54 @@ export class AgentManager {
     this.requestToAgent.delete(requestId);
     return agentId;
   }
+
+  // In-flight request tracking (for failover)
+  trackRequest(
+    requestId: string,
+    type: RequestType,
+    params: any,
+    placement?: PlacementConstraints,
+    publicModel?: string
+  ): void {
+    const existing = this.inFlightRequests.get(requestId);
+    if (existing) {
+      existing.type = type;
+      existing.params = params;
+      existing.placement = placement;
+      existing.publicModel = publicModel;
+      return;
+    }
+    this.inFlightRequests.set(requestId, {
+      requestId,
+      type,
+      params,
+      placement,
+      publicModel,
+      started: false,
+      attempts: 1,
+    });
+  }
+
+  getInFlightRequest(requestId: string): InFlightRequest | undefined {
+    return this.inFlightRequests.get(requestId);
+  }
+
+  markRequestStarted(requestId: string, chunkId?: string): void {
+    const request = this.inFlightRequests.get(requestId);
+    if (request) {
+      request.started = true;
+      request.chunkId ??= chunkId;
+    }
+  }
+
+  markFirstToken(requestId: string): void {
+    const request = this.inFlightRequests.get(requestId);
+    if (request && request.firstTokenAt === undefined) {
+      request.firstTokenAt = Date.now();
+    }
+  }
+
+  untrackRequest(requestId: string): void {
+    this.inFlightRequests.delete(requestId);
+  }
 }
@@ -0,0 +1,113 @@
+import { createHash, randomBytes } from "crypto";
+import type { Db, ApiKey, ApiKeyOptions } from "./db";
+import type { Logger } from "./logger";
+
+// A freshly issued key; the plain key is only ever returned here
+export interface IssuedApiKey {
+  key: string;
+  apiKey: ApiKey;
+}
+
+// API Keys Service Interface
+export interface ApiKeysService {
+  createKey(options: ApiKeyOptions): IssuedApiKey;
+  rotateKey(id: string): IssuedApiKey | null;
+  revokeKey(id: string): boolean;
+  listKeys(): ApiKey[];
+
+  // Look up a key by its plain value; revoked keys are not returned
+  findKey(key: string): ApiKey | null;
+  hasActiveKeys(): boolean;
+}
+
+const KEY_PREFIX = "pk-";
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function isApiKeyExpired(apiKey: ApiKey, now = Date.now()): boolean {
+  return apiKey.expires_at !== null && apiKey.expires_at <= now;
+}
+
+// API Keys Service Implementation
+export class ApiKeyManager implements ApiKeysService {
+  private db: Db;
+  private logger: Logger;
+  // key hash -> active key
+  private cache: Map<string, ApiKey> = new Map();
+  private hashes: Map<string, string> = new Map();
+
+  constructor(db: Db, logger: Logger) {
+    this.db = db;
+    this.logger = logger;
+  }
+
+  createKey(options: ApiKeyOptions): IssuedApiKey {
+    const key = this.generateKey();
+    const id = this.db.addApiKey(
+      hashApiKey(key),
+      key.slice(0, DISPLAY_PREFIX_LENGTH),
+      options
+    );
+    this.logger.info(`API key created: ${options.label} (${id})`);
+    return { key, apiKey: this.db.getApiKey(id)! };
+  }
+
+  rotateKey(id: string): IssuedApiKey | null {
+    const key = this.generateKey();
+    const rotated = this.db.rotateApiKey(
+      id,
+      hashApiKey(key),
+      key.slice(0, DISPLAY_PREFIX_LENGTH)
+    );
+    if (!rotated) return null;
+
+    this.forget(id);
+    this.logger.info(`API key rotated: ${id}`);
+    return { key, apiKey: this.db.getApiKey(id)! };
+  }
+
+  revokeKey(id: string): boolean {
+    const revoked = this.db.revokeApiKey(id);
+    if (revoked) {
+      this.forget(id);
+      this.logger.info(`API key revoked: ${id}`);
+    }
+    return revoked;
+  }
+
+  listKeys(): ApiKey[] {
+    return this.db.getAllApiKeys();
+  }
+
+  findKey(key: string): ApiKey | null {
+    const keyHash = hashApiKey(key);
+    const cached = this.cache.get(keyHash);
+    if (cached) return cached;
+
+    const apiKey = this.db.getApiKeyByHash(keyHash);
+    if (!apiKey || apiKey.revoked_at !== null) return null;
+
+    this.cache.set(keyHash, apiKey);
+    this.hashes.set(apiKey.id, keyHash);
+    return apiKey;
+  }
+
+  hasActiveKeys(): boolean {
+    return this.db.getAllApiKeys().some((apiKey) => apiKey.revoked_at === null);
+  }
+
+  private generateKey(): string {
+    return KEY_PREFIX + randomBytes(24).toString("base64url");
+  }
+
+  private forget(id: string): void {
+    const keyHash = this.hashes.get(id);
+    if (keyHash) {
+      this.cache.delete(keyHash);
+      this.hashes.delete(id);
+    }
+  }
+}
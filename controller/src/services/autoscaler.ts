@@ -0,0 +1,361 @@
+import type { Logger } from "./logger";
+import type { Agent, AgentManager } from "./agents";
+import type { MappingsService } from "./mappings";
+import type { RequestQueue } from "./queue";
+import type { ReconcilerService } from "./reconciler";
+import type { UsageService } from "./usage";
+import type { ModelMapping, RequestRecord } from "./db";
+import { matchesLabels } from "./routing";
+
+export interface AutoscalerOptions {
+  // How often demand is evaluated (0 disables autoscaling)
+  intervalMs: number;
+  // Add a replica at or above this share of busy sequences...
+  scaleUpUtilization: number;
+  // ...and remove one once demand stays at or below this share
+  scaleDownUtilization: number;
+  // Add a replica when the average time to first token exceeds this
+  ttftTargetMs: number;
+  // Minimum time between two scale ups of a model
+  scaleUpCooldownMs: number;
+  // How long a model must stay cold before a replica is removed
+  scaleDownDelayMs: number;
+}
+
+export const DEFAULT_AUTOSCALER_OPTIONS: AutoscalerOptions = {
+  intervalMs: 15000,
+  scaleUpUtilization: 0.75,
+  scaleDownUtilization: 0.25,
+  ttftTargetMs: 2000,
+  scaleUpCooldownMs: 60 * 1000,
+  scaleDownDelayMs: 10 * 60 * 1000,
+};
+
+export interface ScalingDecision {
+  publicName: string;
+  from: number;
+  to: number;
+  reason: string;
+  utilization: number;
+  queued: number;
+  ttftMs: number | null;
+  at: number;
+}
+
+// Demand for a model and the number of agents it's scaled to
+export interface ModelScalingState {
+  publicName: string;
+  minAgents: number;
+  maxAgents: number;
+  target: number;
+  // Agents with the model loaded right now
+  replicas: number;
+  // Sequences across those replicas, and how many are generating
+  capacity: number;
+  busy: number;
+  queued: number;
+  // Busy and queued requests per sequence; Infinity (null in JSON) when
+  // requests wait for a model without replicas
+  utilization: number;
+  ttftMs: number | null;
+  lastScaledAt: number | null;
+  // Since when demand has been low enough to scale down
+  coldSince: number | null;
+}
+
+export interface AutoscalerStatus {
+  models: ModelScalingState[];
+  // Most recent decisions first
+  decisions: ScalingDecision[];
+}
+
+// Autoscaler Service Interface
+export interface AutoscalerService {
+  // Scale each model one step towards its demand
+  evaluate(): ScalingDecision[];
+  getStatus(): AutoscalerStatus;
+  stop(): void;
+}
+
+interface ModelHistory {
+  target: number;
+  lastScaledUpAt: number | null;
+  lastScaledAt: number | null;
+  coldSince: number | null;
+}
+
+// Decisions kept for the status report
+const MAX_DECISION_HISTORY = 100;
+// Requests the time to first token is averaged over
+const LATENCY_WINDOW_MS = 60 * 1000;
+
+// Autoscaler Service Implementation
+export class ReplicaAutoscaler implements AutoscalerService {
+  private history: Map<string, ModelHistory> = new Map();
+  private decisions: ScalingDecision[] = [];
+  // public name -> recent (finished at, time to first token) samples
+  private latencies: Map<string, Array<{ at: number; ttftMs: number }>> =
+    new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private agentManager: AgentManager,
+    private mappingsService: MappingsService,
+    private requestQueue: RequestQueue,
+    private reconcilerService: ReconcilerService,
+    private logger: Logger,
+    usageService: UsageService,
+    private options: AutoscalerOptions = DEFAULT_AUTOSCALER_OPTIONS
+  ) {
+    usageService.onRequestRecorded((record) => this.observe(record));
+    if (options.intervalMs > 0) {
+      this.timer = setInterval(() => this.evaluate(), options.intervalMs);
+    }
+  }
+
+  evaluate(): ScalingDecision[] {
+    const now = Date.now();
+    const decisions: ScalingDecision[] = [];
+
+    for (const mapping of this.autoscaledMappings()) {
+      const state = this.assess(mapping, now);
+      const history = this.history.get(mapping.public_name)!;
+      const decision = this.decide(mapping, state, history, now);
+      if (!decision) continue;
+
+      history.target = decision.to;
+      history.lastScaledAt = now;
+      if (decision.to > decision.from) history.lastScaledUpAt = now;
+      history.coldSince = null;
+      this.reconcilerService.setTarget(mapping.public_name, decision.to);
+
+      this.decisions.push(decision);
+      if (this.decisions.length > MAX_DECISION_HISTORY) {
+        this.decisions.shift();
+      }
+      decisions.push(decision);
+
+      this.logger.info(
+        `Autoscaling ${mapping.public_name} from ${decision.from} to ${decision.to} agents`,
+        {
+          model: mapping.internal_name,
+          reason: decision.reason,
+          utilization: decision.utilization,
+          queued: decision.queued,
+          ttftMs: decision.ttftMs,
+        }
+      );
+    }
+
+    if (decisions.length > 0) {
+      this.reconcilerService.reconcile();
+    }
+    return decisions;
+  }
+
+  getStatus(): AutoscalerStatus {
+    const now = Date.now();
+    return {
+      models: this.autoscaledMappings().map((mapping) =>
+        this.assess(mapping, now)
+      ),
+      decisions: [...this.decisions].reverse(),
+    };
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Mappings with room between their minimum and maximum number of agents.
+   * Targets of mappings that no longer qualify are handed back to the
+   * reconciler's bounds.
+   */
+  private autoscaledMappings(): ModelMapping[] {
+    const mappings = this.mappingsService
+      .getAllMappings()
+      .filter(
+        (mapping) =>
+          mapping.max_agents !== null && mapping.max_agents > mapping.min_agents
+      );
+
+    const names = new Set(mappings.map((mapping) => mapping.public_name));
+    for (const publicName of this.history.keys()) {
+      if (!names.has(publicName)) {
+        this.history.delete(publicName);
+        this.reconcilerService.setTarget(publicName, null);
+      }
+    }
+    return mappings;
+  }
+
+  private assess(mapping: ModelMapping, now: number): ModelScalingState {
+    const model = mapping.internal_name;
+    const replicas = this.agentManager
+      .getAllAgents()
+      .filter(
+        (agent) =>
+          !agent.cordoned &&
+          matchesLabels(agent, mapping.required_labels) &&
+          agent.loadedModels.includes(model)
+      );
+
+    let capacity = 0;
+    let busy = 0;
+    for (const agent of replicas) {
+      const { total, free } = this.slotsOf(agent, model);
+      capacity += total;
+      busy += total - free;
+    }
+    const queued = this.requestQueue.getStats().byModel[model] ?? 0;
+    const demand = busy + queued;
+    const utilization =
+      capacity > 0 ? demand / capacity : demand > 0 ? Infinity : 0;
+
+    const maxAgents = mapping.max_agents!;
+    let history = this.history.get(mapping.public_name);
+    if (!history) {
+      // Start from what's running, within bounds
+      history = {
+        target: Math.min(
+          Math.max(replicas.length, mapping.min_agents),
+          maxAgents
+        ),
+        lastScaledUpAt: null,
+        lastScaledAt: null,
+        coldSince: null,
+      };
+      this.history.set(mapping.public_name, history);
+    }
+    // The bounds may have changed since the last decision
+    history.target = Math.min(
+      Math.max(history.target, mapping.min_agents),
+      maxAgents
+    );
+
+    return {
+      publicName: mapping.public_name,
+      minAgents: mapping.min_agents,
+      maxAgents,
+      target: history.target,
+      replicas: replicas.length,
+      capacity,
+      busy,
+      queued,
+      utilization,
+      ttftMs: this.averageTtft(mapping.public_name, now),
+      lastScaledAt: history.lastScaledAt,
+      coldSince: history.coldSince,
+    };
+  }
+
+  /**
+   * Scale up quickly when sequences are saturated, requests queue or the
+   * first token is slow; scale down only after demand stayed low for a
+   * while. The gap between the two thresholds keeps replicas from flapping.
+   */
+  private decide(
+    mapping: ModelMapping,
+    state: ModelScalingState,
+    history: ModelHistory,
+    now: number
+  ): ScalingDecision | null {
+    const { options } = this;
+    const base = {
+      publicName: mapping.public_name,
+      from: history.target,
+      utilization: state.utilization,
+      queued: state.queued,
+      ttftMs: state.ttftMs,
+      at: now,
+    };
+
+    const hot =
+      state.utilization >= options.scaleUpUtilization ||
+      (state.ttftMs !== null && state.ttftMs > options.ttftTargetMs);
+    const cold =
+      state.utilization <= options.scaleDownUtilization &&
+      state.queued === 0 &&
+      (state.ttftMs === null || state.ttftMs <= options.ttftTargetMs);
+
+    if (!cold) history.coldSince = null;
+
+    if (hot) {
+      // Wait for the previous replica to come up before adding another
+      if (state.replicas < history.target) return null;
+      if (history.target >= state.maxAgents) return null;
+      if (
+        history.lastScaledUpAt !== null &&
+        now - history.lastScaledUpAt < options.scaleUpCooldownMs
+      ) {
+        return null;
+      }
+
+      const reasons: string[] = [];
+      if (state.utilization >= options.scaleUpUtilization) {
+        reasons.push(
+          state.capacity > 0
+            ? `${Math.round(state.utilization * 100)}% of sequences in demand`
+            : `${state.queued} queued without replicas`
+        );
+      }
+      if (state.ttftMs !== null && state.ttftMs > options.ttftTargetMs) {
+        reasons.push(
+          `time to first token ${Math.round(state.ttftMs)}ms over ${options.ttftTargetMs}ms`
+        );
+      }
+      return { ...base, to: history.target + 1, reason: reasons.join(", ") };
+    }
+
+    if (!cold || history.target <= state.minAgents) return null;
+
+    history.coldSince ??= now;
+    if (now - history.coldSince < options.scaleDownDelayMs) return null;
+
+    return {
+      ...base,
+      to: history.target - 1,
+      reason: `${Math.round(state.utilization * 100)}% of sequences in demand for ${Math.round((now - history.coldSince) / 1000)}s`,
+    };
+  }
+
+  // Agents that don't report slots serve one request at a time
+  private slotsOf(
+    agent: Agent,
+    model: string
+  ): { total: number; free: number } {
+    const slots = agent.slots[model];
+    if (slots) return slots;
+    return { total: 1, free: agent.pendingRequests === 0 ? 1 : 0 };
+  }
+
+  private observe(record: RequestRecord): void {
+    if (record.status !== "completed" || record.ttft_ms === null) return;
+
+    // Drop samples that left the window, models that aren't autoscaled are
+    // never averaged and would keep them all otherwise
+    const now = Date.now();
+    const samples = (this.latencies.get(record.public_model) ?? []).filter(
+      (sample) => now - sample.at <= LATENCY_WINDOW_MS
+    );
+    samples.push({ at: now, ttftMs: record.ttft_ms });
+    this.latencies.set(record.public_model, samples);
+  }
+
+  private averageTtft(publicName: string, now: number): number | null {
+    const samples = (this.latencies.get(publicName) ?? []).filter(
+      (sample) => now - sample.at <= LATENCY_WINDOW_MS
+    );
+    this.latencies.set(publicName, samples);
+    if (samples.length === 0) return null;
+
+    return (
+      samples.reduce((total, sample) => total + sample.ttftMs, 0) /
+      samples.length
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { Database } from "bun:sqlite";
 import { randomUUID } from "crypto";
+import type { PriorityClass } from "./queue";
+import type { RoutingStrategy } from "./routing";
 
 // Data types - Agent registry only (status/capabilities are in-memory)
 export interface AgentRegistry {
@@ -7,6 +9,8 @@ export interface AgentRegistry {
   name: string;
   first_seen: number;
   last_seen: number;
+  // Set while the agent is out of rotation, kept across reconnects
+  cordoned_at: number | null;
 }
 
 export interface ModelMapping {
@@ -14,6 +18,112 @@ export interface ModelMapping {
   internal_name: string;
   public_name: string;
   created_at: number;
+  timeout_ms: number | null;
+  routing_strategy: RoutingStrategy | null;
+  // Agent labels the model must run on / should run on when possible
+  required_labels: Record<string, string>;
+  preferred_labels: Record<string, string>;
+  // Desired number of agents keeping the model loaded (max null: no limit)
+  min_agents: number;
+  max_agents: number | null;
+  // Where agents fetch the model from when none has it installed
+  download_url: string | null;
+}
+
+// Optional per-model settings stored alongside a mapping
+export interface ModelMappingOptions {
+  timeoutMs?: number;
+  routingStrategy?: RoutingStrategy;
+  requiredLabels?: Record<string, string>;
+  preferredLabels?: Record<string, string>;
+  minAgents?: number;
+  maxAgents?: number;
+  downloadUrl?: string;
+}
+
+// A model every matching agent must have installed, including agents that
+// connect later
+export interface RequiredModel {
+  id: string;
+  model_url: string;
+  filename: string;
+  // Agent labels to match; null for every agent
+  labels: Record<string, string> | null;
+  sha256: string | null;
+  size: number | null;
+  // Downloads running at once
+  concurrency: number;
+  // Name the model is served under once installed; null to leave unmapped
+  public_name: string | null;
+  created_at: number;
+}
+
+export interface ApiKey {
+  id: string;
+  label: string;
+  // First characters of the key, to tell keys apart without storing them
+  key_prefix: string;
+  allowed_models: string[] | null;
+  requests_per_minute: number | null;
+  tokens_per_minute: number | null;
+  priority: PriorityClass | null;
+  expires_at: number | null;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+export interface ApiKeyOptions {
+  label: string;
+  allowedModels?: string[];
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  priority?: PriorityClass;
+  expiresAt?: number;
+}
+
+// One finished OpenAI API request
+export interface RequestRecord {
+  id: string;
+  api_key_id: string | null;
+  request_type: string;
+  public_model: string;
+  internal_model: string | null;
+  agent_id: string | null;
+  status: string;
+  error_code: string | null;
+  latency_ms: number;
+  ttft_ms: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+  created_at: number;
+}
+
+export type UsageDimension = "key" | "model" | "agent" | "time";
+
+export interface UsageQuery {
+  groupBy: UsageDimension[];
+  // Width of the time buckets when grouping by time
+  bucketMs?: number;
+  since?: number;
+  until?: number;
+  apiKeyId?: string;
+  model?: string;
+  agentId?: string;
+}
+
+export interface UsageRow {
+  api_key_id?: string | null;
+  public_model?: string;
+  agent_id?: string | null;
+  bucket_start?: number;
+  requests: number;
+  errors: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  avg_latency_ms: number;
+  avg_ttft_ms: number | null;
 }
 
 // Database Service Interface
@@ -23,18 +133,51 @@ export interface Db {
   updateAgentLastSeen(id: string): void;
   getAgent(id: string): AgentRegistry | null;
   getAllAgents(): AgentRegistry[];
+  setAgentCordoned(id: string, cordoned: boolean): boolean;
 
   // Model mapping operations
-  addModelMapping(internalName: string, publicName: string): string;
+  addModelMapping(
+    internalName: string,
+    publicName: string,
+    options?: ModelMappingOptions
+  ): string;
   getModelMapping(publicName: string): ModelMapping | null;
   getAllModelMappings(): ModelMapping[];
   removeModelMapping(publicName: string): boolean;
 
+  // Required model operations
+  addRequiredModel(model: RequiredModel): void;
+  getAllRequiredModels(): RequiredModel[];
+  removeRequiredModel(id: string): boolean;
+
+  // API key operations (keys are stored as SHA-256 hashes)
+  addApiKey(keyHash: string, keyPrefix: string, options: ApiKeyOptions): string;
+  getApiKey(id: string): ApiKey | null;
+  getApiKeyByHash(keyHash: string): ApiKey | null;
+  getAllApiKeys(): ApiKey[];
+  revokeApiKey(id: string): boolean;
+  rotateApiKey(id: string, keyHash: string, keyPrefix: string): boolean;
+
+  // Request log operations
+  addRequestRecord(record: RequestRecord): void;
+  getRequestRecords(
+    query: Omit<UsageQuery, "groupBy" | "bucketMs">,
+    limit: number
+  ): RequestRecord[];
+  getUsage(query: UsageQuery): UsageRow[];
+
   // Cleanup and maintenance
   cleanupOldRecords(maxAge?: number): void;
   close(): void;
 }
 
+// Columns the usage report can be grouped by (time is computed)
+const USAGE_COLUMNS: Record<Exclude<UsageDimension, "time">, string> = {
+  key: "api_key_id",
+  model: "public_model",
+  agent: "agent_id",
+};
+
 // Bun Database Implementation
 export class BunDatabase implements Db {
   private db: Database;
@@ -54,6 +197,7 @@ export class BunDatabase implements Db {
         last_seen INTEGER NOT NULL
       )
     `);
+    this.ensureColumn("agents", "cordoned_at", "INTEGER");
 
     // Create model_mappings table
     this.db.exec(`
@@ -64,6 +208,118 @@ export class BunDatabase implements Db {
         created_at INTEGER NOT NULL
       )
     `);
+    this.ensureColumn("model_mappings", "timeout_ms", "INTEGER");
+    this.ensureColumn("model_mappings", "routing_strategy", "TEXT");
+    this.ensureColumn("model_mappings", "required_labels", "TEXT");
+    this.ensureColumn("model_mappings", "preferred_labels", "TEXT");
+    this.ensureColumn("model_mappings", "min_agents", "INTEGER");
+    this.ensureColumn("model_mappings", "max_agents", "INTEGER");
+    this.ensureColumn("model_mappings", "download_url", "TEXT");
+
+    // Create required_models table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS required_models (
+        id TEXT PRIMARY KEY,
+        model_url TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        labels TEXT,
+        sha256 TEXT,
+        size INTEGER,
+        concurrency INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.ensureColumn("required_models", "public_name", "TEXT");
+
+    // Create api_keys table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        allowed_models TEXT,
+        requests_per_minute INTEGER,
+        tokens_per_minute INTEGER,
+        priority TEXT,
+        expires_at INTEGER,
+        created_at INTEGER NOT NULL,
+        revoked_at INTEGER
+      )
+    `);
+
+    // Create requests log table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS requests (
+        id TEXT PRIMARY KEY,
+        api_key_id TEXT,
+        request_type TEXT NOT NULL,
+        public_model TEXT NOT NULL,
+        internal_model TEXT,
+        agent_id TEXT,
+        status TEXT NOT NULL,
+        error_code TEXT,
+        latency_ms INTEGER NOT NULL,
+        ttft_ms INTEGER,
+        prompt_tokens INTEGER,
+        completion_tokens INTEGER,
+        total_tokens INTEGER,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.db.exec(
+      `CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests (created_at)`
+    );
+  }
+
+  /**
+   * Add a column to an existing table if it is missing (for databases
+   * created by older versions)
+   */
+  private ensureColumn(table: string, column: string, type: string): void {
+    const columns = this.db
+      .prepare(`PRAGMA table_info(${table})`)
+      .all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  }
+
+  private toModelMapping(row: any): ModelMapping {
+    return {
+      id: row.id,
+      internal_name: row.internal_name,
+      public_name: row.public_name,
+      created_at: row.created_at,
+      timeout_ms: row.timeout_ms ?? null,
+      routing_strategy: row.routing_strategy ?? null,
+      required_labels: row.required_labels
+        ? JSON.parse(row.required_labels)
+        : {},
+      preferred_labels: row.preferred_labels
+        ? JSON.parse(row.preferred_labels)
+        : {},
+      min_agents: row.min_agents ?? 0,
+      max_agents: row.max_agents ?? null,
+      download_url: row.download_url ?? null,
+    };
+  }
+
+  private toApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      label: row.label,
+      key_prefix: row.key_prefix,
+      allowed_models: row.allowed_models
+        ? JSON.parse(row.allowed_models)
+        : null,
+      requests_per_minute: row.requests_per_minute ?? null,
+      tokens_per_minute: row.tokens_per_minute ?? null,
+      priority: row.priority ?? null,
+      expires_at: row.expires_at ?? null,
+      created_at: row.created_at,
+      revoked_at: row.revoked_at ?? null,
+    };
   }
 
   // Agent registry operations
@@ -102,6 +358,7 @@ export class BunDatabase implements Db {
       name: row.name,
       first_seen: row.first_seen,
       last_seen: row.last_seen,
+      cordoned_at: row.cordoned_at ?? null,
     };
   }
 
@@ -114,18 +371,46 @@ export class BunDatabase implements Db {
       name: row.name,
       first_seen: row.first_seen,
       last_seen: row.last_seen,
+      cordoned_at: row.cordoned_at ?? null,
     }));
   }
 
+  setAgentCordoned(id: string, cordoned: boolean): boolean {
+    // Cordoning again keeps the original timestamp
+    const stmt = this.db.prepare(`
+      UPDATE agents
+      SET cordoned_at = CASE WHEN ? THEN COALESCE(cordoned_at, ?) ELSE NULL END
+      WHERE id = ?
+    `);
+    const result = stmt.run(cordoned ? 1 : 0, Date.now(), id);
+    return result.changes > 0;
+  }
+
   // Model mapping operations
-  addModelMapping(internalName: string, publicName: string): string {
+  addModelMapping(
+    internalName: string,
+    publicName: string,
+    options: ModelMappingOptions = {}
+  ): string {
     const id = randomUUID();
     const stmt = this.db.prepare(`
-      INSERT INTO model_mappings (id, internal_name, public_name, created_at)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO model_mappings (id, internal_name, public_name, created_at, timeout_ms, routing_strategy, required_labels, preferred_labels, min_agents, max_agents, download_url)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(id, internalName, publicName, Date.now());
+    stmt.run(
+      id,
+      internalName,
+      publicName,
+      Date.now(),
+      options.timeoutMs ?? null,
+      options.routingStrategy ?? null,
+      options.requiredLabels ? JSON.stringify(options.requiredLabels) : null,
+      options.preferredLabels ? JSON.stringify(options.preferredLabels) : null,
+      options.minAgents ?? null,
+      options.maxAgents ?? null,
+      options.downloadUrl ?? null
+    );
     return id;
   }
 
@@ -137,12 +422,7 @@ export class BunDatabase implements Db {
 
     if (!row) return null;
 
-    return {
-      id: row.id,
-      internal_name: row.internal_name,
-      public_name: row.public_name,
-      created_at: row.created_at,
-    };
+    return this.toModelMapping(row);
   }
 
   getAllModelMappings(): ModelMapping[] {
@@ -151,22 +431,239 @@ export class BunDatabase implements Db {
     );
     const rows = stmt.all() as any[];
 
+    return rows.map((row) => this.toModelMapping(row));
+  }
+
+  removeModelMapping(publicName: string): boolean {
+    const stmt = this.db.prepare(
+      `DELETE FROM model_mappings WHERE public_name = ?`
+    );
+    const result = stmt.run(publicName);
+    return result.changes > 0;
+  }
+
+  // Required model operations
+  addRequiredModel(model: RequiredModel): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO required_models (id, model_url, filename, labels, sha256, size, concurrency, public_name, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      model.id,
+      model.model_url,
+      model.filename,
+      model.labels ? JSON.stringify(model.labels) : null,
+      model.sha256,
+      model.size,
+      model.concurrency,
+      model.public_name,
+      model.created_at
+    );
+  }
+
+  getAllRequiredModels(): RequiredModel[] {
+    const stmt = this.db.prepare(
+      `SELECT * FROM required_models ORDER BY created_at`
+    );
+    const rows = stmt.all() as any[];
+
     return rows.map((row) => ({
       id: row.id,
-      internal_name: row.internal_name,
-      public_name: row.public_name,
+      model_url: row.model_url,
+      filename: row.filename,
+      labels: row.labels ? JSON.parse(row.labels) : null,
+      sha256: row.sha256 ?? null,
+      size: row.size ?? null,
+      concurrency: row.concurrency,
+      public_name: row.public_name ?? null,
       created_at: row.created_at,
     }));
   }
 
-  removeModelMapping(publicName: string): boolean {
+  removeRequiredModel(id: string): boolean {
+    const stmt = this.db.prepare(`DELETE FROM required_models WHERE id = ?`);
+    const result = stmt.run(id);
+    return result.changes > 0;
+  }
+
+  // API key operations
+  addApiKey(
+    keyHash: string,
+    keyPrefix: string,
+    options: ApiKeyOptions
+  ): string {
+    const id = randomUUID();
+    const stmt = this.db.prepare(`
+      INSERT INTO api_keys (id, label, key_hash, key_prefix, allowed_models,
+        requests_per_minute, tokens_per_minute, priority, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      id,
+      options.label,
+      keyHash,
+      keyPrefix,
+      options.allowedModels ? JSON.stringify(options.allowedModels) : null,
+      options.requestsPerMinute ?? null,
+      options.tokensPerMinute ?? null,
+      options.priority ?? null,
+      options.expiresAt ?? null,
+      Date.now()
+    );
+    return id;
+  }
+
+  getApiKey(id: string): ApiKey | null {
+    const stmt = this.db.prepare(`SELECT * FROM api_keys WHERE id = ?`);
+    const row = stmt.get(id) as any;
+
+    if (!row) return null;
+
+    return this.toApiKey(row);
+  }
+
+  getApiKeyByHash(keyHash: string): ApiKey | null {
+    const stmt = this.db.prepare(`SELECT * FROM api_keys WHERE key_hash = ?`);
+    const row = stmt.get(keyHash) as any;
+
+    if (!row) return null;
+
+    return this.toApiKey(row);
+  }
+
+  getAllApiKeys(): ApiKey[] {
+    const stmt = this.db.prepare(`SELECT * FROM api_keys ORDER BY created_at`);
+    const rows = stmt.all() as any[];
+
+    return rows.map((row) => this.toApiKey(row));
+  }
+
+  revokeApiKey(id: string): boolean {
     const stmt = this.db.prepare(
-      `DELETE FROM model_mappings WHERE public_name = ?`
+      `UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`
     );
-    const result = stmt.run(publicName);
+    const result = stmt.run(Date.now(), id);
     return result.changes > 0;
   }
 
+  rotateApiKey(id: string, keyHash: string, keyPrefix: string): boolean {
+    const stmt = this.db.prepare(
+      `UPDATE api_keys SET key_hash = ?, key_prefix = ?
+       WHERE id = ? AND revoked_at IS NULL`
+    );
+    const result = stmt.run(keyHash, keyPrefix, id);
+    return result.changes > 0;
+  }
+
+  // Request log operations
+  addRequestRecord(record: RequestRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO requests (id, api_key_id, request_type,
+        public_model, internal_model, agent_id, status, error_code, latency_ms,
+        ttft_ms, prompt_tokens, completion_tokens, total_tokens, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      record.id,
+      record.api_key_id,
+      record.request_type,
+      record.public_model,
+      record.internal_model,
+      record.agent_id,
+      record.status,
+      record.error_code,
+      record.latency_ms,
+      record.ttft_ms,
+      record.prompt_tokens,
+      record.completion_tokens,
+      record.total_tokens,
+      record.created_at
+    );
+  }
+
+  getRequestRecords(
+    query: Omit<UsageQuery, "groupBy" | "bucketMs">,
+    limit: number
+  ): RequestRecord[] {
+    const { where, params } = this.requestFilters(query);
+    const stmt = this.db.prepare(
+      `SELECT * FROM requests ${where} ORDER BY created_at DESC LIMIT ?`
+    );
+    return stmt.all(...params, limit) as RequestRecord[];
+  }
+
+  getUsage(query: UsageQuery): UsageRow[] {
+    const columns: string[] = [];
+    for (const dimension of query.groupBy) {
+      if (dimension === "time") {
+        const bucketMs = Math.floor(query.bucketMs ?? 60 * 60 * 1000);
+        columns.push(
+          `(created_at / ${bucketMs}) * ${bucketMs} AS bucket_start`
+        );
+      } else {
+        columns.push(USAGE_COLUMNS[dimension]);
+      }
+    }
+    const groupBy = query.groupBy.map((dimension) =>
+      dimension === "time" ? "bucket_start" : USAGE_COLUMNS[dimension]
+    );
+
+    columns.push(
+      "COUNT(*) AS requests",
+      "SUM(CASE WHEN status = 'completed' THEN 0 ELSE 1 END) AS errors",
+      "COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens",
+      "COALESCE(SUM(completion_tokens), 0) AS completion_tokens",
+      "COALESCE(SUM(total_tokens), 0) AS total_tokens",
+      "ROUND(AVG(latency_ms)) AS avg_latency_ms",
+      "ROUND(AVG(ttft_ms)) AS avg_ttft_ms"
+    );
+    const grouping =
+      groupBy.length > 0
+        ? `GROUP BY ${groupBy.join(", ")} ORDER BY ${groupBy.join(", ")}`
+        : "";
+
+    const { where, params } = this.requestFilters(query);
+    const stmt = this.db.prepare(
+      `SELECT ${columns.join(", ")} FROM requests ${where} ${grouping}`
+    );
+    return stmt.all(...params) as UsageRow[];
+  }
+
+  private requestFilters(query: Omit<UsageQuery, "groupBy" | "bucketMs">): {
+    where: string;
+    params: (string | number)[];
+  } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.since !== undefined) {
+      conditions.push("created_at >= ?");
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push("created_at < ?");
+      params.push(query.until);
+    }
+    if (query.apiKeyId !== undefined) {
+      conditions.push("api_key_id = ?");
+      params.push(query.apiKeyId);
+    }
+    if (query.model !== undefined) {
+      conditions.push("public_model = ?");
+      params.push(query.model);
+    }
+    if (query.agentId !== undefined) {
+      conditions.push("agent_id = ?");
+      params.push(query.agentId);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      params,
+    };
+  }
+
   // Cleanup old records
   cleanupOldRecords(maxAge: number = 24 * 60 * 60 * 1000): void {
     const cutoff = Date.now() - maxAge;
@@ -0,0 +1,326 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "./logger";
+import type { AgentManager } from "./agents";
+import type { Db } from "./db";
+import type { DownloadService } from "./downloads";
+import { matchesLabels } from "./routing";
+
+export type DistributionTargetStatus =
+  | "pending"
+  | "downloading"
+  | "installed"
+  | "failed"
+  | "cancelled";
+
+export interface DistributionTarget {
+  agentId: string;
+  status: DistributionTargetStatus;
+  attempts: number;
+  // Download job of the latest attempt
+  jobId: string | null;
+  error: string | null;
+}
+
+export type DistributionStatus =
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface Distribution {
+  id: string;
+  modelUrl: string;
+  filename: string;
+  // Agent labels to match; null for every agent
+  labels: Record<string, string> | null;
+  // Agents that connect later receive the model too
+  required: boolean;
+  concurrency: number;
+  sha256: string | null;
+  size: number | null;
+  publicName: string | null;
+  // Running while any agent is pending or downloading, failed if any gave up
+  status: DistributionStatus;
+  agents: DistributionTarget[];
+  createdAt: number;
+}
+
+export interface DistributionRequest {
+  modelUrl: string;
+  filename: string;
+  labels: Record<string, string> | null;
+  required?: boolean;
+  concurrency?: number;
+  sha256?: string;
+  size?: number;
+  publicName?: string;
+}
+
+// Distribution Service Interface
+export interface DistributionService {
+  // Download the model onto every matching agent that doesn't have it
+  distribute(request: DistributionRequest): Distribution;
+  getDistribution(id: string): Distribution | null;
+  // Most recent first
+  listDistributions(): Distribution[];
+  // Cancel pending and running downloads, and stop requiring the model.
+  // Returns null if there's no such distribution.
+  cancel(id: string): Promise<Distribution | null>;
+}
+
+export const DEFAULT_DISTRIBUTION_CONCURRENCY = 2;
+// Attempts per agent before it's marked failed
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 30 * 1000;
+
+// Distribution Service Implementation
+export class ModelDistributor implements DistributionService {
+  private distributions: Map<string, Distribution> = new Map();
+  // Distribution id -> agent id -> earliest retry time
+  private retryAt: Map<string, Map<string, number>> = new Map();
+
+  constructor(
+    private agentManager: AgentManager,
+    private downloadService: DownloadService,
+    private db: Db,
+    private logger: Logger
+  ) {
+    for (const model of db.getAllRequiredModels()) {
+      this.distributions.set(model.id, {
+        id: model.id,
+        modelUrl: model.model_url,
+        filename: model.filename,
+        labels: model.labels,
+        required: true,
+        concurrency: model.concurrency,
+        sha256: model.sha256,
+        size: model.size,
+        publicName: model.public_name,
+        status: "running",
+        agents: [],
+        createdAt: model.created_at,
+      });
+    }
+
+    agentManager.onAgentAdded((agentId) => {
+      // Once the connection is registered and its models are known
+      setTimeout(() => this.onAgentConnected(agentId), 0);
+    });
+  }
+
+  distribute(request: DistributionRequest): Distribution {
+    const distribution: Distribution = {
+      id: randomUUID(),
+      modelUrl: request.modelUrl,
+      filename: request.filename,
+      labels: request.labels,
+      required: request.required ?? false,
+      concurrency: request.concurrency ?? DEFAULT_DISTRIBUTION_CONCURRENCY,
+      sha256: request.sha256 ?? null,
+      size: request.size ?? null,
+      publicName: request.publicName ?? null,
+      status: "running",
+      agents: [],
+      createdAt: Date.now(),
+    };
+    this.distributions.set(distribution.id, distribution);
+
+    if (distribution.required) {
+      this.db.addRequiredModel({
+        id: distribution.id,
+        model_url: distribution.modelUrl,
+        filename: distribution.filename,
+        labels: distribution.labels,
+        sha256: distribution.sha256,
+        size: distribution.size,
+        concurrency: distribution.concurrency,
+        public_name: distribution.publicName,
+        created_at: distribution.createdAt,
+      });
+    }
+
+    for (const agent of this.agentManager.getAllAgents()) {
+      if (this.targets(distribution, agent.id)) {
+        distribution.agents.push(this.newTarget(agent.id));
+      }
+    }
+
+    this.logger.info(
+      `Distributing ${distribution.filename} to ${distribution.agents.length} agent(s)`,
+      {
+        distributionId: distribution.id,
+        labels: distribution.labels,
+        required: distribution.required,
+      }
+    );
+
+    this.pump(distribution);
+    return distribution;
+  }
+
+  getDistribution(id: string): Distribution | null {
+    return this.distributions.get(id) ?? null;
+  }
+
+  listDistributions(): Distribution[] {
+    return [...this.distributions.values()].reverse();
+  }
+
+  async cancel(id: string): Promise<Distribution | null> {
+    const distribution = this.distributions.get(id);
+    if (!distribution) return null;
+
+    if (distribution.required) {
+      this.db.removeRequiredModel(id);
+      distribution.required = false;
+    }
+
+    const running = distribution.agents.filter(
+      (target) => target.status === "pending" || target.status === "downloading"
+    );
+    for (const target of running) {
+      target.status = "cancelled";
+    }
+    await Promise.all(
+      running
+        .filter((target) => target.jobId !== null)
+        .map((target) => this.downloadService.cancel(target.jobId!))
+    );
+
+    this.retryAt.delete(id);
+    this.updateStatus(distribution);
+    this.logger.info(`Distribution ${id} cancelled`, {
+      filename: distribution.filename,
+    });
+    return distribution;
+  }
+
+  /**
+   * Bring a (re)connecting agent up to date with the required models, and
+   * resume downloads that waited for it
+   */
+  private onAgentConnected(agentId: string): void {
+    for (const distribution of this.distributions.values()) {
+      const target = distribution.agents.find((t) => t.agentId === agentId);
+      if (!target && distribution.required) {
+        if (!this.targets(distribution, agentId)) continue;
+        distribution.agents.push(this.newTarget(agentId));
+      } else if (target?.status === "failed" && distribution.required) {
+        target.status = "pending";
+        target.attempts = 0;
+      } else if (target?.status !== "pending") {
+        continue;
+      }
+      this.pump(distribution);
+    }
+  }
+
+  private targets(distribution: Distribution, agentId: string): boolean {
+    const agent = this.agentManager.getAgent(agentId);
+    return (
+      agent !== undefined &&
+      (distribution.labels === null ||
+        matchesLabels(agent, distribution.labels))
+    );
+  }
+
+  private newTarget(agentId: string): DistributionTarget {
+    return {
+      agentId,
+      status: "pending",
+      attempts: 0,
+      jobId: null,
+      error: null,
+    };
+  }
+
+  /**
+   * Start downloads on pending agents, up to the concurrency limit.
+   * Agents that already have the file are done; offline agents wait.
+   */
+  private pump(distribution: Distribution): void {
+    const now = Date.now();
+    const retryAt = this.retryAt.get(distribution.id);
+    let running = distribution.agents.filter(
+      (target) => target.status === "downloading"
+    ).length;
+
+    for (const target of distribution.agents) {
+      if (target.status !== "pending") continue;
+
+      const agent = this.agentManager.getAgent(target.agentId);
+      if (!agent) continue;
+      if (agent.installedModels.includes(distribution.filename)) {
+        target.status = "installed";
+        continue;
+      }
+      if (running >= distribution.concurrency) continue;
+      if ((retryAt?.get(target.agentId) ?? 0) > now) continue;
+
+      running++;
+      this.download(distribution, target);
+    }
+
+    this.updateStatus(distribution);
+  }
+
+  private download(distribution: Distribution, target: DistributionTarget) {
+    target.status = "downloading";
+    target.attempts++;
+    target.error = null;
+
+    const job = this.downloadService.start({
+      agentId: target.agentId,
+      url: distribution.modelUrl,
+      filename: distribution.filename,
+      sha256: distribution.sha256 ?? undefined,
+      size: distribution.size ?? undefined,
+      publicName: distribution.publicName ?? undefined,
+    });
+    target.jobId = job.id;
+
+    this.downloadService.waitFor(job.id).then((finished) => {
+      // Cancelled along with the distribution
+      if (target.status !== "downloading") return;
+
+      if (finished?.status === "done") {
+        target.status = "installed";
+      } else {
+        target.error = finished?.error ?? `Download ${finished?.status}`;
+        this.retry(distribution, target);
+      }
+      this.pump(distribution);
+    });
+  }
+
+  private retry(distribution: Distribution, target: DistributionTarget): void {
+    if (target.attempts >= MAX_ATTEMPTS) {
+      target.status = "failed";
+      this.logger.warn(
+        `Giving up distributing ${distribution.filename} to ${target.agentId}`,
+        { distributionId: distribution.id, error: target.error }
+      );
+      return;
+    }
+
+    target.status = "pending";
+    const delay = RETRY_DELAY_MS * target.attempts;
+    const retryAt = this.retryAt.get(distribution.id) ?? new Map();
+    retryAt.set(target.agentId, Date.now() + delay);
+    this.retryAt.set(distribution.id, retryAt);
+    setTimeout(() => this.pump(distribution), delay);
+  }
+
+  private updateStatus(distribution: Distribution): void {
+    const statuses = distribution.agents.map((target) => target.status);
+    if (statuses.includes("pending") || statuses.includes("downloading")) {
+      distribution.status = "running";
+    } else if (statuses.includes("failed")) {
+      distribution.status = "failed";
+    } else if (statuses.includes("cancelled")) {
+      distribution.status = "cancelled";
+    } else {
+      distribution.status = "completed";
+    }
+  }
+}
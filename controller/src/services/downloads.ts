@@ -0,0 +1,340 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "./logger";
+import type { Agent, AgentManager } from "./agents";
+import type { AgentRPCService } from "./agent-rpc";
+import type { MappingsService } from "./mappings";
+import type { Db } from "./db";
+import { matchesLabels } from "./routing";
+import type { DownloadProgress } from "../rpc-types";
+
+export type DownloadJobStatus =
+  | "queued"
+  | "downloading"
+  | "verifying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface DownloadJob {
+  id: string;
+  agentId: string;
+  url: string;
+  filename: string;
+  sha256: string | null;
+  size: number | null;
+  // Mapped to the downloaded file once the download is done
+  publicName: string | null;
+  // Peer servers of agents that have the file, tried before the url
+  peers: string[];
+  // Unmapped models the agent may delete if the disk is short
+  collectable: string[];
+  // Queued until the agent reports its first progress
+  status: DownloadJobStatus;
+  downloaded: number;
+  // 0 while the size is unknown
+  total: number;
+  bytesPerSecond: number;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+export interface DownloadRequest {
+  agentId: string;
+  url: string;
+  filename: string;
+  sha256?: string;
+  size?: number;
+  publicName?: string;
+  // Let the agent delete unmapped models to make room
+  gc?: boolean;
+}
+
+// Download Service Interface
+export interface DownloadService {
+  // Start downloading on the agent. A download of the same file already
+  // running on the agent is returned instead of starting another one.
+  start(request: DownloadRequest): DownloadJob;
+  // Resolves once the job is done, failed or cancelled
+  waitFor(id: string): Promise<DownloadJob | null>;
+  getJob(id: string): DownloadJob | null;
+  // Most recent jobs first
+  listJobs(agentId?: string): DownloadJob[];
+  // Returns null if there's no such job
+  cancel(id: string): Promise<DownloadJob | null>;
+}
+
+// Finished jobs kept for the listing
+const MAX_JOB_HISTORY = 100;
+
+function isFinished(job: DownloadJob): boolean {
+  return (
+    job.status === "done" ||
+    job.status === "failed" ||
+    job.status === "cancelled"
+  );
+}
+
+// Download Service Implementation
+export class DownloadJobs implements DownloadService {
+  private jobs: Map<string, DownloadJob> = new Map();
+  private waiters: Map<string, Array<(job: DownloadJob) => void>> = new Map();
+  // Jobs being cancelled; their download call fails as they stop
+  private cancelling: Set<string> = new Set();
+
+  constructor(
+    private agentRPCService: AgentRPCService,
+    private mappingsService: MappingsService,
+    private logger: Logger,
+    private agentManager: AgentManager,
+    private db: Db
+  ) {
+    agentRPCService.onDownloadProgress((agentId, progress) =>
+      this.observe(agentId, progress)
+    );
+    // Calls to a disconnected agent never return
+    agentManager.onAgentRemoved((agentId) => {
+      for (const job of this.jobs.values()) {
+        if (job.agentId === agentId && !isFinished(job)) {
+          this.finish(job, "failed", "Agent disconnected");
+        }
+      }
+    });
+  }
+
+  start(request: DownloadRequest): DownloadJob {
+    const running = this.findRunning(request.agentId, request.filename);
+    if (running) return running;
+
+    const job: DownloadJob = {
+      id: randomUUID(),
+      agentId: request.agentId,
+      url: request.url,
+      filename: request.filename,
+      sha256: request.sha256 ?? null,
+      size: request.size ?? null,
+      publicName: request.publicName ?? null,
+      peers: this.findPeers(request.agentId, request.filename),
+      collectable: request.gc ? this.findUnmapped(request.agentId) : [],
+      status: "queued",
+      downloaded: 0,
+      total: request.size ?? 0,
+      bytesPerSecond: 0,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+    };
+    this.jobs.set(job.id, job);
+    this.prune();
+
+    this.logger.info(`Download ${job.id}: ${job.filename} on ${job.agentId}`, {
+      agentId: job.agentId,
+      url: job.url,
+      peers: job.peers.length,
+    });
+
+    this.agentRPCService
+      .downloadModel({
+        agentId: job.agentId,
+        model_url: job.url,
+        filename: job.filename,
+        sha256: request.sha256,
+        size: request.size,
+        peers: job.peers,
+        collectable: job.collectable,
+      })
+      .then(() => {
+        if (job.total > 0) job.downloaded = job.total;
+        this.finish(job, "done");
+        if (job.publicName) this.mapDownload(job, job.publicName);
+      })
+      .catch((error) => {
+        if (this.cancelling.has(job.id)) {
+          this.finish(job, "cancelled");
+        } else {
+          this.finish(
+            job,
+            "failed",
+            (error as Error)?.message ?? String(error)
+          );
+        }
+      });
+
+    return job;
+  }
+
+  waitFor(id: string): Promise<DownloadJob | null> {
+    const job = this.jobs.get(id);
+    if (!job || isFinished(job)) return Promise.resolve(job ?? null);
+
+    return new Promise((resolve) => {
+      const waiters = this.waiters.get(id) ?? [];
+      waiters.push(resolve);
+      this.waiters.set(id, waiters);
+    });
+  }
+
+  getJob(id: string): DownloadJob | null {
+    return this.jobs.get(id) ?? null;
+  }
+
+  listJobs(agentId?: string): DownloadJob[] {
+    return [...this.jobs.values()]
+      .filter((job) => agentId === undefined || job.agentId === agentId)
+      .reverse();
+  }
+
+  async cancel(id: string): Promise<DownloadJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (isFinished(job)) return job;
+
+    this.cancelling.add(id);
+    try {
+      await this.agentRPCService.cancelDownload({
+        agentId: job.agentId,
+        filename: job.filename,
+      });
+    } catch (error) {
+      // The download goes nowhere without its agent either way
+      this.logger.warn(`Could not reach agent to cancel download ${id}`, {
+        agentId: job.agentId,
+        error: (error as Error)?.message,
+      });
+    } finally {
+      this.cancelling.delete(id);
+    }
+    this.finish(job, "cancelled");
+    return job;
+  }
+
+  private observe(agentId: string, progress: DownloadProgress): void {
+    const job = this.findRunning(agentId, progress.filename);
+    if (!job) return;
+
+    job.downloaded = progress.downloaded;
+    job.total = progress.total;
+    job.bytesPerSecond = progress.bytesPerSecond;
+    if (progress.status === "downloading" || progress.status === "verifying") {
+      job.status = progress.status;
+      job.startedAt ??= Date.now();
+    }
+    // Done and failed are settled by the download call itself
+  }
+
+  private finish(
+    job: DownloadJob,
+    status: DownloadJobStatus,
+    error?: string
+  ): void {
+    if (isFinished(job)) return;
+
+    job.status = status;
+    job.finishedAt = Date.now();
+    job.bytesPerSecond = 0;
+    job.error = error ?? null;
+
+    if (status === "failed") {
+      this.logger.warn(`Download ${job.id} of ${job.filename} failed`, {
+        agentId: job.agentId,
+        error,
+      });
+    } else {
+      this.logger.info(`Download ${job.id} of ${job.filename} ${status}`, {
+        agentId: job.agentId,
+      });
+    }
+
+    for (const resolve of this.waiters.get(job.id) ?? []) {
+      resolve(job);
+    }
+    this.waiters.delete(job.id);
+  }
+
+  private mapDownload(job: DownloadJob, publicName: string): void {
+    const existing = this.mappingsService.getMapping(publicName);
+    if (existing) {
+      if (existing.internal_name !== job.filename) {
+        this.logger.warn(
+          `Not mapping ${publicName} to ${job.filename}, it already maps to ${existing.internal_name}`
+        );
+      }
+      return;
+    }
+    this.mappingsService.addMapping(job.filename, publicName);
+  }
+
+  /**
+   * Peer servers of the other agents that have the file, those sharing
+   * the most labels with the agent (e.g. the same region) first
+   */
+  private findPeers(agentId: string, filename: string): string[] {
+    const agent = this.agentManager.getAgent(agentId);
+    const sharedLabels = (peer: Agent) =>
+      Object.entries(peer.labels).filter(
+        ([key, value]) => agent?.labels[key] === value
+      ).length;
+
+    return this.agentManager
+      .getAllAgents()
+      .filter(
+        (peer) =>
+          peer.id !== agentId &&
+          peer.peerUrl !== undefined &&
+          peer.installedModels.includes(filename)
+      )
+      .sort((a, b) => sharedLabels(b) - sharedLabels(a))
+      .map((peer) => peer.peerUrl!);
+  }
+
+  /**
+   * The agent's installed models that no mapping serves and no required
+   * distribution for its labels keeps there
+   */
+  private findUnmapped(agentId: string): string[] {
+    const agent = this.agentManager.getAgent(agentId);
+    if (!agent) return [];
+
+    const kept = new Set([
+      ...this.mappingsService
+        .getAllMappings()
+        .map((mapping) => mapping.internal_name),
+      ...this.db
+        .getAllRequiredModels()
+        .filter(
+          (model) => model.labels === null || matchesLabels(agent, model.labels)
+        )
+        .map((model) => model.filename),
+    ]);
+    return agent.installedModels.filter((model) => !kept.has(model));
+  }
+
+  private findRunning(
+    agentId: string,
+    filename: string
+  ): DownloadJob | undefined {
+    for (const job of this.jobs.values()) {
+      if (
+        job.agentId === agentId &&
+        job.filename === filename &&
+        !isFinished(job)
+      ) {
+        return job;
+      }
+    }
+    return undefined;
+  }
+
+  // Drop the oldest finished jobs beyond the history limit
+  private prune(): void {
+    const finished = [...this.jobs.values()].filter(isFinished);
+    for (const job of finished.slice(
+      0,
+      Math.max(0, finished.length - MAX_JOB_HISTORY)
+    )) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
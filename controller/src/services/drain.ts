@@ -0,0 +1,122 @@
+import type { Logger } from "./logger";
+import type { AgentManager } from "./agents";
+import type { AgentRPCService } from "./agent-rpc";
+
+// What to do with the agent once its in-flight requests are done
+export type DrainAction = "none" | "unload" | "exit";
+
+export const DRAIN_ACTIONS: DrainAction[] = ["none", "unload", "exit"];
+
+export function isDrainAction(value: string): value is DrainAction {
+  return (DRAIN_ACTIONS as string[]).includes(value);
+}
+
+export type DrainStatus = "draining" | "drained" | "failed" | "cancelled";
+
+export interface AgentDrain {
+  agentId: string;
+  action: DrainAction;
+  status: DrainStatus;
+  startedAt: number;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+// Drain Service Interface
+export interface DrainService {
+  // Cordon the agent and run the action once its in-flight requests finish.
+  // Returns null if the agent was never seen.
+  drain(agentId: string, action: DrainAction): AgentDrain | null;
+  getDrain(agentId: string): AgentDrain | null;
+}
+
+// Drain Service Implementation
+export class AgentDrainer implements DrainService {
+  private drains: Map<string, AgentDrain> = new Map();
+  // Drains whose action is running
+  private finishing: Set<string> = new Set();
+
+  constructor(
+    private agentManager: AgentManager,
+    private agentRPCService: AgentRPCService,
+    private logger: Logger
+  ) {
+    // Fires whenever a request finishes, among others
+    this.agentManager.onCapacityChange(() => this.checkDrains());
+  }
+
+  drain(agentId: string, action: DrainAction): AgentDrain | null {
+    if (!this.agentManager.setCordoned(agentId, true)) {
+      return null;
+    }
+
+    const drain: AgentDrain = {
+      agentId,
+      action,
+      status: "draining",
+      startedAt: Date.now(),
+      finishedAt: null,
+      error: null,
+    };
+    this.drains.set(agentId, drain);
+    this.logger.info(`Draining agent ${agentId}`, {
+      agentId,
+      action,
+      pendingRequests: this.agentManager.getPendingRequests(agentId),
+    });
+
+    this.checkDrains();
+    return drain;
+  }
+
+  getDrain(agentId: string): AgentDrain | null {
+    return this.drains.get(agentId) ?? null;
+  }
+
+  private checkDrains(): void {
+    for (const drain of this.drains.values()) {
+      if (drain.status !== "draining" || this.finishing.has(drain.agentId)) {
+        continue;
+      }
+
+      const agent = this.agentManager.getAgent(drain.agentId);
+      if (agent && !agent.cordoned) {
+        // Uncordoned while draining
+        drain.status = "cancelled";
+        drain.finishedAt = Date.now();
+        continue;
+      }
+      if (agent && agent.pendingRequests > 0) continue;
+
+      this.finish(drain, agent !== undefined);
+    }
+  }
+
+  private async finish(drain: AgentDrain, connected: boolean): Promise<void> {
+    this.finishing.add(drain.agentId);
+    try {
+      // Offline agents have nothing in flight and can't be told anything
+      if (connected && drain.action === "unload") {
+        await this.agentRPCService.unloadModels({ agentId: drain.agentId });
+      } else if (connected && drain.action === "exit") {
+        await this.agentRPCService.exitAgent({ agentId: drain.agentId });
+      }
+      drain.status = "drained";
+      this.logger.info(`Agent ${drain.agentId} drained`, {
+        agentId: drain.agentId,
+        action: drain.action,
+        connected,
+      });
+    } catch (error) {
+      drain.status = "failed";
+      drain.error = (error as Error).message;
+      this.logger.error(
+        `Failed to finish draining agent ${drain.agentId}`,
+        error as Error
+      );
+    } finally {
+      drain.finishedAt = Date.now();
+      this.finishing.delete(drain.agentId);
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import type { Db, ModelMapping } from "./db";
+import type { Db, ModelMapping, ModelMappingOptions } from "./db";
 import type { Logger } from "./logger";
 
 // Mappings Service Interface
@@ -8,7 +8,11 @@ export interface MappingsService {
   internalToPublic(internalName: string): string | null;
 
   // Model mapping management
-  addMapping(internalName: string, publicName: string): string;
+  addMapping(
+    internalName: string,
+    publicName: string,
+    options?: ModelMappingOptions
+  ): string;
   getMapping(publicName: string): ModelMapping | null;
   getAllMappings(): ModelMapping[];
   removeMapping(publicName: string): boolean;
@@ -93,14 +97,25 @@ export class ModelMappingsService implements MappingsService {
   /**
    * Add a new model mapping
    */
-  addMapping(internalName: string, publicName: string): string {
-    const id = this.db.addModelMapping(internalName, publicName);
+  addMapping(
+    internalName: string,
+    publicName: string,
+    options: ModelMappingOptions = {}
+  ): string {
+    const id = this.db.addModelMapping(internalName, publicName, options);
 
     const mapping: ModelMapping = {
       id,
       internal_name: internalName,
       public_name: publicName,
       created_at: Date.now(),
+      timeout_ms: options.timeoutMs ?? null,
+      routing_strategy: options.routingStrategy ?? null,
+      required_labels: options.requiredLabels ?? {},
+      preferred_labels: options.preferredLabels ?? {},
+      min_agents: options.minAgents ?? 0,
+      max_agents: options.maxAgents ?? null,
+      download_url: options.downloadUrl ?? null,
     };
 
     this.cache.set(publicName, mapping);
@@ -0,0 +1,243 @@
+import type { AgentManager } from "./agents";
+import type { RequestQueue } from "./queue";
+import type { UsageService } from "./usage";
+import type { RequestRecord } from "./db";
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds
+const LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const TTFT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const TOKENS_PER_SECOND_BUCKETS = [1, 5, 10, 20, 30, 50, 75, 100, 150, 200];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(
+    private name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels, amount = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "counter");
+    for (const [key, entry] of this.values) {
+      lines.push(`${this.name}${key} ${entry.value}`);
+    }
+    return lines;
+  }
+}
+
+class Histogram {
+  private series: Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  > = new Map();
+
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry!.counts[index]!++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    for (const entry of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        const labels = formatLabels({ ...entry.labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${labels} ${entry.counts[index]}`);
+      });
+      const labels = formatLabels(entry.labels);
+      const infLabels = formatLabels({ ...entry.labels, le: "+Inf" });
+      lines.push(`${this.name}_bucket${infLabels} ${entry.count}`);
+      lines.push(`${this.name}_sum${labels} ${entry.sum}`);
+      lines.push(`${this.name}_count${labels} ${entry.count}`);
+    }
+    return lines;
+  }
+}
+
+// Metrics Service Interface
+export interface MetricsService {
+  // All metrics in the Prometheus text exposition format
+  render(): string;
+}
+
+// Metrics Service Implementation
+export class PrometheusMetrics implements MetricsService {
+  private requests = new Counter(
+    "piercer_requests_total",
+    "Finished OpenAI API requests"
+  );
+  private tokens = new Counter(
+    "piercer_tokens_total",
+    "Tokens processed by finished requests"
+  );
+  private latency = new Histogram(
+    "piercer_request_duration_seconds",
+    "End-to-end request latency",
+    LATENCY_BUCKETS
+  );
+  private timeToFirstToken = new Histogram(
+    "piercer_time_to_first_token_seconds",
+    "Time from receiving a request to the first generated chunk",
+    TTFT_BUCKETS
+  );
+  private tokensPerSecond = new Histogram(
+    "piercer_generation_tokens_per_second",
+    "Completion tokens per second after the first token",
+    TOKENS_PER_SECOND_BUCKETS
+  );
+
+  constructor(
+    private agentManager: AgentManager,
+    private requestQueue: RequestQueue,
+    usageService: UsageService
+  ) {
+    usageService.onRequestRecorded((record) => this.observe(record));
+  }
+
+  render(): string {
+    const lines = [
+      ...this.requests.render(),
+      ...this.tokens.render(),
+      ...this.latency.render(),
+      ...this.timeToFirstToken.render(),
+      ...this.tokensPerSecond.render(),
+      ...this.renderFleet(),
+    ];
+    return lines.join("\n") + "\n";
+  }
+
+  private observe(record: RequestRecord): void {
+    const labels = {
+      model: record.public_model,
+      status: record.status,
+      agent: record.agent_id ?? "",
+    };
+
+    this.requests.inc(labels);
+    this.latency.observe(labels, record.latency_ms / 1000);
+
+    const modelLabels = { model: record.public_model, agent: labels.agent };
+    if (record.prompt_tokens !== null) {
+      this.tokens.inc({ ...modelLabels, type: "prompt" }, record.prompt_tokens);
+    }
+    if (record.completion_tokens !== null) {
+      this.tokens.inc(
+        { ...modelLabels, type: "completion" },
+        record.completion_tokens
+      );
+    }
+
+    if (record.ttft_ms === null) return;
+    this.timeToFirstToken.observe(modelLabels, record.ttft_ms / 1000);
+
+    const generationMs = record.latency_ms - record.ttft_ms;
+    if (record.completion_tokens && generationMs > 0) {
+      this.tokensPerSecond.observe(
+        modelLabels,
+        record.completion_tokens / (generationMs / 1000)
+      );
+    }
+  }
+
+  // Gauges read from the live fleet state at scrape time
+  private renderFleet(): string[] {
+    const agents = this.agentManager.getAllAgents();
+    const lines = [
+      ...header("piercer_agents_connected", "Connected agents", "gauge"),
+      `piercer_agents_connected ${agents.length}`,
+      ...header(
+        "piercer_agent_pending_requests",
+        "Requests currently dispatched to an agent",
+        "gauge"
+      ),
+    ];
+    for (const agent of agents) {
+      const labels = formatLabels({ agent: agent.id });
+      lines.push(
+        `piercer_agent_pending_requests${labels} ${agent.pendingRequests}`
+      );
+    }
+
+    lines.push(
+      ...header(
+        "piercer_agent_models",
+        "Models per agent by state (loaded in memory or installed on disk)",
+        "gauge"
+      )
+    );
+    for (const agent of agents) {
+      for (const [state, models] of [
+        ["loaded", agent.loadedModels],
+        ["installed", agent.installedModels],
+      ] as const) {
+        const labels = formatLabels({ agent: agent.id, state });
+        lines.push(`piercer_agent_models${labels} ${models.length}`);
+      }
+    }
+
+    const queue = this.requestQueue.getStats();
+    lines.push(
+      ...header("piercer_queue_depth", "Requests waiting for an agent", "gauge")
+    );
+    for (const [priority, depth] of Object.entries(queue.byPriority)) {
+      lines.push(`piercer_queue_depth${formatLabels({ priority })} ${depth}`);
+    }
+    lines.push(
+      ...header(
+        "piercer_queue_oldest_wait_seconds",
+        "How long the oldest queued request has been waiting",
+        "gauge"
+      ),
+      `piercer_queue_oldest_wait_seconds ${queue.oldestWaitMs / 1000}`
+    );
+
+    return lines;
+  }
+}
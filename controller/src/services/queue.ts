@@ -0,0 +1,307 @@
+import type { Logger } from "./logger";
+import type { AgentManager } from "./agents";
+import type { RoutingService, RoutingRequest, RoutingResult } from "./routing";
+import { AgentRequestError } from "./agent-rpc";
+
+export type PriorityClass = "high" | "normal" | "low";
+
+// Lower rank is served first
+const PRIORITY_RANK: Record<PriorityClass, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+export function isPriorityClass(value: string): value is PriorityClass {
+  return value in PRIORITY_RANK;
+}
+
+export interface AdmissionRequest extends RoutingRequest {
+  priority: PriorityClass;
+  // How long the request may wait for an agent
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+export interface QueueStats {
+  depth: number;
+  maxSize: number;
+  byPriority: Record<PriorityClass, number>;
+  // Waiting requests per internal model name
+  byModel: Record<string, number>;
+  oldestWaitMs: number;
+  averageWaitMs: number;
+}
+
+/**
+ * Raised when the queue is full; carries the Retry-After hint for the client
+ */
+export class QueueFullError extends AgentRequestError {
+  public readonly retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(
+      "Too many requests are waiting for an agent, please retry later",
+      "rate_limit_error",
+      "queue_full",
+      429
+    );
+    this.name = "QueueFullError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+interface QueuedRequest {
+  request: AdmissionRequest;
+  enqueuedAt: number;
+  resolve: (result: RoutingResult) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  onAbort: () => void;
+}
+
+// Request Queue Interface
+export interface RequestQueue {
+  admit(request: AdmissionRequest): Promise<RoutingResult>;
+  getStats(): QueueStats;
+}
+
+// How many recent wait times the average is computed over
+const WAIT_SAMPLE_SIZE = 100;
+
+// Request Queue Implementation
+export class AdmissionQueue implements RequestQueue {
+  private waiting: QueuedRequest[] = [];
+  private recentWaits: number[] = [];
+  private draining = false;
+  private drainRequested = false;
+
+  constructor(
+    private routingService: RoutingService,
+    private agentManager: AgentManager,
+    private logger: Logger,
+    private options: { maxSize: number; timeoutMs: number }
+  ) {
+    this.agentManager.onCapacityChange(() => this.drain());
+  }
+
+  /**
+   * Bind the request to an agent with spare capacity, waiting in the queue
+   * until one frees up. Rejects with a QueueFullError when the queue is full,
+   * and with a 503 once the queue timeout expires, or right away when no
+   * agent could serve the request at all.
+   */
+  async admit(request: AdmissionRequest): Promise<RoutingResult> {
+    // Don't overtake requests for the same model that are already waiting
+    if (!this.hasWaitingAhead(request)) {
+      const result = await this.tryDispatch(request);
+      if (result) {
+        this.recordWait(0);
+        return result;
+      }
+    }
+
+    // Waiting only helps when an agent that can serve it is busy
+    if (!this.routingService.hasEligibleAgents(request)) {
+      throw new AgentRequestError(
+        `No agents available for '${request.model}'`,
+        "service_unavailable_error",
+        "no_available_agents",
+        503
+      );
+    }
+
+    if (this.waiting.length >= this.options.maxSize) {
+      this.logger.warn("Request queue is full", {
+        requestId: request.requestId,
+        depth: this.waiting.length,
+      });
+      throw new QueueFullError(this.estimateRetryAfter());
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeoutMs = Math.min(request.timeoutMs, this.options.timeoutMs);
+      const entry: QueuedRequest = {
+        request,
+        enqueuedAt: Date.now(),
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.remove(entry);
+          this.logger.warn("Request timed out in queue", {
+            requestId: request.requestId,
+            timeoutMs,
+          });
+          reject(
+            new AgentRequestError(
+              `No agents available for '${request.model}' after waiting ${timeoutMs}ms`,
+              "service_unavailable_error",
+              "no_available_agents",
+              503
+            )
+          );
+        }, timeoutMs),
+        onAbort: () => {
+          this.remove(entry);
+          reject(
+            new AgentRequestError(
+              "Request was cancelled by the client",
+              "invalid_request_error",
+              "request_cancelled",
+              400
+            )
+          );
+        },
+      };
+
+      request.signal?.addEventListener("abort", entry.onAbort, { once: true });
+      this.insert(entry);
+
+      this.logger.info("Request queued", {
+        requestId: request.requestId,
+        model: request.model,
+        priority: request.priority,
+        depth: this.waiting.length,
+      });
+
+      // Capacity may have changed while the fast path was routing
+      this.drain();
+    });
+  }
+
+  getStats(): QueueStats {
+    const now = Date.now();
+    const byPriority: Record<PriorityClass, number> = {
+      high: 0,
+      normal: 0,
+      low: 0,
+    };
+    const byModel: Record<string, number> = {};
+    let oldestWaitMs = 0;
+    for (const entry of this.waiting) {
+      byPriority[entry.request.priority]++;
+      byModel[entry.request.model] = (byModel[entry.request.model] ?? 0) + 1;
+      oldestWaitMs = Math.max(oldestWaitMs, now - entry.enqueuedAt);
+    }
+
+    return {
+      depth: this.waiting.length,
+      maxSize: this.options.maxSize,
+      byPriority,
+      byModel,
+      oldestWaitMs,
+      averageWaitMs: this.averageWait(),
+    };
+  }
+
+  /**
+   * Hand freed capacity to waiting requests, highest priority first.
+   * Runs one pass at a time; calls during a pass schedule another one.
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        for (const entry of [...this.waiting]) {
+          if (!this.waiting.includes(entry)) continue;
+
+          const result = await this.tryDispatch(entry.request);
+          if (!result) continue;
+          if (!this.waiting.includes(entry)) {
+            // Timed out or cancelled while routing, give the agent back
+            this.agentManager.unbindRequestFromAgent(entry.request.requestId);
+            this.agentManager.decrementPendingRequests(result.agent.id);
+            continue;
+          }
+
+          this.remove(entry);
+          const waitMs = Date.now() - entry.enqueuedAt;
+          this.recordWait(waitMs);
+          this.logger.info("Request dispatched from queue", {
+            requestId: entry.request.requestId,
+            agentId: result.agent.id,
+            waitMs,
+          });
+          entry.resolve(result);
+        }
+      } while (this.drainRequested);
+    } catch (error) {
+      this.logger.error("Error draining request queue", error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Route the request to an agent that can take it now and bind it there
+   */
+  private async tryDispatch(
+    request: AdmissionRequest
+  ): Promise<RoutingResult | null> {
+    const result = await this.routingService.selectAgent({
+      ...request,
+      immediate: true,
+    });
+    if (!result) return null;
+
+    // Bind right away so the next routing decision sees this request
+    const agentId = result.agent.id;
+    this.agentManager.reserveSlot(agentId, request.model);
+    this.agentManager.bindRequestToAgent(request.requestId, agentId);
+    this.agentManager.incrementPendingRequests(agentId);
+    return result;
+  }
+
+  private hasWaitingAhead(request: AdmissionRequest): boolean {
+    return this.waiting.some(
+      (entry) =>
+        entry.request.model === request.model &&
+        PRIORITY_RANK[entry.request.priority] <= PRIORITY_RANK[request.priority]
+    );
+  }
+
+  // Keep the queue sorted by priority, FIFO within a priority class
+  private insert(entry: QueuedRequest): void {
+    const rank = PRIORITY_RANK[entry.request.priority];
+    const index = this.waiting.findIndex(
+      (other) => PRIORITY_RANK[other.request.priority] > rank
+    );
+    if (index === -1) {
+      this.waiting.push(entry);
+    } else {
+      this.waiting.splice(index, 0, entry);
+    }
+  }
+
+  private remove(entry: QueuedRequest): void {
+    const index = this.waiting.indexOf(entry);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+    }
+    clearTimeout(entry.timer);
+    entry.request.signal?.removeEventListener("abort", entry.onAbort);
+  }
+
+  private recordWait(waitMs: number): void {
+    this.recentWaits.push(waitMs);
+    if (this.recentWaits.length > WAIT_SAMPLE_SIZE) {
+      this.recentWaits.shift();
+    }
+  }
+
+  private averageWait(): number {
+    if (this.recentWaits.length === 0) return 0;
+    const total = this.recentWaits.reduce((sum, wait) => sum + wait, 0);
+    return Math.round(total / this.recentWaits.length);
+  }
+
+  private estimateRetryAfter(): number {
+    return Math.max(1, Math.ceil(this.averageWait() / 1000));
+  }
+}
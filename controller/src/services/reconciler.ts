@@ -0,0 +1,418 @@
+import { randomUUID } from "crypto";
+import type { Logger } from "./logger";
+import type { Agent, AgentManager } from "./agents";
+import type { AgentRPCService } from "./agent-rpc";
+import type { MappingsService } from "./mappings";
+import type { DownloadService } from "./downloads";
+import type { ModelMapping } from "./db";
+import { matchesLabels } from "./routing";
+
+export type ReconcileActionType = "download" | "load" | "unload";
+
+export type ReconcileActionStatus = "running" | "succeeded" | "failed";
+
+export interface ReconcileAction {
+  id: string;
+  type: ReconcileActionType;
+  publicName: string;
+  model: string;
+  agentId: string;
+  status: ReconcileActionStatus;
+  startedAt: number;
+  finishedAt: number | null;
+  error: string | null;
+}
+
+// How far the fleet is from what a mapping asks for
+export interface ModelDesiredState {
+  publicName: string;
+  model: string;
+  minAgents: number;
+  maxAgents: number | null;
+  // Exact number of agents asked for by the autoscaler, within the bounds
+  target: number | null;
+  // Agents serving the model: loaded, not cordoned and matching its labels
+  loadedOn: string[];
+  // Negative when agents are missing, positive when there are too many
+  drift: number;
+  running: ReconcileAction[];
+  // Why the drift can't be fixed right now, if it can't
+  blocked: string | null;
+}
+
+export interface ReconcilerStatus {
+  lastRunAt: number | null;
+  models: ModelDesiredState[];
+  // Most recent actions first
+  actions: ReconcileAction[];
+}
+
+// Reconciler Service Interface
+export interface ReconcilerService {
+  // Issue the actions that move the fleet towards the desired state
+  reconcile(): ReconcilerStatus;
+  getStatus(): ReconcilerStatus;
+  // Converge on exactly this many agents instead of the mapping's bounds
+  setTarget(publicName: string, agents: number | null): void;
+  stop(): void;
+}
+
+// Finished actions kept for the status report
+const MAX_ACTION_HISTORY = 100;
+// A failed action isn't retried on the same agent before this long
+const FAILURE_BACKOFF_MS = 5 * 60 * 1000;
+// Actions still running after this long are failed; calls to an agent have
+// no timeout of their own
+const ACTION_TIMEOUT_MS: Record<ReconcileActionType, number> = {
+  download: 6 * 60 * 60 * 1000,
+  load: 10 * 60 * 1000,
+  unload: 60 * 1000,
+};
+
+// Reconciler Service Implementation
+export class ModelReconciler implements ReconcilerService {
+  private actions: ReconcileAction[] = [];
+  private lastRunAt: number | null = null;
+  // public name -> number of agents
+  private targets: Map<string, number> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Action id -> deadline timer
+  private deadlines: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(
+    private agentManager: AgentManager,
+    private mappingsService: MappingsService,
+    private agentRPCService: AgentRPCService,
+    private downloadService: DownloadService,
+    private logger: Logger,
+    intervalMs: number
+  ) {
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => this.reconcile(), intervalMs);
+    }
+    // Calls to a disconnected agent never return
+    agentManager.onAgentRemoved((agentId) => {
+      for (const action of this.actions) {
+        if (action.agentId === agentId) {
+          this.finish(action, new Error("Agent disconnected"));
+        }
+      }
+    });
+  }
+
+  reconcile(): ReconcilerStatus {
+    this.lastRunAt = Date.now();
+
+    for (const mapping of this.managedMappings()) {
+      const state = this.assess(mapping);
+      if (state.drift < 0) {
+        this.scaleUp(mapping, state, -state.drift);
+      } else if (state.drift > 0) {
+        this.scaleDown(mapping, state, state.drift);
+      }
+    }
+
+    return this.getStatus();
+  }
+
+  getStatus(): ReconcilerStatus {
+    return {
+      lastRunAt: this.lastRunAt,
+      models: this.managedMappings().map((mapping) => this.assess(mapping)),
+      actions: [...this.actions].reverse(),
+    };
+  }
+
+  setTarget(publicName: string, agents: number | null): void {
+    if (agents === null) {
+      this.targets.delete(publicName);
+    } else {
+      this.targets.set(publicName, agents);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    for (const deadline of this.deadlines.values()) clearTimeout(deadline);
+    this.deadlines.clear();
+  }
+
+  // Mappings that declare a desired number of agents
+  private managedMappings(): ModelMapping[] {
+    return this.mappingsService
+      .getAllMappings()
+      .filter(
+        (mapping) => mapping.min_agents > 0 || mapping.max_agents !== null
+      );
+  }
+
+  /**
+   * Compare the agents serving a model with the mapping's bounds. Loads in
+   * progress count as served, unloads in progress as gone.
+   */
+  private assess(mapping: ModelMapping): ModelDesiredState {
+    const model = mapping.internal_name;
+    const running = this.actions.filter(
+      (action) => action.status === "running" && action.model === model
+    );
+    const loadedOn = this.eligibleAgents(mapping)
+      .filter((agent) => agent.loadedModels.includes(model))
+      .map((agent) => agent.id);
+
+    const loading = running.filter(
+      (action) => action.type !== "unload" && !loadedOn.includes(action.agentId)
+    ).length;
+    const unloading = running.filter(
+      (action) => action.type === "unload"
+    ).length;
+    const serving = loadedOn.length + loading - unloading;
+
+    const target = this.targets.get(mapping.public_name) ?? null;
+    const low = target ?? mapping.min_agents;
+    const high = target ?? mapping.max_agents;
+
+    let drift = 0;
+    if (serving < low) {
+      drift = serving - low;
+    } else if (high !== null && serving > high) {
+      drift = serving - high;
+    }
+
+    return {
+      publicName: mapping.public_name,
+      model,
+      minAgents: mapping.min_agents,
+      maxAgents: mapping.max_agents,
+      target,
+      loadedOn,
+      drift,
+      running,
+      blocked: drift < 0 ? this.scaleUpBlocker(mapping, -drift) : null,
+    };
+  }
+
+  private scaleUpBlocker(
+    mapping: ModelMapping,
+    missing: number
+  ): string | null {
+    const available = this.scaleUpCandidates(mapping).length;
+    if (available >= missing) return null;
+
+    return mapping.download_url
+      ? `Only ${available} more eligible agent(s) available`
+      : `Only ${available} more agent(s) have ${mapping.internal_name} installed and the mapping has no download_url`;
+  }
+
+  // Connected, uncordoned agents matching the mapping's required labels
+  private eligibleAgents(mapping: ModelMapping): Agent[] {
+    return this.agentManager
+      .getAllAgents()
+      .filter(
+        (agent) =>
+          !agent.cordoned && matchesLabels(agent, mapping.required_labels)
+      );
+  }
+
+  /**
+   * Agents that could start serving the model, those that already have it
+   * installed first, then the ones running the fewest models
+   */
+  private scaleUpCandidates(mapping: ModelMapping): Agent[] {
+    const model = mapping.internal_name;
+    return this.eligibleAgents(mapping)
+      .filter(
+        (agent) =>
+          !agent.loadedModels.includes(model) &&
+          !this.isBusyWith(agent.id, model) &&
+          !this.recentlyFailed(agent.id, model) &&
+          (agent.installedModels.includes(model) ||
+            mapping.download_url !== null)
+      )
+      .sort(
+        (a, b) =>
+          Number(b.installedModels.includes(model)) -
+            Number(a.installedModels.includes(model)) ||
+          a.loadedModels.length - b.loadedModels.length ||
+          a.id.localeCompare(b.id)
+      );
+  }
+
+  private scaleUp(
+    mapping: ModelMapping,
+    state: ModelDesiredState,
+    missing: number
+  ): void {
+    const candidates = this.scaleUpCandidates(mapping).slice(0, missing);
+    if (candidates.length < missing) {
+      this.logger.warn(`Not enough agents to serve ${mapping.public_name}`, {
+        model: state.model,
+        minAgents: mapping.min_agents,
+        target: state.target,
+        loadedOn: state.loadedOn,
+        reason: state.blocked,
+      });
+    }
+
+    for (const agent of candidates) {
+      if (agent.installedModels.includes(state.model)) {
+        this.run("load", mapping, agent.id);
+      } else {
+        this.run("download", mapping, agent.id);
+      }
+    }
+  }
+
+  /**
+   * Unload the model from idle agents, leaving pinned copies alone
+   */
+  private scaleDown(
+    mapping: ModelMapping,
+    state: ModelDesiredState,
+    excess: number
+  ): void {
+    const model = state.model;
+    const candidates = this.eligibleAgents(mapping)
+      .filter((agent) => {
+        if (!state.loadedOn.includes(agent.id)) return false;
+        if (this.isBusyWith(agent.id, model)) return false;
+        if (this.recentlyFailed(agent.id, model)) return false;
+        if (agent.telemetry?.pinnedModels.includes(model)) return false;
+        const slots = agent.slots[model];
+        return slots ? slots.free === slots.total : agent.pendingRequests === 0;
+      })
+      .sort(
+        (a, b) =>
+          b.loadedModels.length - a.loadedModels.length ||
+          b.id.localeCompare(a.id)
+      )
+      .slice(0, excess);
+
+    for (const agent of candidates) {
+      this.run("unload", mapping, agent.id);
+    }
+  }
+
+  private run(
+    type: ReconcileActionType,
+    mapping: ModelMapping,
+    agentId: string
+  ): void {
+    const model = mapping.internal_name;
+    const action: ReconcileAction = {
+      id: randomUUID(),
+      type,
+      publicName: mapping.public_name,
+      model,
+      agentId,
+      status: "running",
+      startedAt: Date.now(),
+      finishedAt: null,
+      error: null,
+    };
+    this.actions.push(action);
+    if (this.actions.length > MAX_ACTION_HISTORY) {
+      const finished = this.actions.findIndex((a) => a.status !== "running");
+      if (finished !== -1) this.actions.splice(finished, 1);
+    }
+
+    this.logger.info(`Reconciler: ${type} ${model} on agent ${agentId}`, {
+      agentId,
+      model,
+      publicName: mapping.public_name,
+    });
+
+    const timeoutMs = ACTION_TIMEOUT_MS[type];
+    this.deadlines.set(
+      action.id,
+      setTimeout(
+        () =>
+          this.finish(
+            action,
+            new Error(`Timed out after ${timeoutMs / 1000} seconds`)
+          ),
+        timeoutMs
+      )
+    );
+
+    this.execute(action, mapping).then(
+      () => {
+        // Load what was just downloaded
+        if (this.finish(action) && type === "download") {
+          this.run("load", mapping, agentId);
+        }
+      },
+      (error) => this.finish(action, error as Error)
+    );
+  }
+
+  /**
+   * Settle a running action, failed if there's an error. Returns false if
+   * it was already settled, e.g. by its deadline.
+   */
+  private finish(action: ReconcileAction, error?: Error): boolean {
+    if (action.status !== "running") return false;
+    clearTimeout(this.deadlines.get(action.id));
+    this.deadlines.delete(action.id);
+
+    action.status = error ? "failed" : "succeeded";
+    action.finishedAt = Date.now();
+    if (error) {
+      action.error = error.message;
+      this.logger.error(
+        `Reconciler failed to ${action.type} ${action.model} on agent ${action.agentId}`,
+        error
+      );
+    }
+    return true;
+  }
+
+  private async execute(
+    action: ReconcileAction,
+    mapping: ModelMapping
+  ): Promise<void> {
+    const { agentId, model } = action;
+    switch (action.type) {
+      case "download": {
+        const job = this.downloadService.start({
+          agentId,
+          url: mapping.download_url!,
+          filename: model,
+        });
+        const finished = await this.downloadService.waitFor(job.id);
+        if (finished?.status !== "done") {
+          throw new Error(finished?.error ?? `Download ${finished?.status}`);
+        }
+        return;
+      }
+      case "load":
+        await this.agentRPCService.startModel({ agentId, model });
+        return;
+      case "unload":
+        await this.agentRPCService.unloadModel({ agentId, model });
+        return;
+    }
+  }
+
+  private isBusyWith(agentId: string, model: string): boolean {
+    return this.actions.some(
+      (action) =>
+        action.status === "running" &&
+        action.agentId === agentId &&
+        action.model === model
+    );
+  }
+
+  private recentlyFailed(agentId: string, model: string): boolean {
+    const cutoff = Date.now() - FAILURE_BACKOFF_MS;
+    return this.actions.some(
+      (action) =>
+        action.status === "failed" &&
+        action.agentId === agentId &&
+        action.model === model &&
+        action.finishedAt! >= cutoff
+    );
+  }
+}
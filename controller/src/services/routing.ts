@@ -1,11 +1,111 @@
-import type { Db } from "./db";
+import { createHash } from "crypto";
 import type { Logger } from "./logger";
 import type { AgentManager, Agent } from "./agents";
+import type { RequestRecord } from "./db";
 
-export interface RoutingRequest {
+export type RoutingStrategy =
+  | "least_pending"
+  | "round_robin"
+  | "weighted_random"
+  | "power_of_two"
+  | "latency"
+  | "sticky";
+
+export const ROUTING_STRATEGIES: RoutingStrategy[] = [
+  "least_pending",
+  "round_robin",
+  "weighted_random",
+  "power_of_two",
+  "latency",
+  "sticky",
+];
+
+export function isRoutingStrategy(value: string): value is RoutingStrategy {
+  return (ROUTING_STRATEGIES as string[]).includes(value);
+}
+
+// Agent labels a request needs, and ones it should land on when possible
+export interface PlacementConstraints {
+  requiredLabels?: Record<string, string>;
+  preferredLabels?: Record<string, string>;
+}
+
+/**
+ * Parse labels written as "key=value" pairs separated by commas.
+ * Returns null if any pair is malformed.
+ */
+export function parseLabels(value: string): Record<string, string> | null {
+  const labels: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    if (entry.trim() === "") continue;
+
+    const [key, label, ...rest] = entry.split("=").map((part) => part.trim());
+    if (!key || !label || rest.length > 0) return null;
+    labels[key] = label;
+  }
+  return labels;
+}
+
+function countMatchingLabels(
+  agent: Agent,
+  labels: Record<string, string>
+): number {
+  return Object.entries(labels).filter(
+    ([key, value]) => agent.labels[key] === value
+  ).length;
+}
+
+// Whether the agent carries every one of the labels
+export function matchesLabels(
+  agent: Agent,
+  labels: Record<string, string>
+): boolean {
+  return countMatchingLabels(agent, labels) === Object.keys(labels).length;
+}
+
+export interface RoutingRequest extends PlacementConstraints {
   model: string;
   requestType: "completion" | "chat";
   requestId: string;
+  // Falls back to the router's default strategy
+  strategy?: RoutingStrategy;
+  // OpenAI `user` field, used by the sticky strategy
+  user?: string;
+  // Identifies the conversation, see conversationPrefixKey
+  prefixKey?: string;
+  // Only pick an agent that can start the request right away. Set by the
+  // admission queue, which waits for capacity rather than overbooking, so
+  // strategies only keep state about requests that are dispatched.
+  immediate?: boolean;
+}
+
+/**
+ * Hash a chat's messages. An agent that replied to a conversation reports
+ * the key of the messages plus its reply, so the next turn can find the
+ * agent whose KV cache holds them. The agent hashes the same way.
+ */
+export function conversationKey(
+  messages: Array<{ role: string; content: string | null }>
+): string {
+  const hash = createHash("sha256");
+  for (const { role, content } of messages) {
+    hash.update(JSON.stringify([role, content ?? ""]));
+  }
+  return hash.digest("hex").slice(0, 32);
+}
+
+/**
+ * Key of the conversation a chat request continues: everything before its
+ * last user message, so conversations that only share an opening don't
+ * share a key once their replies differ
+ */
+export function conversationPrefixKey(
+  messages: Array<{ role: string; content: string | null }>
+): string {
+  const lastUser = messages.findLastIndex((message) => message.role === "user");
+  return conversationKey(
+    lastUser === -1 ? messages : messages.slice(0, lastUser)
+  );
 }
 
 export interface RoutingResult {
@@ -13,9 +113,62 @@ export interface RoutingResult {
   reason: string;
 }
 
+// How disruptive loading a model on an agent would be:
+// - fits: already loaded, or fits in the free memory
+// - evicts_idle: fits once idle models are unloaded
+// - no_room: would need busy models unloaded, or doesn't fit at all
+type Placement = "fits" | "evicts_idle" | "no_room";
+
+// Lower rank is preferred
+const PLACEMENT_RANK: Record<Placement, number> = {
+  fits: 0,
+  evicts_idle: 1,
+  no_room: 2,
+};
+
+// What a strategy picked, and why in its own terms
+interface Selection {
+  agent: Agent;
+  detail: string;
+}
+
+type Strategy = (
+  candidates: Agent[],
+  request: RoutingRequest,
+  placements: Map<string, Placement>
+) => Selection;
+
+// Observed performance of a model on an agent (moving averages)
+interface LatencyStats {
+  ttftMs: number;
+  tokensPerSecond: number | null;
+}
+
+// Weight of the newest sample in the latency averages
+const LATENCY_SMOOTHING = 0.2;
+// Completion length the latency strategy estimates the duration of
+const REFERENCE_COMPLETION_TOKENS = 256;
+// Users the sticky strategy remembers before forgetting the oldest
+const MAX_STICKY_USERS = 10000;
+// Conversations whose last agent is remembered for prefix cache affinity
+const MAX_PREFIX_ENTRIES = 10000;
+
+export interface RoutingOptions {
+  // Used when the model mapping doesn't pick a strategy
+  defaultStrategy?: RoutingStrategy;
+  // Source of randomness for the random strategies
+  random?: () => number;
+}
+
 // Routing Service Interface
 export interface RoutingService {
   selectAgent(request: RoutingRequest): Promise<RoutingResult | null>;
+  // Whether any connected agent could ever serve the request, busy or not
+  hasEligibleAgents(request: RoutingRequest): boolean;
+  // Feed a finished request into the latency-aware strategy
+  observeRequest(record: RequestRecord): void;
+  // Route the conversation with this key to the agent that replied to it
+  rememberConversation(model: string, prefixKey: string, agentId: string): void;
   getAvailableAgents(): Agent[];
   getAgentLoad(agentId: string): number;
 }
@@ -24,35 +177,71 @@ export interface RoutingService {
 export class LoadBalancingRouter implements RoutingService {
   private agentManager: AgentManager;
   private logger: Logger;
+  private defaultStrategy: RoutingStrategy;
+  private random: () => number;
+  private strategies: Record<RoutingStrategy, Strategy> = {
+    least_pending: (candidates, request, placements) =>
+      this.leastPending(candidates, request, placements),
+    round_robin: (candidates, request, placements) =>
+      this.roundRobin(candidates, request, placements),
+    weighted_random: (candidates, request, placements) =>
+      this.weightedRandom(candidates, request, placements),
+    power_of_two: (candidates, request, placements) =>
+      this.powerOfTwo(candidates, request, placements),
+    latency: (candidates, request, placements) =>
+      this.lowestLatency(candidates, request, placements),
+    sticky: (candidates, request, placements) =>
+      this.sticky(candidates, request, placements),
+  };
+  // model -> number of requests handed out round-robin
+  private roundRobinTurns: Map<string, number> = new Map();
+  // "agentId:model" -> observed performance
+  private latencyStats: Map<string, LatencyStats> = new Map();
+  // "model:user" -> agent id, oldest first
+  private stickyAgents: Map<string, string> = new Map();
+  // "model:prefixKey" -> agent that last served the conversation, oldest first
+  private prefixAgents: Map<string, string> = new Map();
 
-  constructor(agentManager: AgentManager, logger: Logger) {
+  constructor(
+    agentManager: AgentManager,
+    logger: Logger,
+    options: RoutingOptions = {}
+  ) {
     this.agentManager = agentManager;
     this.logger = logger;
+    this.defaultStrategy = options.defaultStrategy ?? "least_pending";
+    this.random = options.random ?? Math.random;
   }
 
   /**
-   * Select the best agent for a request based on load balancing priorities
-   * Priority order:
-   * 1. Agent with zero pending requests and model loaded
-   * 2. Agent with zero pending requests and model installed (but not loaded)
-   * 3. Agent with least pending requests and model loaded
-   * 4. Agent with least pending requests and model installed (but not loaded)
-   * In case of tie, use ID order
+   * Select an agent for a request with the request's routing strategy.
+   *
+   * Cordoned agents are skipped, and only agents with the model installed
+   * and all the required labels are considered. Agents where the model
+   * isn't loaded are skipped if it won't fit in their memory without
+   * unloading busy models. For immediate requests, agents that can't start
+   * the request right now are skipped too. Preferred labels then narrow the
+   * agents that can start it now to those matching the most of them, or all
+   * of the agents if none can. A request continuing a conversation goes
+   * back to the agent that replied to its previous turn while it has a free
+   * slot; otherwise the strategy picks among the rest.
    */
   async selectAgent(request: RoutingRequest): Promise<RoutingResult | null> {
-    const connectedAgents = this.agentManager.getAllAgents();
+    const connectedAgents = this.agentManager
+      .getAllAgents()
+      .filter((agent) => !agent.cordoned);
 
     if (connectedAgents.length === 0) {
       this.logger.noAvailableAgents(request.requestId);
       return null;
     }
 
-    const agentsWithModel = connectedAgents.filter((agent) => {
+    const installedOn = connectedAgents.filter((agent) => {
       const installedModels = this.agentManager.getInstalledModels(agent.id);
       return installedModels.includes(request.model);
     });
 
-    if (agentsWithModel.length === 0) {
+    if (installedOn.length === 0) {
       this.logger.warn("No agents available with requested model", {
         requestId: request.requestId,
         model: request.model,
@@ -61,8 +250,165 @@ export class LoadBalancingRouter implements RoutingService {
       return null;
     }
 
+    const requiredLabels = request.requiredLabels ?? {};
+    const eligible = installedOn.filter((agent) =>
+      matchesLabels(agent, requiredLabels)
+    );
+
+    if (eligible.length === 0) {
+      this.logger.warn("No agents with the requested model match the labels", {
+        requestId: request.requestId,
+        model: request.model,
+        requiredLabels,
+        agentsWithModel: installedOn.length,
+      });
+      return null;
+    }
+
+    const placements = new Map(
+      eligible.map((agent) => [
+        agent.id,
+        this.getPlacement(agent, request.model),
+      ])
+    );
+    const withRoom = eligible.filter(
+      (agent) => placements.get(agent.id) !== "no_room"
+    );
+
+    if (withRoom.length === 0) {
+      this.logger.warn("Requested model doesn't fit on any agent right now", {
+        requestId: request.requestId,
+        model: request.model,
+        agentsWithModel: eligible.length,
+      });
+      return null;
+    }
+
+    const candidates = request.immediate
+      ? withRoom.filter((agent) => this.canStartNow(agent, request.model))
+      : withRoom;
+    if (candidates.length === 0) {
+      this.logger.debug("No agent can start the request right now", {
+        requestId: request.requestId,
+        model: request.model,
+      });
+      return null;
+    }
+
+    // Preferred labels only pick among agents that can start the request
+    // now, a busy preferred agent shouldn't hold it up while others idle
+    const ready = candidates.filter((agent) =>
+      this.canStartNow(agent, request.model)
+    );
+    const pool = ready.length > 0 ? ready : candidates;
+
+    // Keep the agents matching the most preferred labels
+    const preferredLabels = request.preferredLabels ?? {};
+    const bestMatch = Math.max(
+      ...pool.map((agent) => countMatchingLabels(agent, preferredLabels))
+    );
+    const agentsWithModel = pool.filter(
+      (agent) => countMatchingLabels(agent, preferredLabels) === bestMatch
+    );
+
+    const strategy = request.strategy ?? this.defaultStrategy;
+    const { agent, detail } =
+      this.prefixAffinity(agentsWithModel, request) ??
+      this.strategies[strategy](agentsWithModel, request, placements);
+    const reason = this.generateSelectionReason(
+      agent,
+      agentsWithModel,
+      request,
+      strategy,
+      detail,
+      placements.get(agent.id)!
+    );
+
+    this.logger.info("Selected agent", {
+      requestId: request.requestId,
+      selectedAgent: agent.id,
+      strategy,
+      reason,
+    });
+    this.logger.agentSelected(agent.id, request.requestId, reason);
+
+    return { agent, reason };
+  }
+
+  hasEligibleAgents(request: RoutingRequest): boolean {
+    const requiredLabels = request.requiredLabels ?? {};
+    return this.agentManager
+      .getAllAgents()
+      .some(
+        (agent) =>
+          !agent.cordoned &&
+          this.agentManager
+            .getInstalledModels(agent.id)
+            .includes(request.model) &&
+          matchesLabels(agent, requiredLabels)
+      );
+  }
+
+  rememberConversation(model: string, prefixKey: string, agentId: string) {
+    remember(
+      this.prefixAgents,
+      `${model}:${prefixKey}`,
+      agentId,
+      MAX_PREFIX_ENTRIES
+    );
+  }
+
+  observeRequest(record: RequestRecord): void {
+    if (
+      record.status !== "completed" ||
+      !record.agent_id ||
+      !record.internal_model ||
+      record.ttft_ms === null
+    ) {
+      return;
+    }
+
+    const generationMs = record.latency_ms - record.ttft_ms;
+    const tokensPerSecond =
+      record.completion_tokens && generationMs > 0
+        ? record.completion_tokens / (generationMs / 1000)
+        : null;
+
+    const key = `${record.agent_id}:${record.internal_model}`;
+    const stats = this.latencyStats.get(key);
+    if (!stats) {
+      this.latencyStats.set(key, { ttftMs: record.ttft_ms, tokensPerSecond });
+      return;
+    }
+
+    stats.ttftMs = smooth(stats.ttftMs, record.ttft_ms);
+    if (tokensPerSecond !== null) {
+      stats.tokensPerSecond =
+        stats.tokensPerSecond === null
+          ? tokensPerSecond
+          : smooth(stats.tokensPerSecond, tokensPerSecond);
+    }
+  }
+
+  /**
+   * Priority order:
+   * 1. Agent with the model loaded and a free sequence slot, most free
+   *    slots first
+   * 2. Agent with zero pending requests and model installed (but not loaded)
+   * 3. Agent with least pending requests and model loaded
+   * 4. Agent with least pending requests and model installed (but not loaded)
+   * In case of tie, use ID order
+   *
+   * Among cold loads, the ones that fit without unloading anything are
+   * preferred.
+   */
+  private leastPending(
+    candidates: Agent[],
+    request: RoutingRequest,
+    placements: Map<string, Placement>
+  ): Selection {
     // Sort agents by priority criteria
-    const sortedAgents = agentsWithModel.sort((a, b) => {
+    const sortedAgents = [...candidates].sort((a, b) => {
       const aPending = this.agentManager.getPendingRequests(a.id);
       const bPending = this.agentManager.getPendingRequests(b.id);
       const aLoaded = this.agentManager
@@ -71,10 +417,24 @@ export class LoadBalancingRouter implements RoutingService {
       const bLoaded = this.agentManager
         .getLoadedModels(b.id)
         .includes(request.model);
+      const aFree = this.agentManager.getFreeSlots(a.id, request.model);
+      const bFree = this.agentManager.getFreeSlots(b.id, request.model);
 
-      // 1. Agent with zero pending requests and model loaded
-      if (aPending === 0 && aLoaded && (bPending !== 0 || !bLoaded)) return -1;
-      if (bPending === 0 && bLoaded && (aPending !== 0 || !aLoaded)) return 1;
+      // 1. Agent with the model loaded and a free slot
+      if (aFree > 0 && bFree === 0) return -1;
+      if (bFree > 0 && aFree === 0) return 1;
+      if (aFree > 0 && bFree > 0) {
+        if (aFree !== bFree) return bFree - aFree;
+        if (aPending !== bPending) return aPending - bPending;
+        return a.id.localeCompare(b.id);
+      }
+
+      // Prefer cold loads that don't need to unload anything
+      const aPlacement = placements.get(a.id)!;
+      const bPlacement = placements.get(b.id)!;
+      if (!aLoaded && !bLoaded && aPlacement !== bPlacement) {
+        return PLACEMENT_RANK[aPlacement] - PLACEMENT_RANK[bPlacement];
+      }
 
       // 2. Agent with zero pending requests and model installed (but not loaded)
       if (aPending === 0 && !aLoaded && (bPending !== 0 || bLoaded)) return -1;
@@ -98,35 +458,299 @@ export class LoadBalancingRouter implements RoutingService {
       return a.id.localeCompare(b.id);
     });
 
-    this.logger.info("Sorted agents", {
-      sortedAgents: sortedAgents.map((a) => a.id),
-    });
-    const selectedAgent = sortedAgents[0];
+    return {
+      agent: sortedAgents[0]!,
+      detail: `ranked first of ${pluralize(sortedAgents.length, "agent")}`,
+    };
+  }
 
-    if (!selectedAgent) {
-      this.logger.noAvailableAgents(request.requestId);
-      return null;
+  private roundRobin(
+    candidates: Agent[],
+    request: RoutingRequest,
+    placements: Map<string, Placement>
+  ): Selection {
+    const pool = this.warmestCandidates(candidates, request.model, placements)
+      .slice()
+      .sort((a, b) => a.id.localeCompare(b.id));
+    const turn = this.roundRobinTurns.get(request.model) ?? 0;
+    this.roundRobinTurns.set(request.model, turn + 1);
+
+    const index = turn % pool.length;
+    return {
+      agent: pool[index]!,
+      detail: `turn ${index + 1} of ${pool.length}`,
+    };
+  }
+
+  /**
+   * Pick at random, weighted by the agent's slots for the model divided by
+   * its pending requests
+   */
+  private weightedRandom(
+    candidates: Agent[],
+    request: RoutingRequest,
+    placements: Map<string, Placement>
+  ): Selection {
+    const pool = this.warmestCandidates(candidates, request.model, placements);
+    const weights = pool.map(
+      (agent) =>
+        (agent.slots[request.model]?.total ?? 1) /
+        (this.agentManager.getPendingRequests(agent.id) + 1)
+    );
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let target = this.random() * totalWeight;
+    let index = 0;
+    while (index < pool.length - 1 && target >= weights[index]!) {
+      target -= weights[index]!;
+      index++;
+    }
+
+    const share = Math.round((weights[index]! / totalWeight) * 100);
+    return { agent: pool[index]!, detail: `drawn with ${share}% weight` };
+  }
+
+  /**
+   * Sample two agents at random and keep the less loaded one
+   */
+  private powerOfTwo(
+    candidates: Agent[],
+    request: RoutingRequest,
+    placements: Map<string, Placement>
+  ): Selection {
+    const pool = this.warmestCandidates(candidates, request.model, placements);
+    if (pool.length === 1) {
+      return { agent: pool[0]!, detail: "only candidate" };
     }
-    this.logger.info("Selected agent", { selectedAgent: selectedAgent.id });
 
-    const reason = ""; // TODO: generate reason
+    const first = Math.floor(this.random() * pool.length);
+    let second = Math.floor(this.random() * (pool.length - 1));
+    if (second >= first) second++;
+
+    const a = pool[first]!;
+    const b = pool[second]!;
+    const aPending = this.agentManager.getPendingRequests(a.id);
+    const bPending = this.agentManager.getPendingRequests(b.id);
+    const [winner, loser] =
+      aPending < bPending ||
+      (aPending === bPending &&
+        this.agentManager.getFreeSlots(a.id, request.model) >=
+          this.agentManager.getFreeSlots(b.id, request.model))
+        ? [a, b]
+        : [b, a];
 
-    this.logger.agentSelected(selectedAgent.id, request.requestId, reason);
+    return { agent: winner, detail: `less loaded than ${loser.id}` };
+  }
+
+  /**
+   * Pick the agent with the lowest estimated time for a reference
+   * completion, from observed time to first token and tokens/sec. Agents
+   * without samples go first so they get measured.
+   */
+  private lowestLatency(
+    candidates: Agent[],
+    request: RoutingRequest,
+    placements: Map<string, Placement>
+  ): Selection {
+    const pool = this.warmestCandidates(candidates, request.model, placements);
+
+    let best: { agent: Agent; estimateMs: number } | null = null;
+    for (const agent of pool) {
+      const stats = this.latencyStats.get(`${agent.id}:${request.model}`);
+      if (!stats) {
+        return { agent, detail: "no latency samples yet" };
+      }
+
+      const generationMs = stats.tokensPerSecond
+        ? (REFERENCE_COMPLETION_TOKENS / stats.tokensPerSecond) * 1000
+        : 0;
+      const capacity = agent.slots[request.model]?.total ?? 1;
+      const load =
+        1 + this.agentManager.getPendingRequests(agent.id) / capacity;
+      const estimateMs = (stats.ttftMs + generationMs) * load;
+
+      if (!best || estimateMs < best.estimateMs) {
+        best = { agent, estimateMs };
+      }
+    }
 
     return {
-      agent: selectedAgent,
-      reason,
+      agent: best!.agent,
+      detail: `lowest estimated latency (${Math.round(best!.estimateMs)}ms)`,
+    };
+  }
+
+  /**
+   * Keep a user's requests on the same agent while it has the model loaded,
+   * so its prompt cache is reused. New users go to the least pending agent.
+   */
+  private sticky(
+    candidates: Agent[],
+    request: RoutingRequest,
+    placements: Map<string, Placement>
+  ): Selection {
+    if (!request.user) {
+      const { agent } = this.leastPending(candidates, request, placements);
+      return { agent, detail: "no user given, least pending" };
+    }
+
+    const key = `${request.model}:${request.user}`;
+    const stickyId = this.stickyAgents.get(key);
+    const stickyAgent = candidates.find(
+      (agent) =>
+        agent.id === stickyId && agent.loadedModels.includes(request.model)
+    );
+
+    const agent =
+      stickyAgent ?? this.leastPending(candidates, request, placements).agent;
+
+    remember(this.stickyAgents, key, agent.id, MAX_STICKY_USERS);
+
+    return {
+      agent,
+      detail: stickyAgent
+        ? `sticky for user '${request.user}'`
+        : `new sticky agent for user '${request.user}'`,
     };
   }
 
+  /**
+   * The agent that served the previous turn of the conversation, if it can
+   * take the request right away. Its KV cache still holds the prefix.
+   */
+  private prefixAffinity(
+    candidates: Agent[],
+    request: RoutingRequest
+  ): Selection | null {
+    if (!request.prefixKey) return null;
+
+    const agentId = this.prefixAgents.get(
+      `${request.model}:${request.prefixKey}`
+    );
+    const agent = candidates.find((candidate) => candidate.id === agentId);
+    if (
+      !agent ||
+      this.agentManager.getFreeSlots(agent.id, request.model) === 0
+    ) {
+      return null;
+    }
+
+    return { agent, detail: "served the previous turn of this conversation" };
+  }
+
+  /**
+   * Narrow the candidates to the ones that can start soonest: agents with a
+   * free slot, then agents with the model loaded, then the least disruptive
+   * cold loads
+   */
+  private warmestCandidates(
+    candidates: Agent[],
+    model: string,
+    placements: Map<string, Placement>
+  ): Agent[] {
+    const withFreeSlot = candidates.filter(
+      (agent) => this.agentManager.getFreeSlots(agent.id, model) > 0
+    );
+    if (withFreeSlot.length > 0) return withFreeSlot;
+
+    const loaded = candidates.filter((agent) =>
+      agent.loadedModels.includes(model)
+    );
+    if (loaded.length > 0) return loaded;
+
+    const bestRank = Math.min(
+      ...candidates.map((agent) => PLACEMENT_RANK[placements.get(agent.id)!])
+    );
+    return candidates.filter(
+      (agent) => PLACEMENT_RANK[placements.get(agent.id)!] === bestRank
+    );
+  }
+
+  /**
+   * Whether the agent can take the request without it waiting behind
+   * others: a free slot for the model, or nothing in progress at all
+   */
+  private canStartNow(agent: Agent, model: string): boolean {
+    return (
+      this.agentManager.getFreeSlots(agent.id, model) > 0 ||
+      this.agentManager.getPendingRequests(agent.id) === 0
+    );
+  }
+
+  /**
+   * Compare the model's estimated footprint with the agent's reported free
+   * memory. Agents without telemetry are assumed to have room.
+   */
+  private getPlacement(agent: Agent, model: string): Placement {
+    if (agent.loadedModels.includes(model)) return "fits";
+
+    const telemetry = agent.telemetry;
+    const footprint = telemetry?.modelFootprints[model];
+    if (
+      !telemetry ||
+      footprint === undefined ||
+      telemetry.availableMemoryMb === null
+    ) {
+      return "fits";
+    }
+
+    if (footprint <= telemetry.availableMemoryMb) return "fits";
+
+    // Memory the agent could free by unloading models that aren't
+    // generating, unless its eviction policy or a pin keeps them loaded
+    const reclaimable = agent.loadedModels
+      .filter((loaded) => {
+        if (telemetry.evictionPolicy === "pinned") return false;
+        if (telemetry.pinnedModels.includes(loaded)) return false;
+        const slots = agent.slots[loaded];
+        return !slots || slots.free === slots.total;
+      })
+      .reduce(
+        (total, loaded) => total + (telemetry.modelFootprints[loaded] ?? 0),
+        0
+      );
+
+    return footprint <= telemetry.availableMemoryMb + reclaimable
+      ? "evicts_idle"
+      : "no_room";
+  }
+
+  /**
+   * Explain a routing decision: the strategy's own reasoning plus the state
+   * of the selected agent
+   */
   private generateSelectionReason(
     selectedAgent: Agent,
     allAgents: Agent[],
-    request: RoutingRequest
+    request: RoutingRequest,
+    strategy: RoutingStrategy,
+    detail: string,
+    placement: Placement
   ): string {
-    // This is a placeholder. A more sophisticated reason can be generated
-    // based on the sorting logic.
-    return `Agent ${selectedAgent.name} was selected.`;
+    const freeSlots = this.agentManager.getFreeSlots(
+      selectedAgent.id,
+      request.model
+    );
+    const pending = this.agentManager.getPendingRequests(selectedAgent.id);
+
+    let state: string;
+    if (selectedAgent.loadedModels.includes(request.model)) {
+      state =
+        freeSlots > 0
+          ? `model loaded with ${pluralize(freeSlots, "free slot")}`
+          : "model loaded, no free slot";
+    } else {
+      state =
+        placement === "evicts_idle"
+          ? "cold load, unloads idle models"
+          : "cold load";
+    }
+
+    return (
+      `${strategy}: ${detail}; ${selectedAgent.name} has ${state} and ` +
+      `${pluralize(pending, "pending request")} ` +
+      `(${pluralize(allAgents.length, "candidate")})`
+    );
   }
 
   getAvailableAgents(): Agent[] {
@@ -137,3 +761,25 @@ export class LoadBalancingRouter implements RoutingService {
     return this.agentManager.getPendingRequests(agentId);
   }
 }
+
+function smooth(average: number, sample: number): number {
+  return average + LATENCY_SMOOTHING * (sample - average);
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// Set a key in a bounded map, forgetting the least recently set keys first
+function remember(
+  map: Map<string, string>,
+  key: string,
+  value: string,
+  maxSize: number
+): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > maxSize) {
+    map.delete(map.keys().next().value!);
+  }
+}
@@ -0,0 +1,102 @@
+import type { Db, RequestRecord, UsageQuery, UsageRow } from "./db";
+import type { Logger } from "./logger";
+import type { RequestType } from "./agents";
+import type { AgentRPCService, RequestOutcome } from "./agent-rpc";
+import { toOpenAIUsage } from "./agent-rpc";
+
+export interface RequestInfo {
+  apiKeyId: string | null;
+  requestType: RequestType;
+  publicModel: string;
+}
+
+interface PendingRequest extends RequestInfo {
+  startedAt: number;
+}
+
+// Usage Service Interface
+export interface UsageService {
+  // Start timing a request; it is written to the log once it finishes
+  begin(requestId: string, info: RequestInfo): void;
+  onRequestRecorded(listener: (record: RequestRecord) => void): void;
+  getUsage(query: UsageQuery): UsageRow[];
+  getRequests(
+    query: Omit<UsageQuery, "groupBy" | "bucketMs">,
+    limit: number
+  ): RequestRecord[];
+}
+
+// Usage Service Implementation
+export class RequestUsageRecorder implements UsageService {
+  private pending: Map<string, PendingRequest> = new Map();
+  private recordListeners: Array<(record: RequestRecord) => void> = [];
+
+  constructor(
+    private db: Db,
+    private logger: Logger,
+    agentRPCService: AgentRPCService
+  ) {
+    agentRPCService.onRequestFinished((outcome) => this.record(outcome));
+  }
+
+  begin(requestId: string, info: RequestInfo): void {
+    this.pending.set(requestId, { ...info, startedAt: Date.now() });
+  }
+
+  onRequestRecorded(listener: (record: RequestRecord) => void): void {
+    this.recordListeners.push(listener);
+  }
+
+  getUsage(query: UsageQuery): UsageRow[] {
+    return this.db.getUsage(query);
+  }
+
+  getRequests(
+    query: Omit<UsageQuery, "groupBy" | "bucketMs">,
+    limit: number
+  ): RequestRecord[] {
+    return this.db.getRequestRecords(query, limit);
+  }
+
+  private record(outcome: RequestOutcome): void {
+    // Only the first outcome of a request counts
+    const request = this.pending.get(outcome.requestId);
+    if (!request) return;
+    this.pending.delete(outcome.requestId);
+
+    const now = Date.now();
+    const usage = outcome.usage ? toOpenAIUsage(outcome.usage) : undefined;
+    const record: RequestRecord = {
+      id: outcome.requestId,
+      api_key_id: request.apiKeyId,
+      request_type: request.requestType,
+      public_model: request.publicModel,
+      internal_model: outcome.model ?? null,
+      agent_id: outcome.agentId ?? null,
+      status: outcome.status,
+      error_code: outcome.errorCode ?? null,
+      latency_ms: now - request.startedAt,
+      ttft_ms:
+        outcome.firstTokenAt !== undefined
+          ? outcome.firstTokenAt - request.startedAt
+          : null,
+      prompt_tokens: usage?.prompt_tokens ?? null,
+      completion_tokens: usage?.completion_tokens ?? null,
+      total_tokens: usage?.total_tokens ?? null,
+      created_at: request.startedAt,
+    };
+
+    try {
+      this.db.addRequestRecord(record);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record request ${outcome.requestId}`,
+        error as Error
+      );
+    }
+
+    for (const listener of this.recordListeners) {
+      listener(record);
+    }
+  }
+}
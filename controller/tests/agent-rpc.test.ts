@@ -1,8 +1,9 @@
 import { test, expect, beforeEach, describe, mock } from "bun:test";
-import { AgentRPCService } from "../src/services/agent-rpc";
+import { AgentRPCService, AgentRequestError } from "../src/services/agent-rpc";
 import { AgentManager } from "../src/services/agents";
 import { PinoLogger } from "../src/services/logger";
 import type { Logger } from "../src/services/logger";
+import type { RoutingService } from "../src/services/routing";
 
 describe("AgentRPCService", () => {
   let agentManager: AgentManager;
@@ -38,6 +39,12 @@ describe("AgentRPCService", () => {
       resolveCompletionBuffer: mock(),
       rejectCompletionBuffer: mock(),
       addChunkToBuffer: mock(),
+      trackRequest: mock(),
+      untrackRequest: mock(),
+      markRequestStarted: mock(),
+      markFirstToken: mock(),
+      getInFlightRequest: mock(),
+      getAgentForRequest: mock(),
     } as unknown as AgentManager;
 
     // Mock RPC
@@ -107,6 +114,96 @@ describe("AgentRPCService", () => {
       );
     });
 
+    test("should send a usage chunk before [DONE] when include_usage is set", () => {
+      (agentManager.getStream as any).mockReturnValue(mockStreamController);
+      (agentManager.getInFlightRequest as any).mockReturnValue({
+        requestId: "req-123",
+        type: "chat",
+        params: { model: "model1", stream_options: { include_usage: true } },
+        publicModel: "public-model",
+        chunkId: "chatcmpl-abc",
+        started: true,
+        attempts: 1,
+      });
+
+      agentRPCService.handleReceiveCompletion({
+        requestId: "req-123",
+        data: "[DONE]",
+        usage: {
+          prompt_tokens: 5,
+          completion_tokens: 3,
+          thought_tokens: 2,
+          total_tokens: 10,
+        },
+      });
+
+      const calls = (mockStreamController.enqueue as any).mock.calls;
+      expect(calls.length).toBe(2);
+      const usageChunk = JSON.parse(
+        new TextDecoder().decode(calls[0][0]).slice("data: ".length)
+      );
+      expect(usageChunk.id).toBe("chatcmpl-abc");
+      expect(usageChunk.model).toBe("public-model");
+      expect(usageChunk.created).toBeLessThanOrEqual(Date.now() / 1000);
+      expect(usageChunk.choices).toEqual([]);
+      expect(usageChunk.usage).toEqual({
+        prompt_tokens: 5,
+        completion_tokens: 5,
+        total_tokens: 10,
+      });
+      expect(new TextDecoder().decode(calls[1][0])).toBe("data: [DONE]\n\n");
+    });
+
+    test("should resolve the completion buffer with chunks and usage", () => {
+      (agentManager.getStream as any).mockReturnValue(undefined);
+      (agentManager.getCompletionBuffer as any).mockReturnValue({
+        chunks: [{ text: "Hello" }],
+      });
+      const usage = { prompt_tokens: 2, completion_tokens: 1, total_tokens: 3 };
+
+      agentRPCService.handleReceiveCompletion({
+        requestId: "req-123",
+        data: "[DONE]",
+        usage,
+      });
+
+      expect(agentManager.resolveCompletionBuffer).toHaveBeenCalledWith(
+        "req-123",
+        { chunks: [{ text: "Hello" }], usage }
+      );
+    });
+
+    test("should remember which agent replied to a conversation", () => {
+      const routingService = {
+        rememberConversation: mock(),
+      } as unknown as RoutingService;
+      agentRPCService = new AgentRPCService(
+        agentManager,
+        logger,
+        routingService
+      );
+      (agentManager.getStream as any).mockReturnValue(undefined);
+      (agentManager.getCompletionBuffer as any).mockReturnValue({
+        chunks: [],
+      });
+      (agentManager.getInFlightRequest as any).mockReturnValue({
+        params: { model: "model1" },
+      });
+      (agentManager.getAgentForRequest as any).mockReturnValue("test-agent");
+
+      agentRPCService.handleReceiveCompletion({
+        requestId: "req-123",
+        data: "[DONE]",
+        prefixKey: "abc123",
+      });
+
+      expect(routingService.rememberConversation).toHaveBeenCalledWith(
+        "model1",
+        "abc123",
+        "test-agent"
+      );
+    });
+
     test("should handle missing streams gracefully (log warning)", () => {
       (agentManager.getStream as any).mockReturnValue(undefined);
       (agentManager.getCompletionBuffer as any).mockReturnValue(undefined);
@@ -142,6 +239,130 @@ describe("AgentRPCService", () => {
       expect(mockStreamController.error).toHaveBeenCalled();
       expect(agentManager.removeStream).toHaveBeenCalledWith("req-123");
     });
+
+    test("should report the outcome of a stream that can't be written", () => {
+      const outcomes: Array<[string, string | undefined]> = [];
+      agentRPCService.onRequestFinished((outcome) =>
+        outcomes.push([outcome.status, outcome.errorCode])
+      );
+      (agentManager.getStream as any).mockReturnValue(mockStreamController);
+      mockStreamController.enqueue.mockImplementationOnce(() => {
+        throw new Error("Stream error");
+      });
+      mockStreamController.enqueue.mockImplementationOnce(() => {
+        throw new TypeError("Invalid state: Controller is already closed");
+      });
+
+      agentRPCService.handleReceiveCompletion({
+        requestId: "req-123",
+        data: { text: "Hello" },
+      });
+      agentRPCService.handleReceiveCompletion({
+        requestId: "req-456",
+        data: { text: "Hello" },
+      });
+
+      expect(outcomes).toEqual([
+        ["failed", "stream_error"],
+        ["cancelled", "request_cancelled"],
+      ]);
+    });
+  });
+
+  describe("receiveError", () => {
+    test("should send error event and close the stream", () => {
+      (agentManager.getStream as any).mockReturnValue(mockStreamController);
+      (agentManager.unbindRequestFromAgent as any).mockReturnValue(
+        "test-agent"
+      );
+
+      agentRPCService.handleReceiveError({
+        agentId: "test-agent",
+        requestId: "req-123",
+        error: { message: "Boom", type: "inference_error" },
+      });
+
+      const callArgs = (mockStreamController.enqueue as any).mock.calls[0][0];
+      const decoded = new TextDecoder().decode(callArgs);
+      expect(decoded).toContain('"message":"Boom"');
+      expect(mockStreamController.close).toHaveBeenCalled();
+      expect(mockStreamController.error).not.toHaveBeenCalled();
+      expect(agentManager.removeStream).toHaveBeenCalledWith("req-123");
+      expect(agentManager.decrementPendingRequests).toHaveBeenCalledWith(
+        "test-agent"
+      );
+    });
+
+    test("should reject the completion buffer for non-streaming requests", () => {
+      (agentManager.getStream as any).mockReturnValue(undefined);
+      (agentManager.getCompletionBuffer as any).mockReturnValue({
+        chunks: [],
+      });
+      (agentManager.unbindRequestFromAgent as any).mockReturnValue(
+        "test-agent"
+      );
+
+      agentRPCService.handleReceiveError({
+        agentId: "test-agent",
+        requestId: "req-123",
+        error: { message: "Context overflow", type: "inference_error" },
+      });
+
+      const [requestId, error] = (agentManager.rejectCompletionBuffer as any)
+        .mock.calls[0];
+      expect(requestId).toBe("req-123");
+      expect(error).toBeInstanceOf(AgentRequestError);
+      expect(error.status).toBe(500);
+      expect(error.code).toBe("inference_error");
+      expect(agentManager.decrementPendingRequests).toHaveBeenCalledWith(
+        "test-agent"
+      );
+    });
+  });
+
+  describe("request outcomes", () => {
+    test("reports a timed-out non-streaming request once", async () => {
+      const outcomes: string[] = [];
+      agentRPCService.onRequestFinished((outcome) =>
+        outcomes.push(outcome.status)
+      );
+      (agentManager.getStream as any).mockReturnValue(undefined);
+      (agentManager.getCompletionBuffer as any).mockReturnValueOnce({
+        chunks: [],
+      });
+
+      agentRPCService.armDeadline("req-123", 10);
+      await Bun.sleep(30);
+
+      // The handler waiting on the buffer fails the request with its error
+      const [, error] = (agentManager.rejectCompletionBuffer as any).mock
+        .calls[0];
+      expect(error.code).toBe("request_timeout");
+      expect(agentRPCService.failRequest("req-123", error)).toBe(false);
+
+      expect(outcomes).toEqual(["timeout"]);
+    });
+
+    test("reports requests that fail before they are dispatched", () => {
+      const outcomes: string[] = [];
+      agentRPCService.onRequestFinished((outcome) =>
+        outcomes.push(outcome.errorCode!)
+      );
+      (agentManager.getStream as any).mockReturnValue(undefined);
+      (agentManager.getCompletionBuffer as any).mockReturnValue(undefined);
+
+      agentRPCService.failRequest(
+        "req-123",
+        new AgentRequestError(
+          "Queue is full",
+          "rate_limit_error",
+          "queue_full",
+          429
+        )
+      );
+
+      expect(outcomes).toEqual(["queue_full"]);
+    });
   });
 
   describe("completion / chat", () => {
@@ -215,6 +436,40 @@ describe("AgentRPCService", () => {
     });
   });
 
+  describe("handleDownloadProgress", () => {
+    const progress = {
+      filename: "model.gguf",
+      status: "downloading" as const,
+      downloaded: 512,
+      total: 1024,
+      percent: 50,
+      bytesPerSecond: 256,
+    };
+
+    test("should notify progress listeners", () => {
+      const listener = mock();
+      agentRPCService.onDownloadProgress(listener);
+
+      agentRPCService.handleDownloadProgress({
+        agentId: "agent-1",
+        ...progress,
+      });
+
+      expect(listener).toHaveBeenCalledWith("agent-1", progress);
+    });
+
+    test("should warn about failed downloads", () => {
+      agentRPCService.handleDownloadProgress({
+        agentId: "agent-1",
+        ...progress,
+        status: "failed",
+        error: "Checksum mismatch",
+      });
+
+      expect(logger.warn).toHaveBeenCalled();
+    });
+  });
+
   describe("Other methods", () => {
     test("listModels should update installed models", async () => {
       await agentRPCService.listModels({ agentId: "agent-1" });
@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createDummyAgent, closeAllTrackedTransports } from "./shared/setup";
+import type { ControllerFunctions } from "../src/rpc-types";
+import { createServerInstance } from "../src/module";
+
+describe("API keys", () => {
+  let server: any;
+  let container: any;
+  let API_URL: string;
+  let WS_URL: string;
+
+  const TEST_DB = `/tmp/test-api-keys-${crypto.randomUUID()}.db`;
+  const ADMIN_KEY = "admin-key";
+
+  async function createKey(body: Record<string, unknown>) {
+    const res = await fetch(`${API_URL}/management/keys`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${ADMIN_KEY}`,
+      },
+      body: JSON.stringify(body),
+    });
+    expect(res.status).toBe(201);
+    return (await res.json()) as any;
+  }
+
+  function chat(key: string | undefined, model = "test-model") {
+    return fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(key ? { Authorization: `Bearer ${key}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+  }
+
+  beforeAll(async () => {
+    const { server: srv, container: cont } = createServerInstance({
+      databasePath: TEST_DB,
+      port: 1538,
+      apiKey: ADMIN_KEY,
+      agentSecretKey: "",
+      logLevel: "error",
+    });
+
+    server = srv;
+    container = cont;
+
+    API_URL = `http://127.0.0.1:${server.port}`;
+    WS_URL = `ws://127.0.0.1:${server.port}/ws`;
+
+    for (const name of ["test-model", "other-model"]) {
+      await fetch(`${API_URL}/management/mappings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ public_name: name, filename: name }),
+      });
+    }
+
+    await createDummyAgent(
+      WS_URL,
+      "keys-agent",
+      "Keys Agent",
+      "test-model",
+      async (params, rpc) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        await controller.receiveCompletion({
+          agentId: "keys-agent",
+          requestId: params.requestId,
+          data: {
+            id: "chatcmpl-keys",
+            object: "chat.completion.chunk",
+            created: Date.now(),
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "Hello" }, finish_reason: null },
+            ],
+          },
+        });
+        await controller.receiveCompletion({
+          agentId: "keys-agent",
+          requestId: params.requestId,
+          data: "[DONE]",
+          usage: { prompt_tokens: 40, completion_tokens: 20, total_tokens: 60 },
+        });
+      }
+    );
+  });
+
+  afterAll(async () => {
+    closeAllTrackedTransports();
+    if (container) {
+      await container.shutdown();
+    }
+    if (server) server.stop();
+    try {
+      Bun.file(TEST_DB).delete();
+    } catch {}
+  });
+
+  test("requires the admin key to manage keys", async () => {
+    const res = await fetch(`${API_URL}/management/keys`, {
+      headers: { Authorization: "Bearer wrong" },
+    });
+    expect(res.status).toBe(401);
+  });
+
+  test("authenticates keys and restricts models", async () => {
+    const created = await createKey({
+      label: "team-a",
+      allowed_models: ["test-model"],
+    });
+    expect(created.key).toStartWith("pk-");
+
+    expect((await chat(created.key)).status).toBe(200);
+    expect((await chat(undefined)).status).toBe(401);
+    expect((await chat("pk-unknown")).status).toBe(401);
+
+    const forbidden = await chat(created.key, "other-model");
+    expect(forbidden.status).toBe(403);
+    expect(((await forbidden.json()) as any).error.code).toBe(
+      "model_not_allowed"
+    );
+
+    const models = await fetch(`${API_URL}/v1/models`, {
+      headers: { Authorization: `Bearer ${created.key}` },
+    });
+    const ids = ((await models.json()) as any).data.map((m: any) => m.id);
+    expect(ids).toEqual(["test-model"]);
+  });
+
+  test("enforces per-key request and token limits", async () => {
+    const limited = await createKey({
+      label: "team-b",
+      requests_per_minute: 1,
+    });
+    expect((await chat(limited.key)).status).toBe(200);
+    expect((await chat(limited.key)).status).toBe(429);
+
+    // Each request uses 60 tokens, so the second one exhausts the budget
+    const tokens = await createKey({ label: "team-c", tokens_per_minute: 100 });
+    expect((await chat(tokens.key)).status).toBe(200);
+    expect((await chat(tokens.key)).status).toBe(200);
+    const throttled = await chat(tokens.key);
+    expect(throttled.status).toBe(429);
+    expect(((await throttled.json()) as any).error.code).toBe(
+      "token_rate_limit_exceeded"
+    );
+
+    // Other keys are unaffected
+    const other = await createKey({ label: "team-d" });
+    expect((await chat(other.key)).status).toBe(200);
+  });
+
+  test("rejects expired, revoked and rotated keys", async () => {
+    const expired = await createKey({
+      label: "expired",
+      expires_at: Date.now() - 1000,
+    });
+    const res = await chat(expired.key);
+    expect(res.status).toBe(401);
+    expect(((await res.json()) as any).error.code).toBe("expired_api_key");
+
+    const rotating = await createKey({ label: "rotating" });
+    const rotateRes = await fetch(
+      `${API_URL}/management/keys/${rotating.id}/rotate`,
+      { method: "POST", headers: { Authorization: `Bearer ${ADMIN_KEY}` } }
+    );
+    const rotated = (await rotateRes.json()) as any;
+    expect(rotated.key).not.toBe(rotating.key);
+    expect((await chat(rotating.key)).status).toBe(401);
+    expect((await chat(rotated.key)).status).toBe(200);
+
+    const revokeRes = await fetch(`${API_URL}/management/keys/${rotating.id}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${ADMIN_KEY}` },
+    });
+    expect(revokeRes.status).toBe(200);
+    expect((await chat(rotated.key)).status).toBe(401);
+
+    const list = await fetch(`${API_URL}/management/keys`, {
+      headers: { Authorization: `Bearer ${ADMIN_KEY}` },
+    });
+    const keys = (await list.json()) as any[];
+    const revoked = keys.find((key) => key.id === rotating.id);
+    expect(revoked.revoked_at).not.toBeNull();
+    expect(revoked.key).toBeUndefined();
+  });
+
+  test("keeps accepting the admin key", async () => {
+    expect((await chat(ADMIN_KEY)).status).toBe(200);
+  });
+
+  test("rate limits clients without a database key per IP", async () => {
+    const listModels = (ip: string) =>
+      fetch(`${API_URL}/v1/models`, {
+        headers: {
+          Authorization: `Bearer ${ADMIN_KEY}`,
+          "X-Forwarded-For": ip,
+        },
+      });
+
+    for (let i = 0; i < 100; i++) {
+      expect((await listModels("10.0.0.1")).status).toBe(200);
+    }
+    expect((await listModels("10.0.0.1")).status).toBe(429);
+    expect((await listModels("10.0.0.2")).status).toBe(200);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  test,
+  expect,
+  beforeEach,
+  describe,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import {
+  DEFAULT_AUTOSCALER_OPTIONS,
+  ReplicaAutoscaler,
+} from "../src/services/autoscaler";
+import { AgentManager } from "../src/services/agents";
+import type { MappingsService } from "../src/services/mappings";
+import type { RequestQueue } from "../src/services/queue";
+import type { ReconcilerService } from "../src/services/reconciler";
+import type { UsageService } from "../src/services/usage";
+import type { Db, ModelMapping, RequestRecord } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("ReplicaAutoscaler", () => {
+  let agentManager: AgentManager;
+  let reconciler: ReconcilerService;
+  let queued: Record<string, number>;
+  let recordRequest: (record: RequestRecord) => void;
+  let autoscaler: ReplicaAutoscaler;
+
+  const mapping: ModelMapping = {
+    id: "mapping-1",
+    internal_name: "model1.gguf",
+    public_name: "model1",
+    created_at: 0,
+    timeout_ms: null,
+    routing_strategy: null,
+    required_labels: {},
+    preferred_labels: {},
+    min_agents: 1,
+    max_agents: 3,
+    download_url: null,
+  };
+
+  function addReplica(id: string, total: number, free: number) {
+    agentManager.addAgent(id, id);
+    agentManager.setInstalledModels(id, ["model1.gguf"]);
+    agentManager.setSlots(id, { "model1.gguf": { total, free } });
+  }
+
+  function create(options = {}) {
+    autoscaler = new ReplicaAutoscaler(
+      agentManager,
+      { getAllMappings: () => [mapping] } as unknown as MappingsService,
+      {
+        getStats: () => ({ byModel: queued }),
+      } as unknown as RequestQueue,
+      reconciler,
+      { info: mock(), warn: mock(), error: mock() } as unknown as Logger,
+      {
+        onRequestRecorded: (listener: (record: RequestRecord) => void) => {
+          recordRequest = listener;
+        },
+      } as unknown as UsageService,
+      { ...DEFAULT_AUTOSCALER_OPTIONS, intervalMs: 0, ...options }
+    );
+  }
+
+  beforeEach(() => {
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+    } as unknown as Db;
+    agentManager = new AgentManager(db, {
+      info: mock(),
+      warn: mock(),
+      debug: mock(),
+    } as unknown as Logger);
+    reconciler = {
+      setTarget: mock(),
+      reconcile: mock(),
+    } as unknown as ReconcilerService;
+    queued = {};
+    create();
+  });
+
+  test("adds a replica when sequences are saturated", () => {
+    addReplica("agent-a", 4, 0);
+
+    const [decision] = autoscaler.evaluate();
+
+    expect(decision).toMatchObject({ from: 1, to: 2, utilization: 1 });
+    expect(reconciler.setTarget).toHaveBeenCalledWith("model1", 2);
+    expect(reconciler.reconcile).toHaveBeenCalled();
+  });
+
+  test("adds a replica when requests queue or the first token is slow", () => {
+    addReplica("agent-a", 4, 4);
+    queued = { "model1.gguf": 3 };
+    expect(autoscaler.evaluate()).toHaveLength(1);
+
+    create();
+    queued = {};
+    recordRequest({
+      public_model: "model1",
+      status: "completed",
+      ttft_ms: 5000,
+    } as RequestRecord);
+    const [decision] = autoscaler.evaluate();
+    expect(decision!.reason).toContain("time to first token");
+  });
+
+  test("forgets old latency samples of models it doesn't scale", () => {
+    const record = {
+      public_model: "unscaled",
+      status: "completed",
+      ttft_ms: 100,
+    } as RequestRecord;
+
+    try {
+      setSystemTime(new Date("2026-01-01T00:00:00Z"));
+      recordRequest(record);
+      recordRequest(record);
+      setSystemTime(new Date("2026-01-01T00:05:00Z"));
+      recordRequest(record);
+
+      expect((autoscaler as any).latencies.get("unscaled")).toHaveLength(1);
+    } finally {
+      setSystemTime();
+    }
+  });
+
+  test("waits for the new replica and the cooldown before scaling again", () => {
+    addReplica("agent-a", 4, 0);
+    autoscaler.evaluate();
+    expect(autoscaler.evaluate()).toHaveLength(0);
+
+    addReplica("agent-b", 4, 0);
+    expect(autoscaler.evaluate()).toHaveLength(0);
+  });
+
+  test("removes a replica only after staying cold", async () => {
+    create({ scaleDownDelayMs: 20 });
+    addReplica("agent-a", 4, 4);
+    addReplica("agent-b", 4, 4);
+
+    expect(autoscaler.evaluate()).toHaveLength(0);
+    expect(autoscaler.getStatus().models[0]!.coldSince).not.toBeNull();
+
+    await Bun.sleep(30);
+    const [decision] = autoscaler.evaluate();
+    expect(decision).toMatchObject({ from: 2, to: 1 });
+  });
+
+  test("doesn't scale between the thresholds", async () => {
+    create({ scaleDownDelayMs: 0 });
+    addReplica("agent-a", 4, 0);
+    addReplica("agent-b", 4, 4);
+
+    expect(autoscaler.evaluate()).toHaveLength(0);
+    expect(autoscaler.getStatus().models[0]!.utilization).toBe(0.5);
+    expect(autoscaler.getStatus().decisions).toHaveLength(0);
+  });
+});
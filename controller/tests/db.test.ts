@@ -1,6 +1,6 @@
 import { test, expect, beforeEach, afterEach, describe } from "bun:test";
 import { BunDatabase } from "../src/services/db";
-import type { Db } from "../src/services/db";
+import type { Db, RequestRecord } from "../src/services/db";
 import { randomUUID } from "crypto";
 
 describe("BunDatabase - Agent registry operations", () => {
@@ -64,6 +64,22 @@ describe("BunDatabase - Agent registry operations", () => {
     expect(agents[0]!.id).toBe("agent-1");
     expect(agents[1]!.id).toBe("agent-2");
   });
+
+  test("should keep agents cordoned across registrations", () => {
+    db.registerAgent("agent-1", "Agent 1");
+    expect(db.setAgentCordoned("agent-1", true)).toBe(true);
+    const cordonedAt = db.getAgent("agent-1")!.cordoned_at;
+    expect(cordonedAt).not.toBeNull();
+
+    // Cordoning again keeps the original timestamp
+    db.setAgentCordoned("agent-1", true);
+    db.registerAgent("agent-1", "Agent 1");
+    expect(db.getAgent("agent-1")!.cordoned_at).toBe(cordonedAt);
+
+    db.setAgentCordoned("agent-1", false);
+    expect(db.getAgent("agent-1")!.cordoned_at).toBeNull();
+    expect(db.setAgentCordoned("missing", true)).toBe(false);
+  });
 });
 
 describe("BunDatabase - Model mapping operations", () => {
@@ -97,6 +113,54 @@ describe("BunDatabase - Model mapping operations", () => {
     expect(mapping!.public_name).toBe(publicName);
   });
 
+  test("should store per-model timeout", () => {
+    db.addModelMapping("model1.gguf", "model1", { timeoutMs: 30000 });
+    db.addModelMapping("model2.gguf", "model2");
+
+    expect(db.getModelMapping("model1")!.timeout_ms).toBe(30000);
+    expect(db.getModelMapping("model2")!.timeout_ms).toBeNull();
+  });
+
+  test("should store per-model desired agent counts", () => {
+    db.addModelMapping("model1.gguf", "model1", {
+      minAgents: 2,
+      maxAgents: 4,
+      downloadUrl: "https://example.com/model1.gguf",
+    });
+    db.addModelMapping("model2.gguf", "model2");
+
+    const mapping = db.getModelMapping("model1")!;
+    expect(mapping.min_agents).toBe(2);
+    expect(mapping.max_agents).toBe(4);
+    expect(mapping.download_url).toBe("https://example.com/model1.gguf");
+
+    const unmanaged = db.getModelMapping("model2")!;
+    expect(unmanaged.min_agents).toBe(0);
+    expect(unmanaged.max_agents).toBeNull();
+    expect(unmanaged.download_url).toBeNull();
+  });
+
+  test("should store per-model routing strategy", () => {
+    db.addModelMapping("model1.gguf", "model1", { routingStrategy: "sticky" });
+    db.addModelMapping("model2.gguf", "model2");
+
+    expect(db.getModelMapping("model1")!.routing_strategy).toBe("sticky");
+    expect(db.getModelMapping("model2")!.routing_strategy).toBeNull();
+  });
+
+  test("should store per-model label constraints", () => {
+    db.addModelMapping("model1.gguf", "model1", {
+      requiredLabels: { trust: "private" },
+      preferredLabels: { gpu: "a100" },
+    });
+    db.addModelMapping("model2.gguf", "model2");
+
+    const mapping = db.getModelMapping("model1")!;
+    expect(mapping.required_labels).toEqual({ trust: "private" });
+    expect(mapping.preferred_labels).toEqual({ gpu: "a100" });
+    expect(db.getModelMapping("model2")!.required_labels).toEqual({});
+  });
+
   test("should get all model mappings", () => {
     db.addModelMapping("model1.gguf", "model1");
     db.addModelMapping("model2.gguf", "model2");
@@ -158,3 +222,199 @@ describe("BunDatabase - Cleanup operations", () => {
     expect(agent).toBeNull();
   });
 });
+
+describe("BunDatabase - Required model operations", () => {
+  let db: Db;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = `./test-${randomUUID()}.db`;
+    db = new BunDatabase(testDbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    try {
+      Bun.file(testDbPath)?.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("should store and remove required models", () => {
+    db.addRequiredModel({
+      id: "dist-1",
+      model_url: "https://example.com/model1.gguf",
+      filename: "model1.gguf",
+      labels: { gpu: "a100" },
+      sha256: null,
+      size: 1024,
+      concurrency: 2,
+      public_name: "model-1",
+      created_at: 1000,
+    });
+
+    const models = db.getAllRequiredModels();
+    expect(models).toHaveLength(1);
+    expect(models[0]?.labels).toEqual({ gpu: "a100" });
+    expect(models[0]?.size).toBe(1024);
+    expect(models[0]?.public_name).toBe("model-1");
+
+    expect(db.removeRequiredModel("dist-1")).toBe(true);
+    expect(db.getAllRequiredModels()).toHaveLength(0);
+    expect(db.removeRequiredModel("dist-1")).toBe(false);
+  });
+});
+
+describe("BunDatabase - API key operations", () => {
+  let db: Db;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = `./test-${randomUUID()}.db`;
+    db = new BunDatabase(testDbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    try {
+      Bun.file(testDbPath)?.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("should add and retrieve API key by id and hash", () => {
+    const id = db.addApiKey("hash-1", "pk-abc", {
+      label: "team-a",
+      allowedModels: ["model1"],
+      requestsPerMinute: 10,
+      tokensPerMinute: 1000,
+      priority: "high",
+    });
+
+    const apiKey = db.getApiKey(id);
+    expect(apiKey!.label).toBe("team-a");
+    expect(apiKey!.allowed_models).toEqual(["model1"]);
+    expect(apiKey!.requests_per_minute).toBe(10);
+    expect(apiKey!.tokens_per_minute).toBe(1000);
+    expect(apiKey!.priority).toBe("high");
+    expect(apiKey!.expires_at).toBeNull();
+    expect(apiKey!.revoked_at).toBeNull();
+    expect(db.getApiKeyByHash("hash-1")!.id).toBe(id);
+    expect(db.getApiKeyByHash("unknown")).toBeNull();
+  });
+
+  test("should revoke API key only once", () => {
+    const id = db.addApiKey("hash-1", "pk-abc", { label: "team-a" });
+
+    expect(db.revokeApiKey(id)).toBe(true);
+    expect(db.revokeApiKey(id)).toBe(false);
+    expect(db.getApiKey(id)!.revoked_at).not.toBeNull();
+  });
+
+  test("should rotate API key hash", () => {
+    const id = db.addApiKey("hash-1", "pk-abc", { label: "team-a" });
+
+    expect(db.rotateApiKey(id, "hash-2", "pk-def")).toBe(true);
+    expect(db.getApiKeyByHash("hash-1")).toBeNull();
+    expect(db.getApiKeyByHash("hash-2")!.key_prefix).toBe("pk-def");
+
+    db.revokeApiKey(id);
+    expect(db.rotateApiKey(id, "hash-3", "pk-ghi")).toBe(false);
+  });
+});
+
+describe("BunDatabase - Request log operations", () => {
+  let db: Db;
+  let testDbPath: string;
+
+  function record(overrides: Partial<RequestRecord>): RequestRecord {
+    return {
+      id: randomUUID(),
+      api_key_id: "key-a",
+      request_type: "chat",
+      public_model: "model1",
+      internal_model: "model1.gguf",
+      agent_id: "agent-1",
+      status: "completed",
+      error_code: null,
+      latency_ms: 100,
+      ttft_ms: 20,
+      prompt_tokens: 10,
+      completion_tokens: 5,
+      total_tokens: 15,
+      created_at: 1_000,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    testDbPath = `./test-${randomUUID()}.db`;
+    db = new BunDatabase(testDbPath);
+  });
+
+  afterEach(() => {
+    db.close();
+    try {
+      Bun.file(testDbPath)?.delete();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  test("should aggregate usage by key and time bucket", () => {
+    db.addRequestRecord(record({ created_at: 1_000 }));
+    db.addRequestRecord(record({ created_at: 2_000, latency_ms: 300 }));
+    db.addRequestRecord(record({ created_at: 61_000 }));
+    db.addRequestRecord(
+      record({
+        api_key_id: "key-b",
+        status: "failed",
+        error_code: "agent_error",
+        ttft_ms: null,
+        prompt_tokens: null,
+        completion_tokens: null,
+        total_tokens: null,
+      })
+    );
+
+    const byKey = db.getUsage({ groupBy: ["key"] });
+    expect(byKey).toHaveLength(2);
+    expect(byKey[0]).toMatchObject({
+      api_key_id: "key-a",
+      requests: 3,
+      errors: 0,
+      total_tokens: 45,
+      avg_latency_ms: 167,
+      avg_ttft_ms: 20,
+    });
+    expect(byKey[1]).toMatchObject({
+      api_key_id: "key-b",
+      requests: 1,
+      errors: 1,
+      total_tokens: 0,
+      avg_ttft_ms: null,
+    });
+
+    const byTime = db.getUsage({
+      groupBy: ["time"],
+      bucketMs: 60_000,
+      apiKeyId: "key-a",
+    });
+    expect(byTime.map((row) => [row.bucket_start, row.requests])).toEqual([
+      [0, 2],
+      [60_000, 1],
+    ]);
+  });
+
+  test("should list recent requests with filters", () => {
+    db.addRequestRecord(record({ id: "old", created_at: 1_000 }));
+    db.addRequestRecord(record({ id: "new", created_at: 5_000 }));
+    db.addRequestRecord(record({ id: "other", agent_id: "agent-2" }));
+
+    const records = db.getRequestRecords({ agentId: "agent-1" }, 10);
+    expect(records.map((r) => r.id)).toEqual(["new", "old"]);
+    expect(db.getRequestRecords({ since: 2_000 }, 10)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,214 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import { ModelDistributor } from "../src/services/distribution";
+import { AgentManager } from "../src/services/agents";
+import type {
+  DownloadJob,
+  DownloadRequest,
+  DownloadService,
+} from "../src/services/downloads";
+import type { Db, RequiredModel } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("ModelDistributor", () => {
+  let logger: Logger;
+  let agentManager: AgentManager;
+  let downloadService: DownloadService;
+  let db: Db;
+  let requiredModels: RequiredModel[];
+  let started: DownloadRequest[];
+  let finish: Map<string, (status: "done" | "failed") => void>;
+
+  const request = {
+    modelUrl: "https://example.com/model1.gguf",
+    filename: "model1.gguf",
+  };
+
+  function createDistributor(): ModelDistributor {
+    return new ModelDistributor(agentManager, downloadService, db, logger);
+  }
+
+  beforeEach(() => {
+    logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+    } as unknown as Logger;
+    requiredModels = [];
+    started = [];
+    finish = new Map();
+
+    db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+      addRequiredModel: mock((model: RequiredModel) => {
+        requiredModels.push(model);
+      }),
+      getAllRequiredModels: mock(() => requiredModels),
+      removeRequiredModel: mock((id: string) => {
+        requiredModels = requiredModels.filter((model) => model.id !== id);
+        return true;
+      }),
+    } as unknown as Db;
+
+    const waiters = new Map<string, Promise<DownloadJob>>();
+    downloadService = {
+      start: mock((download: DownloadRequest) => {
+        started.push(download);
+        const id = `job-${started.length}`;
+        waiters.set(
+          id,
+          new Promise((resolve) => {
+            finish.set(download.agentId, (status) =>
+              resolve({ id, status, error: "Checksum mismatch" } as DownloadJob)
+            );
+          })
+        );
+        return { id } as DownloadJob;
+      }),
+      waitFor: mock((id: string) => waiters.get(id)!),
+      cancel: mock(async () => null),
+    } as unknown as DownloadService;
+
+    agentManager = new AgentManager(
+      { registerAgent: mock(), getAgent: mock(() => null) } as unknown as Db,
+      logger
+    );
+    agentManager.addAgent("agent-a", "agent-a", { gpu: "a100" });
+    agentManager.addAgent("agent-b", "agent-b", { gpu: "a100" });
+    agentManager.addAgent("agent-c", "agent-c", { gpu: "t4" });
+  });
+
+  test("downloads onto matching agents only", () => {
+    const distribution = createDistributor().distribute({
+      ...request,
+      labels: { gpu: "a100" },
+    });
+
+    expect(distribution.agents.map((target) => target.agentId)).toEqual([
+      "agent-a",
+      "agent-b",
+    ]);
+    expect(started.map((download) => download.agentId)).toEqual([
+      "agent-a",
+      "agent-b",
+    ]);
+    expect(distribution.status).toBe("running");
+  });
+
+  test("skips agents that already have the file", () => {
+    agentManager.setInstalledModels("agent-a", ["model1.gguf"]);
+
+    const distribution = createDistributor().distribute({
+      ...request,
+      labels: null,
+    });
+
+    expect(distribution.agents[0]?.status).toBe("installed");
+    expect(started.map((download) => download.agentId)).toEqual([
+      "agent-b",
+      "agent-c",
+    ]);
+  });
+
+  test("limits how many agents download at once", async () => {
+    const distribution = createDistributor().distribute({
+      ...request,
+      labels: null,
+      concurrency: 1,
+    });
+    expect(started).toHaveLength(1);
+
+    finish.get("agent-a")!("done");
+    await Bun.sleep(0);
+
+    expect(distribution.agents[0]?.status).toBe("installed");
+    expect(started.map((download) => download.agentId)).toEqual([
+      "agent-a",
+      "agent-b",
+    ]);
+  });
+
+  test("retries failed downloads", async () => {
+    const distribution = createDistributor().distribute({
+      ...request,
+      labels: { gpu: "t4" },
+    });
+
+    finish.get("agent-c")!("failed");
+    await Bun.sleep(0);
+
+    const target = distribution.agents[0]!;
+    expect(target.status).toBe("pending");
+    expect(target.attempts).toBe(1);
+    expect(target.error).toBe("Checksum mismatch");
+  });
+
+  test("sends required models to agents that connect later", async () => {
+    const distribution = createDistributor().distribute({
+      ...request,
+      labels: { gpu: "t4" },
+      required: true,
+    });
+    expect(requiredModels).toHaveLength(1);
+
+    agentManager.addAgent("agent-d", "agent-d", { gpu: "t4" });
+    // Catching up waits for the connection to be set up
+    await Bun.sleep(1);
+
+    expect(distribution.agents.map((target) => target.agentId)).toEqual([
+      "agent-c",
+      "agent-d",
+    ]);
+    expect(started.map((download) => download.agentId)).toContain("agent-d");
+  });
+
+  test("restores required models at startup", async () => {
+    requiredModels.push({
+      id: "dist-1",
+      model_url: request.modelUrl,
+      filename: request.filename,
+      labels: null,
+      sha256: null,
+      size: null,
+      concurrency: 2,
+      public_name: "model",
+      created_at: 1000,
+    });
+    const distributor = createDistributor();
+
+    agentManager.addAgent("agent-d", "agent-d");
+    await Bun.sleep(1);
+
+    expect(distributor.getDistribution("dist-1")?.agents).toHaveLength(1);
+    expect(started[0]?.agentId).toBe("agent-d");
+    expect(downloadService.start).toHaveBeenCalledWith(
+      expect.objectContaining({ publicName: "model" })
+    );
+  });
+
+  test("cancels downloads and stops requiring the model", async () => {
+    const distributor = createDistributor();
+    const distribution = distributor.distribute({
+      ...request,
+      labels: null,
+      required: true,
+      concurrency: 1,
+    });
+
+    await distributor.cancel(distribution.id);
+
+    expect(downloadService.cancel).toHaveBeenCalledWith("job-1");
+    expect(requiredModels).toHaveLength(0);
+    expect(distribution.status).toBe("cancelled");
+    expect(
+      distribution.agents.every((target) => target.status === "cancelled")
+    ).toBe(true);
+  });
+
+  test("returns null for unknown distributions", async () => {
+    const distributor = createDistributor();
+    expect(await distributor.cancel("missing")).toBeNull();
+    expect(distributor.getDistribution("missing")).toBeNull();
+  });
+});
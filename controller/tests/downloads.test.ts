@@ -0,0 +1,200 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import { DownloadJobs } from "../src/services/downloads";
+import { AgentManager } from "../src/services/agents";
+import type { AgentRPCService } from "../src/services/agent-rpc";
+import type { MappingsService } from "../src/services/mappings";
+import type { Db, RequiredModel } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+import type { DownloadProgress } from "../src/rpc-types";
+
+describe("DownloadJobs", () => {
+  let agentManager: AgentManager;
+  let agentRPCService: AgentRPCService;
+  let mappingsService: MappingsService;
+  let reportProgress: (agentId: string, progress: DownloadProgress) => void;
+  let finishDownload: () => void;
+  let failDownload: (error: Error) => void;
+  let downloads: DownloadJobs;
+  let requiredModels: RequiredModel[];
+
+  const request = {
+    agentId: "agent-a",
+    url: "https://example.com/model1.gguf",
+    filename: "model1.gguf",
+  };
+
+  beforeEach(() => {
+    const logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+    } as unknown as Logger;
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+      getAllRequiredModels: mock(() => requiredModels),
+    } as unknown as Db;
+    requiredModels = [];
+    agentRPCService = {
+      downloadModel: mock(
+        () =>
+          new Promise((resolve, reject) => {
+            finishDownload = () => resolve({ filename: "model1.gguf" });
+            failDownload = reject;
+          })
+      ),
+      cancelDownload: mock(async () => {
+        failDownload(new Error("Download of model1.gguf cancelled"));
+        return true;
+      }),
+      onDownloadProgress: mock((listener) => {
+        reportProgress = listener;
+      }),
+    } as unknown as AgentRPCService;
+
+    mappingsService = {
+      getMapping: mock(() => null),
+      addMapping: mock(() => "mapping-1"),
+      getAllMappings: mock(() => [{ internal_name: "mapped.gguf" }]),
+    } as unknown as MappingsService;
+
+    agentManager = new AgentManager(db, logger);
+    agentManager.addAgent("agent-a", "agent-a");
+    downloads = new DownloadJobs(
+      agentRPCService,
+      mappingsService,
+      logger,
+      agentManager,
+      db
+    );
+  });
+
+  test("tracks progress until the download is done", async () => {
+    const job = downloads.start(request);
+    expect(job.status).toBe("queued");
+
+    reportProgress("agent-a", {
+      filename: "model1.gguf",
+      status: "downloading",
+      downloaded: 512,
+      total: 1024,
+      percent: 50,
+      bytesPerSecond: 128,
+    });
+    expect(downloads.getJob(job.id)?.status).toBe("downloading");
+    expect(downloads.getJob(job.id)?.downloaded).toBe(512);
+
+    finishDownload();
+    const finished = await downloads.waitFor(job.id);
+    expect(finished?.status).toBe("done");
+    expect(finished?.downloaded).toBe(1024);
+  });
+
+  test("maps the downloaded file to its public name", async () => {
+    const job = downloads.start({
+      ...request,
+      url: "hf:owner/repo:Q4_K_M",
+      publicName: "model1",
+    });
+
+    finishDownload();
+    await downloads.waitFor(job.id);
+
+    expect(mappingsService.addMapping).toHaveBeenCalledWith(
+      "model1.gguf",
+      "model1"
+    );
+  });
+
+  test("offers agents that have the file as peers", () => {
+    agentManager.addAgent("agent-b", "agent-b", {}, "http://10.0.0.2:4090");
+    agentManager.setInstalledModels("agent-b", ["model1.gguf"]);
+    agentManager.addAgent("agent-c", "agent-c", {}, "http://10.0.0.3:4090");
+    agentManager.addAgent("agent-d", "agent-d");
+    agentManager.setInstalledModels("agent-d", ["model1.gguf"]);
+
+    const job = downloads.start(request);
+
+    expect(job.peers).toEqual(["http://10.0.0.2:4090"]);
+    expect(agentRPCService.downloadModel).toHaveBeenCalledWith(
+      expect.objectContaining({ peers: ["http://10.0.0.2:4090"] })
+    );
+  });
+
+  test("lets the agent collect unmapped models when asked", () => {
+    agentManager.setInstalledModels("agent-a", ["mapped.gguf", "old.gguf"]);
+
+    expect(downloads.start(request).collectable).toEqual([]);
+
+    const job = downloads.start({
+      ...request,
+      filename: "model2.gguf",
+      gc: true,
+    });
+    expect(job.collectable).toEqual(["old.gguf"]);
+  });
+
+  test("keeps models required on the agent out of collection", () => {
+    agentManager.addAgent("agent-b", "agent-b", { region: "eu" });
+    agentManager.setInstalledModels("agent-b", [
+      "everywhere.gguf",
+      "eu.gguf",
+      "us.gguf",
+    ]);
+    requiredModels = [
+      { filename: "everywhere.gguf", labels: null },
+      { filename: "eu.gguf", labels: { region: "eu" } },
+      { filename: "us.gguf", labels: { region: "us" } },
+    ] as RequiredModel[];
+
+    const job = downloads.start({
+      ...request,
+      agentId: "agent-b",
+      gc: true,
+    });
+    expect(job.collectable).toEqual(["us.gguf"]);
+  });
+
+  test("returns the running job for the same file", () => {
+    const job = downloads.start(request);
+    expect(downloads.start(request).id).toBe(job.id);
+    expect(agentRPCService.downloadModel).toHaveBeenCalledTimes(1);
+  });
+
+  test("records failures", async () => {
+    const job = downloads.start(request);
+    failDownload(new Error("Checksum mismatch"));
+
+    const finished = await downloads.waitFor(job.id);
+    expect(finished?.status).toBe("failed");
+    expect(finished?.error).toBe("Checksum mismatch");
+  });
+
+  test("cancels the download on the agent", async () => {
+    const job = downloads.start(request);
+
+    await downloads.cancel(job.id);
+
+    expect(agentRPCService.cancelDownload).toHaveBeenCalledWith({
+      agentId: "agent-a",
+      filename: "model1.gguf",
+    });
+    await Bun.sleep(0);
+    expect(downloads.getJob(job.id)?.status).toBe("cancelled");
+  });
+
+  test("fails downloads of agents that disconnect", async () => {
+    const job = downloads.start(request);
+
+    agentManager.removeAgent("agent-a");
+
+    expect(downloads.getJob(job.id)?.status).toBe("failed");
+    expect(downloads.getJob(job.id)?.error).toBe("Agent disconnected");
+  });
+
+  test("returns null for unknown jobs", async () => {
+    expect(await downloads.cancel("missing")).toBeNull();
+    expect(downloads.getJob("missing")).toBeNull();
+  });
+});
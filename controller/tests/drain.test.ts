@@ -0,0 +1,76 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import { AgentDrainer } from "../src/services/drain";
+import { AgentManager } from "../src/services/agents";
+import type { AgentRPCService } from "../src/services/agent-rpc";
+import type { Db } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("AgentDrainer", () => {
+  let agentManager: AgentManager;
+  let agentRPCService: AgentRPCService;
+  let drainer: AgentDrainer;
+
+  beforeEach(() => {
+    const logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+    } as unknown as Logger;
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+      setAgentCordoned: mock(() => false),
+    } as unknown as Db;
+    agentRPCService = {
+      unloadModels: mock(async () => {}),
+      exitAgent: mock(async () => {}),
+    } as unknown as AgentRPCService;
+
+    agentManager = new AgentManager(db, logger);
+    agentManager.addAgent("agent-a", "agent-a");
+    drainer = new AgentDrainer(agentManager, agentRPCService, logger);
+  });
+
+  test("runs the action once in-flight requests finish", async () => {
+    agentManager.incrementPendingRequests("agent-a");
+
+    const drain = drainer.drain("agent-a", "unload");
+    expect(drain?.status).toBe("draining");
+    expect(agentManager.getAgent("agent-a")?.cordoned).toBe(true);
+    expect(agentRPCService.unloadModels).not.toHaveBeenCalled();
+
+    agentManager.decrementPendingRequests("agent-a");
+    await Bun.sleep(0);
+
+    expect(agentRPCService.unloadModels).toHaveBeenCalledTimes(1);
+    expect(drainer.getDrain("agent-a")?.status).toBe("drained");
+  });
+
+  test("records failed actions", async () => {
+    agentRPCService.exitAgent = mock(async () => {
+      throw new Error("gone");
+    });
+
+    drainer.drain("agent-a", "exit");
+    await Bun.sleep(0);
+
+    const drain = drainer.getDrain("agent-a");
+    expect(drain?.status).toBe("failed");
+    expect(drain?.error).toBe("gone");
+  });
+
+  test("is cancelled when the agent is uncordoned", () => {
+    agentManager.incrementPendingRequests("agent-a");
+    drainer.drain("agent-a", "exit");
+
+    agentManager.setCordoned("agent-a", false);
+
+    expect(drainer.getDrain("agent-a")?.status).toBe("cancelled");
+    expect(agentRPCService.exitAgent).not.toHaveBeenCalled();
+  });
+
+  test("ignores unknown agents", () => {
+    expect(drainer.drain("missing", "none")).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from "bun:test";
+import type { RPC, WebSocketTransport } from "@piercer/rpc";
+import {
+  createDummyAgent,
+  closeAllTrackedTransports,
+  parseSSEStream,
+} from "./shared/setup";
+import type { ControllerFunctions } from "../src/rpc-types";
+import { createServerInstance } from "../src/module";
+
+describe("Failover on agent disconnect", () => {
+  let server: any;
+  let container: any;
+  let API_URL: string;
+  let WS_URL: string;
+
+  // Generate unique test database path for isolation
+  const TEST_DB = `/tmp/test-failover-${crypto.randomUUID()}.db`;
+
+  function chunk(content: string) {
+    return {
+      id: "chatcmpl-failover",
+      object: "chat.completion.chunk",
+      created: Date.now(),
+      model: "test-model",
+      choices: [{ index: 0, delta: { content }, finish_reason: null }],
+    };
+  }
+
+  // Agent that answers every request with "Hello World!"
+  async function createHealthyAgent(agentId: string) {
+    return createDummyAgent(
+      WS_URL,
+      agentId,
+      agentId,
+      "test-model",
+      async (params, rpc: RPC<any>) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        for (const content of ["Hello", " World!"]) {
+          await controller.receiveCompletion({
+            agentId,
+            requestId: params.requestId,
+            data: chunk(content),
+          });
+        }
+        await controller.receiveCompletion({
+          agentId,
+          requestId: params.requestId,
+          data: "[DONE]",
+        });
+      }
+    );
+  }
+
+  // Agent that optionally sends some chunks, then drops its connection
+  async function createFlakyAgent(agentId: string, chunksBeforeDrop: string[]) {
+    let transport: WebSocketTransport | undefined;
+    const agent = await createDummyAgent(
+      WS_URL,
+      agentId,
+      agentId,
+      "test-model",
+      async (params, rpc: RPC<any>) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        for (const content of chunksBeforeDrop) {
+          await controller.receiveCompletion({
+            agentId,
+            requestId: params.requestId,
+            data: chunk(content),
+          });
+        }
+        transport?.close();
+      }
+    );
+    transport = agent.transport;
+    return agent;
+  }
+
+  beforeAll(async () => {
+    const { server: srv, container: cont } = createServerInstance({
+      databasePath: TEST_DB,
+      port: 1536,
+      apiKey: "",
+      agentSecretKey: "",
+      logLevel: "error",
+    });
+
+    server = srv;
+    container = cont;
+
+    API_URL = `http://127.0.0.1:${server.port}`;
+    WS_URL = `ws://127.0.0.1:${server.port}/ws`;
+
+    await fetch(`${API_URL}/management/mappings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        public_name: "test-model",
+        filename: "test-model",
+      }),
+    });
+  });
+
+  afterEach(async () => {
+    closeAllTrackedTransports();
+
+    // Wait for the controller to process the disconnects
+    for (let i = 0; i < 50; i++) {
+      const res = await fetch(`${API_URL}/management/agents`);
+      if (((await res.json()) as any[]).length === 0) break;
+      await new Promise((r) => setTimeout(r, 20));
+    }
+  });
+
+  afterAll(async () => {
+    closeAllTrackedTransports();
+    if (container) {
+      await container.shutdown();
+    }
+    if (server) server.stop();
+    try {
+      Bun.file(TEST_DB).delete();
+    } catch {}
+  });
+
+  test("retries a request that has not produced tokens on another agent", async () => {
+    // Ties are broken by agent ID, so the flaky agent is picked first
+    await createFlakyAgent("agent-a-flaky", []);
+    await createHealthyAgent("agent-b-healthy");
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as any;
+    expect(body.choices[0].message.content).toBe("Hello World!");
+  });
+
+  test("ends a stream that already sent data with an error chunk", async () => {
+    await createFlakyAgent("agent-a-flaky-stream", ["Hel"]);
+    await createHealthyAgent("agent-b-healthy-stream");
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+        stream: true,
+      }),
+    });
+
+    const chunks = await parseSSEStream(res);
+    expect(chunks.length).toBe(2);
+    expect(chunks[0].choices[0].delta.content).toBe("Hel");
+    expect(chunks[1].error.code).toBe("agent_disconnected");
+  });
+
+  test("fails the request when no other agent is available", async () => {
+    await createFlakyAgent("agent-lonely", []);
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(503);
+    const body = (await res.json()) as any;
+    expect(body.error.code).toBe("no_available_agents");
+  });
+});
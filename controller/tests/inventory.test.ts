@@ -0,0 +1,162 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createDummyAgent, closeAllTrackedTransports } from "./shared/setup";
+import type { ControllerFunctions, InstalledModel } from "../src/rpc-types";
+import { createServerInstance } from "../src/module";
+
+describe("Model inventory", () => {
+  let server: any;
+  let container: any;
+  let API_URL: string;
+  let WS_URL: string;
+
+  const TEST_DB = `/tmp/test-inventory-${crypto.randomUUID()}.db`;
+
+  const llama: InstalledModel = {
+    filename: "llama.gguf",
+    sizeBytes: 4_920_000_000,
+    architecture: "llama",
+    parameterCount: 8_030_000_000,
+    quantization: "Q4_K_M",
+    contextLength: 131072,
+    chatTemplate:
+      "{% for message in messages %}{{ message.content }}{% endfor %}",
+  };
+
+  async function listModels() {
+    const res = await fetch(`${API_URL}/management/models`);
+    expect(res.status).toBe(200);
+    return (await res.json()) as any[];
+  }
+
+  beforeAll(async () => {
+    const { server: srv, container: cont } = createServerInstance({
+      databasePath: TEST_DB,
+      port: 1541,
+      agentSecretKey: "",
+      logLevel: "error",
+    });
+
+    server = srv;
+    container = cont;
+
+    API_URL = `http://127.0.0.1:${server.port}`;
+    WS_URL = `ws://127.0.0.1:${server.port}/ws`;
+
+    for (const [publicName, filename] of [
+      ["llama-3", "llama.gguf"],
+      ["missing", "missing.gguf"],
+    ]) {
+      await fetch(`${API_URL}/management/mappings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ public_name: publicName, filename }),
+      });
+    }
+
+    const described = await createDummyAgent(
+      WS_URL,
+      "inventory-a",
+      "Inventory A",
+      "llama.gguf,qwen.gguf",
+      async () => {}
+    );
+    await described.rpc.remote<ControllerFunctions>().updateModels({
+      agentId: "inventory-a",
+      models: ["llama.gguf", "qwen.gguf"],
+      inventory: [llama],
+    });
+
+    // An agent that predates inventories only reports filenames
+    await createDummyAgent(
+      WS_URL,
+      "inventory-b",
+      "Inventory B",
+      "llama.gguf",
+      async () => {}
+    );
+  });
+
+  afterAll(async () => {
+    closeAllTrackedTransports();
+    if (container) {
+      await container.shutdown();
+    }
+    if (server) server.stop();
+    try {
+      Bun.file(TEST_DB).delete();
+    } catch {}
+  });
+
+  test("lists installed models with their metadata and agents", async () => {
+    const models = await listModels();
+    const byFilename = Object.fromEntries(
+      models.map((model) => [model.filename, model])
+    );
+
+    expect(byFilename["llama.gguf"]).toEqual({
+      ...llama,
+      agents: ["inventory-a", "inventory-b"],
+      publicNames: ["llama-3"],
+    });
+    expect(byFilename["qwen.gguf"]).toEqual({
+      filename: "qwen.gguf",
+      agents: ["inventory-a"],
+      publicNames: [],
+      sizeBytes: null,
+      architecture: null,
+      parameterCount: null,
+      quantization: null,
+      contextLength: null,
+      chatTemplate: null,
+    });
+  });
+
+  test("adds the metadata to /v1/models", async () => {
+    const res = await fetch(`${API_URL}/v1/models`);
+    const data = ((await res.json()) as any).data;
+    const byId = Object.fromEntries(
+      data.map((model: any) => [model.id, model])
+    );
+
+    expect(byId["llama-3"]).toMatchObject({
+      context_length: 131072,
+      architecture: "llama",
+      parameters: 8_030_000_000,
+      quantization: "Q4_K_M",
+      size_bytes: 4_920_000_000,
+    });
+    expect(byId["missing"].context_length).toBeUndefined();
+    expect(byId["missing"].architecture).toBeUndefined();
+  });
+
+  test("answers refused deletions with the agent's reason", async () => {
+    await createDummyAgent(
+      WS_URL,
+      "inventory-c",
+      "Inventory C",
+      "llama.gguf",
+      async () => {},
+      {
+        deleteModel: async ({ model }: { model: string }) => {
+          if (model === "llama.gguf") {
+            return { deleted: false, reason: "loaded" };
+          }
+          if (model === "qwen.gguf") throw new Error("Disk is read-only");
+          return { deleted: false, reason: "not_found" };
+        },
+      }
+    );
+    const deleteModel = (model: string) =>
+      fetch(`${API_URL}/management/agents/inventory-c/models/${model}`, {
+        method: "DELETE",
+      });
+
+    const inUse = await deleteModel("llama.gguf");
+    expect(inUse.status).toBe(409);
+    expect(((await inUse.json()) as any).reason).toBe("loaded");
+    expect((await deleteModel("other.gguf")).status).toBe(404);
+    const failed = await deleteModel("qwen.gguf");
+    expect(failed.status).toBe(500);
+    expect(((await failed.json()) as any).details).toBe("Disk is read-only");
+  });
+});
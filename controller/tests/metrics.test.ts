@@ -0,0 +1,115 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import { PrometheusMetrics } from "../src/services/metrics";
+import { AgentManager } from "../src/services/agents";
+import type { RequestQueue } from "../src/services/queue";
+import type { UsageService } from "../src/services/usage";
+import type { Db, RequestRecord } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("PrometheusMetrics", () => {
+  let agentManager: AgentManager;
+  let metrics: PrometheusMetrics;
+  let recordRequest: (record: RequestRecord) => void;
+
+  function record(overrides: Partial<RequestRecord> = {}): RequestRecord {
+    return {
+      id: crypto.randomUUID(),
+      api_key_id: null,
+      request_type: "chat",
+      public_model: "model1",
+      internal_model: "model1.gguf",
+      agent_id: "agent-a",
+      status: "completed",
+      error_code: null,
+      latency_ms: 1200,
+      ttft_ms: 200,
+      prompt_tokens: 10,
+      completion_tokens: 50,
+      total_tokens: 60,
+      created_at: Date.now(),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    const logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+    } as unknown as Logger;
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+    } as unknown as Db;
+    agentManager = new AgentManager(db, logger);
+
+    const requestQueue = {
+      getStats: () => ({
+        depth: 3,
+        maxSize: 100,
+        byPriority: { high: 1, normal: 2, low: 0 },
+        byModel: { model1: 3 },
+        oldestWaitMs: 1500,
+        averageWaitMs: 0,
+      }),
+    } as unknown as RequestQueue;
+    const usageService = {
+      onRequestRecorded: (listener: (record: RequestRecord) => void) => {
+        recordRequest = listener;
+      },
+    } as unknown as UsageService;
+
+    metrics = new PrometheusMetrics(agentManager, requestQueue, usageService);
+  });
+
+  test("exports request counters and histograms", () => {
+    recordRequest(record());
+    recordRequest(record({ status: "failed", ttft_ms: null }));
+
+    const output = metrics.render();
+    expect(output).toContain(
+      'piercer_requests_total{model="model1",status="completed",agent="agent-a"} 1'
+    );
+    expect(output).toContain(
+      'piercer_requests_total{model="model1",status="failed",agent="agent-a"} 1'
+    );
+    expect(output).toContain(
+      'piercer_request_duration_seconds_bucket{model="model1",status="completed",agent="agent-a",le="2.5"} 1'
+    );
+    expect(output).toContain(
+      'piercer_request_duration_seconds_bucket{model="model1",status="completed",agent="agent-a",le="1"} 0'
+    );
+    expect(output).toContain(
+      'piercer_time_to_first_token_seconds_count{model="model1",agent="agent-a"} 1'
+    );
+    // 50 tokens over the second after the first token
+    expect(output).toContain(
+      'piercer_generation_tokens_per_second_sum{model="model1",agent="agent-a"} 50'
+    );
+    expect(output).toContain(
+      'piercer_tokens_total{model="model1",agent="agent-a",type="completion"} 100'
+    );
+  });
+
+  test("exports fleet and queue gauges", () => {
+    agentManager.addAgent("agent-a", "Agent A");
+    agentManager.setInstalledModels("agent-a", ["model1", "model2"]);
+    agentManager.addLoadedModel("agent-a", "model1");
+    agentManager.incrementPendingRequests("agent-a");
+
+    const output = metrics.render();
+    expect(output).toContain("piercer_agents_connected 1");
+    expect(output).toContain(
+      'piercer_agent_pending_requests{agent="agent-a"} 1'
+    );
+    expect(output).toContain(
+      'piercer_agent_models{agent="agent-a",state="loaded"} 1'
+    );
+    expect(output).toContain(
+      'piercer_agent_models{agent="agent-a",state="installed"} 2'
+    );
+    expect(output).toContain('piercer_queue_depth{priority="high"} 1');
+    expect(output).toContain("piercer_queue_oldest_wait_seconds 1.5");
+  });
+});
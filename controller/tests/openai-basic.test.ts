@@ -8,7 +8,11 @@ import {
 } from "bun:test";
 import { RPC, WebSocketTransport } from "@piercer/rpc";
 import OpenAI from "openai";
-import { createDummyAgent, closeAllTrackedTransports } from "./shared/setup";
+import {
+  createDummyAgent,
+  closeAllTrackedTransports,
+  parseSSEStream,
+} from "./shared/setup";
 import type { ControllerFunctions } from "../src/rpc-types";
 import { createServerInstance } from "../src/module";
 
@@ -240,4 +244,154 @@ describe("OpenAI API - Basic Chat Completion", () => {
     console.log("Full content:", fullContent);
     expect(fullContent).toBe("Hello World!");
   });
+
+  test("Reports agent token usage in responses and streams", async () => {
+    const dummyAgent = await createDummyAgent(
+      WS_URL,
+      "dummy-agent-usage",
+      "Dummy Agent Usage",
+      "test-model",
+      async (params, rpc) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        await controller.receiveCompletion({
+          agentId: "dummy-agent-usage",
+          requestId: params.requestId,
+          data: {
+            id: "chatcmpl-123",
+            object: "chat.completion.chunk",
+            created: Date.now(),
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "Hello" }, finish_reason: null },
+            ],
+          },
+        });
+        await controller.receiveCompletion({
+          agentId: "dummy-agent-usage",
+          requestId: params.requestId,
+          data: "[DONE]",
+          usage: { prompt_tokens: 12, completion_tokens: 1, total_tokens: 13 },
+        });
+      }
+    );
+
+    transport = dummyAgent.transport;
+    rpc = dummyAgent.rpc;
+
+    const client = getClient();
+    const completion = await client.chat.completions.create({
+      model: "test-model",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+    expect(completion.usage).toEqual({
+      prompt_tokens: 12,
+      completion_tokens: 1,
+      total_tokens: 13,
+    });
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    const chunks = await parseSSEStream(res);
+    expect(chunks.length).toBe(2);
+    expect(chunks[1].choices).toEqual([]);
+    expect(chunks[1].usage.total_tokens).toBe(13);
+  });
+
+  test("Agent inference error is returned as JSON error (non-streaming)", async () => {
+    const dummyAgent = await createDummyAgent(
+      WS_URL,
+      "dummy-agent-error",
+      "Dummy Agent Error",
+      "test-model",
+      async (params, rpc) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        await controller.receiveError({
+          agentId: "dummy-agent-error",
+          requestId: params.requestId,
+          error: { message: "Context overflow", type: "inference_error" },
+        });
+      }
+    );
+
+    transport = dummyAgent.transport;
+    rpc = dummyAgent.rpc;
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(500);
+    const body = (await res.json()) as any;
+    expect(body.error.message).toBe("Context overflow");
+    expect(body.error.type).toBe("server_error");
+    expect(body.error.code).toBe("inference_error");
+  });
+
+  test("Agent inference error ends the stream with an error event", async () => {
+    const dummyAgent = await createDummyAgent(
+      WS_URL,
+      "dummy-agent-stream-error",
+      "Dummy Agent Stream Error",
+      "test-model",
+      async (params, rpc) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        await controller.receiveCompletion({
+          agentId: "dummy-agent-stream-error",
+          requestId: params.requestId,
+          data: {
+            id: "chatcmpl-123",
+            object: "chat.completion.chunk",
+            created: Date.now(),
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "Hel" }, finish_reason: null },
+            ],
+          },
+        });
+        await controller.receiveError({
+          agentId: "dummy-agent-stream-error",
+          requestId: params.requestId,
+          error: { message: "Context overflow", type: "inference_error" },
+        });
+      }
+    );
+
+    transport = dummyAgent.transport;
+    rpc = dummyAgent.rpc;
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+        stream: true,
+      }),
+    });
+
+    const chunks = await parseSSEStream(res);
+    expect(chunks.length).toBe(2);
+    expect(chunks[0].choices[0].delta.content).toBe("Hel");
+    expect(chunks[1].error.message).toBe("Context overflow");
+
+    // Pending count must be released once the error is delivered
+    const agentsRes = await fetch(`${API_URL}/management/agents`);
+    const agents = (await agentsRes.json()) as any[];
+    const agent = agents.find((a) => a.id === "dummy-agent-stream-error");
+    expect(agent.pendingRequests).toBe(0);
+  });
 });
@@ -239,7 +239,22 @@ describe("OpenAI API - Advanced Tool Scenarios", () => {
       listModels: async () => ({ models: ["tool-model"] }),
       currentModels: async () => ({ models: [] }),
       downloadModel: async () => {},
+      cancelDownload: async () => ({ cancelled: false }),
+      resolveModel: async () => ({ filename: "tool-model", files: [] }),
+      deleteModel: async () => ({ deleted: [], freedBytes: 0 }),
+      diskUsage: async () => ({
+        totalBytes: 0,
+        freeBytes: 0,
+        modelsBytes: 0,
+        models: [],
+      }),
       status: async () => ({ status: "idle" }),
+      cancel: async () => ({ cancelled: true }),
+      unloadModel: async () => ({ models: [] }),
+      pinModel: async () => ({ models: [], pinned: [] }),
+      setEvictionPolicy: async ({ policy }) => ({ policy }),
+      unloadModels: async () => ({ models: [] }),
+      exit: async () => ({ exiting: true }),
     });
 
     // Wait for connection
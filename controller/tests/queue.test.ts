@@ -0,0 +1,179 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import { AdmissionQueue, QueueFullError } from "../src/services/queue";
+import type { AdmissionRequest } from "../src/services/queue";
+import { LoadBalancingRouter } from "../src/services/routing";
+import { AgentManager } from "../src/services/agents";
+import type { Db } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("AdmissionQueue", () => {
+  let agentManager: AgentManager;
+  let queue: AdmissionQueue;
+
+  function addAgent(id: string, loaded = true) {
+    agentManager.addAgent(id, id);
+    agentManager.setInstalledModels(id, ["model1"]);
+    if (loaded) agentManager.addLoadedModel(id, "model1");
+  }
+
+  function request(
+    requestId: string,
+    overrides: Partial<AdmissionRequest> = {}
+  ): AdmissionRequest {
+    return {
+      model: "model1",
+      requestType: "chat",
+      requestId,
+      priority: "normal",
+      timeoutMs: 5000,
+      ...overrides,
+    };
+  }
+
+  // Simulate a request finishing on its agent
+  function finish(requestId: string) {
+    const agentId = agentManager.unbindRequestFromAgent(requestId);
+    if (agentId) agentManager.decrementPendingRequests(agentId);
+  }
+
+  beforeEach(() => {
+    const logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+      noAvailableAgents: mock(),
+      agentSelected: mock(),
+    } as unknown as Logger;
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+    } as unknown as Db;
+
+    agentManager = new AgentManager(db, logger);
+    const router = new LoadBalancingRouter(agentManager, logger);
+    queue = new AdmissionQueue(router, agentManager, logger, {
+      maxSize: 2,
+      timeoutMs: 1000,
+    });
+  });
+
+  test("binds the request and reserves a slot when an agent is free", async () => {
+    addAgent("agent-a");
+    agentManager.setSlots("agent-a", { model1: { total: 2, free: 2 } });
+
+    const result = await queue.admit(request("req-1"));
+
+    expect(result.agent.id).toBe("agent-a");
+    expect(agentManager.getAgentForRequest("req-1")).toBe("agent-a");
+    expect(agentManager.getPendingRequests("agent-a")).toBe(1);
+    expect(agentManager.getFreeSlots("agent-a", "model1")).toBe(1);
+  });
+
+  test("holds requests until the agent frees up", async () => {
+    addAgent("agent-a");
+    await queue.admit(request("req-1"));
+
+    let admitted = false;
+    const waiting = queue.admit(request("req-2")).then((result) => {
+      admitted = true;
+      return result;
+    });
+    await new Promise((r) => setTimeout(r, 20));
+    expect(admitted).toBe(false);
+    expect(queue.getStats().depth).toBe(1);
+
+    finish("req-1");
+    const result = await waiting;
+    expect(result.agent.id).toBe("agent-a");
+    expect(queue.getStats().depth).toBe(0);
+  });
+
+  test("serves higher priority requests first", async () => {
+    addAgent("agent-a");
+    await queue.admit(request("req-1"));
+
+    const order: string[] = [];
+    const low = queue
+      .admit(request("req-low", { priority: "low" }))
+      .then(() => order.push("req-low"));
+    const high = queue
+      .admit(request("req-high", { priority: "high" }))
+      .then(() => order.push("req-high"));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(queue.getStats().byPriority).toEqual({
+      high: 1,
+      normal: 0,
+      low: 1,
+    });
+    expect(queue.getStats().byModel).toEqual({ model1: 2 });
+
+    finish("req-1");
+    await high;
+    finish("req-high");
+    await low;
+
+    expect(order).toEqual(["req-high", "req-low"]);
+  });
+
+  test("rejects with a QueueFullError when the queue is full", async () => {
+    addAgent("agent-a");
+    await queue.admit(request("req-1"));
+    queue.admit(request("req-2")).catch(() => {});
+    queue.admit(request("req-3")).catch(() => {});
+
+    const error = await queue.admit(request("req-4")).catch((e) => e);
+    expect(error).toBeInstanceOf(QueueFullError);
+    expect(error.status).toBe(429);
+    expect(error.retryAfterSeconds).toBeGreaterThanOrEqual(1);
+  });
+
+  test("fails with a 503 when no agent frees up in time", async () => {
+    addAgent("agent-a");
+    await queue.admit(request("req-1"));
+
+    const error = await queue
+      .admit(request("req-2", { timeoutMs: 50 }))
+      .catch((e) => e);
+
+    expect(error.status).toBe(503);
+    expect(error.code).toBe("no_available_agents");
+    expect(queue.getStats().depth).toBe(0);
+  });
+
+  test("fails right away when no agent has the model", async () => {
+    addAgent("agent-a");
+
+    const started = Date.now();
+    const error = await queue
+      .admit(request("req-1", { model: "model2" }))
+      .catch((e) => e);
+
+    expect(error.status).toBe(503);
+    expect(error.code).toBe("no_available_agents");
+    expect(Date.now() - started).toBeLessThan(500);
+    expect(queue.getStats().depth).toBe(0);
+  });
+
+  test("fails right away when no agent matches the required labels", async () => {
+    addAgent("agent-a");
+
+    const error = await queue
+      .admit(request("req-1", { requiredLabels: { gpu: "a100" } }))
+      .catch((e) => e);
+
+    expect(error.status).toBe(503);
+    expect(queue.getStats().depth).toBe(0);
+  });
+
+  test("dispatches queued requests when an agent connects", async () => {
+    addAgent("agent-a");
+    await queue.admit(request("req-1"));
+
+    const waiting = queue.admit(request("req-2"));
+    addAgent("agent-late", false);
+
+    const result = await waiting;
+    expect(result.agent.id).toBe("agent-late");
+  });
+});
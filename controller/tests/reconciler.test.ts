@@ -0,0 +1,212 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import { ModelReconciler } from "../src/services/reconciler";
+import { DownloadJobs } from "../src/services/downloads";
+import { AgentManager } from "../src/services/agents";
+import type { AgentRPCService } from "../src/services/agent-rpc";
+import type { MappingsService } from "../src/services/mappings";
+import type { Db, ModelMapping } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("ModelReconciler", () => {
+  let agentManager: AgentManager;
+  let agentRPCService: AgentRPCService;
+  let mappings: ModelMapping[];
+  let reconciler: ModelReconciler;
+
+  function addAgent(id: string, installed: string[], loaded: string[] = []) {
+    agentManager.addAgent(id, id);
+    agentManager.setInstalledModels(id, installed);
+    for (const model of loaded) agentManager.addLoadedModel(id, model);
+  }
+
+  function mapping(overrides: Partial<ModelMapping> = {}): ModelMapping {
+    return {
+      id: "mapping-1",
+      internal_name: "model1.gguf",
+      public_name: "model1",
+      created_at: 0,
+      timeout_ms: null,
+      routing_strategy: null,
+      required_labels: {},
+      preferred_labels: {},
+      min_agents: 0,
+      max_agents: null,
+      download_url: null,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    const logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+    } as unknown as Logger;
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+      getAllRequiredModels: mock(() => []),
+    } as unknown as Db;
+    agentRPCService = {
+      startModel: mock(async () => ({ models: [] })),
+      unloadModel: mock(async () => ({ models: [] })),
+      downloadModel: mock(async () => ({ filename: "model1.gguf" })),
+      onDownloadProgress: mock(),
+    } as unknown as AgentRPCService;
+    mappings = [];
+    const mappingsService = {
+      getAllMappings: () => mappings,
+    } as unknown as MappingsService;
+
+    agentManager = new AgentManager(db, logger);
+    reconciler = new ModelReconciler(
+      agentManager,
+      mappingsService,
+      agentRPCService,
+      new DownloadJobs(
+        agentRPCService,
+        mappingsService,
+        logger,
+        agentManager,
+        db
+      ),
+      logger,
+      0
+    );
+  });
+
+  test("loads the model on agents that have it installed", () => {
+    mappings = [mapping({ min_agents: 2 })];
+    addAgent("agent-a", ["model1.gguf"], ["model1.gguf"]);
+    addAgent("agent-b", ["model1.gguf"]);
+    addAgent("agent-c", []);
+
+    const status = reconciler.reconcile();
+
+    expect(agentRPCService.startModel).toHaveBeenCalledTimes(1);
+    expect(agentRPCService.startModel).toHaveBeenCalledWith({
+      agentId: "agent-b",
+      model: "model1.gguf",
+    });
+    // The load in flight counts towards the desired state
+    expect(status.models[0]!.drift).toBe(0);
+    expect(status.actions[0]!.type).toBe("load");
+  });
+
+  test("doesn't repeat actions that are still running", () => {
+    mappings = [mapping({ min_agents: 1 })];
+    addAgent("agent-a", ["model1.gguf"]);
+    agentRPCService.startModel = mock(() => new Promise(() => {}));
+
+    reconciler.reconcile();
+    reconciler.reconcile();
+
+    expect(agentRPCService.startModel).toHaveBeenCalledTimes(1);
+  });
+
+  test("downloads the model, then loads it", async () => {
+    mappings = [
+      mapping({ min_agents: 1, download_url: "https://example.com/m.gguf" }),
+    ];
+    addAgent("agent-a", []);
+
+    reconciler.reconcile();
+    await Bun.sleep(0);
+
+    expect(agentRPCService.downloadModel).toHaveBeenCalledWith({
+      agentId: "agent-a",
+      model_url: "https://example.com/m.gguf",
+      filename: "model1.gguf",
+      peers: [],
+      collectable: [],
+    });
+    expect(agentRPCService.startModel).toHaveBeenCalledWith({
+      agentId: "agent-a",
+      model: "model1.gguf",
+    });
+  });
+
+  test("reports drift it can't fix", () => {
+    mappings = [mapping({ min_agents: 1 })];
+    addAgent("agent-a", []);
+
+    const status = reconciler.reconcile();
+
+    expect(agentRPCService.downloadModel).not.toHaveBeenCalled();
+    expect(status.models[0]!.drift).toBe(-1);
+    expect(status.models[0]!.blocked).toContain("no download_url");
+  });
+
+  test("unloads idle copies above the maximum", () => {
+    mappings = [mapping({ max_agents: 1 })];
+    addAgent("agent-a", ["model1.gguf"], ["model1.gguf"]);
+    addAgent("agent-b", ["model1.gguf"], ["model1.gguf"]);
+    agentManager.setSlots("agent-a", { "model1.gguf": { total: 2, free: 1 } });
+
+    reconciler.reconcile();
+
+    expect(agentRPCService.unloadModel).toHaveBeenCalledTimes(1);
+    expect(agentRPCService.unloadModel).toHaveBeenCalledWith({
+      agentId: "agent-b",
+      model: "model1.gguf",
+    });
+  });
+
+  test("converges on the autoscaler's target within the bounds", () => {
+    mappings = [mapping({ min_agents: 1, max_agents: 3 })];
+    addAgent("agent-a", ["model1.gguf"], ["model1.gguf"]);
+    addAgent("agent-b", ["model1.gguf"]);
+
+    expect(reconciler.reconcile().models[0]!.drift).toBe(0);
+
+    reconciler.setTarget("model1", 2);
+    const status = reconciler.reconcile();
+
+    expect(agentRPCService.startModel).toHaveBeenCalledWith({
+      agentId: "agent-b",
+      model: "model1.gguf",
+    });
+    expect(status.models[0]!.target).toBe(2);
+  });
+
+  test("fails actions of agents that disconnect", () => {
+    mappings = [mapping({ min_agents: 1 })];
+    addAgent("agent-a", ["model1.gguf"]);
+    addAgent("agent-b", ["model1.gguf"]);
+    agentRPCService.startModel = mock(() => new Promise(() => {}));
+
+    reconciler.reconcile();
+    agentManager.removeAgent("agent-a");
+    const status = reconciler.reconcile();
+
+    expect(status.actions.map((action) => action.status)).toEqual([
+      "running",
+      "failed",
+    ]);
+    expect(status.actions[1]!.error).toBe("Agent disconnected");
+    // The lost load no longer counts, so agent-b takes over
+    expect(agentRPCService.startModel).toHaveBeenLastCalledWith({
+      agentId: "agent-b",
+      model: "model1.gguf",
+    });
+    expect(status.models[0]!.drift).toBe(0);
+    reconciler.stop();
+  });
+
+  test("backs off after a failed action", async () => {
+    mappings = [mapping({ min_agents: 1 })];
+    addAgent("agent-a", ["model1.gguf"]);
+    agentRPCService.startModel = mock(async () => {
+      throw new Error("out of memory");
+    });
+
+    reconciler.reconcile();
+    await Bun.sleep(0);
+    const status = reconciler.reconcile();
+
+    expect(agentRPCService.startModel).toHaveBeenCalledTimes(1);
+    expect(status.actions[0]!.status).toBe("failed");
+    expect(status.actions[0]!.error).toBe("out of memory");
+  });
+});
@@ -0,0 +1,446 @@
+import { test, expect, beforeEach, describe, mock } from "bun:test";
+import {
+  LoadBalancingRouter,
+  conversationKey,
+  conversationPrefixKey,
+  parseLabels,
+} from "../src/services/routing";
+import type { RoutingResult, RoutingStrategy } from "../src/services/routing";
+import { AgentManager } from "../src/services/agents";
+import type { Db } from "../src/services/db";
+import type { Logger } from "../src/services/logger";
+
+describe("LoadBalancingRouter", () => {
+  let agentManager: AgentManager;
+  let router: LoadBalancingRouter;
+
+  function addAgent(id: string, loaded: boolean) {
+    agentManager.addAgent(id, id);
+    agentManager.setInstalledModels(id, ["model1"]);
+    if (loaded) agentManager.addLoadedModel(id, "model1");
+  }
+
+  async function select(requestId = "req-1") {
+    const result = await router.selectAgent({
+      model: "model1",
+      requestType: "chat",
+      requestId,
+    });
+    return result?.agent.id;
+  }
+
+  beforeEach(() => {
+    const logger = {
+      info: mock(),
+      warn: mock(),
+      error: mock(),
+      debug: mock(),
+      noAvailableAgents: mock(),
+      agentSelected: mock(),
+    } as unknown as Logger;
+    const db = {
+      registerAgent: mock(),
+      getAgent: mock(() => null),
+      setAgentCordoned: mock(() => true),
+    } as unknown as Db;
+
+    agentManager = new AgentManager(db, logger);
+    router = new LoadBalancingRouter(agentManager, logger);
+  });
+
+  test("prefers a busy agent with free slots over an idle cold agent", async () => {
+    addAgent("agent-a", false);
+    addAgent("agent-b", true);
+    agentManager.setSlots("agent-b", { model1: { total: 4, free: 3 } });
+    agentManager.incrementPendingRequests("agent-b");
+
+    expect(await select()).toBe("agent-b");
+  });
+
+  test("prefers the agent with the most free slots", async () => {
+    addAgent("agent-a", true);
+    addAgent("agent-b", true);
+    agentManager.setSlots("agent-a", { model1: { total: 2, free: 1 } });
+    agentManager.setSlots("agent-b", { model1: { total: 4, free: 4 } });
+
+    expect(await select()).toBe("agent-b");
+  });
+
+  test("treats agents without slot reports as having one slot", async () => {
+    addAgent("agent-a", true);
+    agentManager.incrementPendingRequests("agent-a");
+    addAgent("agent-b", true);
+
+    expect(await select()).toBe("agent-b");
+  });
+
+  test("skips cordoned agents", async () => {
+    addAgent("agent-a", true);
+    addAgent("agent-b", false);
+    agentManager.setCordoned("agent-a", true);
+    expect(await select()).toBe("agent-b");
+
+    agentManager.setCordoned("agent-b", true);
+    expect(await select()).toBeUndefined();
+  });
+
+  function reportMemory(
+    id: string,
+    availableMemoryMb: number,
+    slots: Record<string, { total: number; free: number }> = {},
+    pinnedModels: string[] = []
+  ) {
+    agentManager.setTelemetry(id, {
+      agentId: id,
+      hardware: null,
+      loadedModels: Object.keys(slots),
+      slots,
+      busySlots: 0,
+      tokensPerSecond: 0,
+      availableMemoryMb,
+      modelFootprints: { model1: 8000, model2: 6000 },
+      pinnedModels,
+      evictionPolicy: "lfu",
+    });
+  }
+
+  test("skips agents where a cold load doesn't fit", async () => {
+    addAgent("agent-a", false);
+    addAgent("agent-b", false);
+    reportMemory("agent-a", 4000);
+    reportMemory("agent-b", 10000);
+    agentManager.incrementPendingRequests("agent-b");
+
+    expect(await select()).toBe("agent-b");
+
+    reportMemory("agent-b", 4000);
+    expect(await select()).toBeUndefined();
+  });
+
+  test("prefers cold loads that don't evict models", async () => {
+    addAgent("agent-a", false);
+    addAgent("agent-b", false);
+    agentManager.setInstalledModels("agent-a", ["model1", "model2"]);
+    reportMemory("agent-a", 4000, { model2: { total: 2, free: 2 } });
+    reportMemory("agent-b", 9000);
+
+    expect(await select()).toBe("agent-b");
+  });
+
+  test("won't evict a busy model for a cold load", async () => {
+    addAgent("agent-a", false);
+    agentManager.setInstalledModels("agent-a", ["model1", "model2"]);
+    reportMemory("agent-a", 4000, { model2: { total: 2, free: 2 } });
+    expect(await select()).toBe("agent-a");
+
+    reportMemory("agent-a", 4000, { model2: { total: 2, free: 1 } });
+    expect(await select()).toBeUndefined();
+  });
+
+  test("won't evict a pinned model for a cold load", async () => {
+    addAgent("agent-a", false);
+    agentManager.setInstalledModels("agent-a", ["model1", "model2"]);
+    reportMemory("agent-a", 4000, { model2: { total: 2, free: 2 } }, [
+      "model2",
+    ]);
+
+    expect(await select()).toBeUndefined();
+  });
+
+  describe("strategies", () => {
+    let randomValues: number[];
+
+    beforeEach(() => {
+      randomValues = [];
+      router = new LoadBalancingRouter(
+        agentManager,
+        {
+          info: mock(),
+          debug: mock(),
+          agentSelected: mock(),
+        } as unknown as Logger,
+        { random: () => randomValues.shift() ?? 0 }
+      );
+      for (const id of ["agent-a", "agent-b", "agent-c"]) {
+        addAgent(id, true);
+        agentManager.setSlots(id, { model1: { total: 4, free: 4 } });
+      }
+    });
+
+    async function selectWith(
+      strategy: RoutingStrategy,
+      user?: string
+    ): Promise<RoutingResult | null> {
+      return router.selectAgent({
+        model: "model1",
+        requestType: "chat",
+        requestId: "req-1",
+        strategy,
+        user,
+      });
+    }
+
+    function finished(agentId: string, ttftMs: number, latencyMs: number) {
+      router.observeRequest({
+        id: "req",
+        api_key_id: null,
+        request_type: "chat",
+        public_model: "public1",
+        internal_model: "model1",
+        agent_id: agentId,
+        status: "completed",
+        error_code: null,
+        latency_ms: latencyMs,
+        ttft_ms: ttftMs,
+        prompt_tokens: 10,
+        completion_tokens: 100,
+        total_tokens: 110,
+        created_at: Date.now(),
+      });
+    }
+
+    test("round robin cycles through agents with free slots", async () => {
+      const picks = [];
+      for (let i = 0; i < 4; i++) {
+        picks.push((await selectWith("round_robin"))?.agent.id);
+      }
+      expect(picks).toEqual(["agent-a", "agent-b", "agent-c", "agent-a"]);
+    });
+
+    test("round robin only takes a turn when the request can start", async () => {
+      for (const id of ["agent-a", "agent-b", "agent-c"]) {
+        agentManager.setSlots(id, { model1: { total: 4, free: 0 } });
+        agentManager.incrementPendingRequests(id);
+      }
+      for (let i = 0; i < 4; i++) {
+        const result = await router.selectAgent({
+          model: "model1",
+          requestType: "chat",
+          requestId: "req-1",
+          strategy: "round_robin",
+          immediate: true,
+        });
+        expect(result).toBeNull();
+      }
+
+      for (const id of ["agent-a", "agent-b", "agent-c"]) {
+        agentManager.setSlots(id, { model1: { total: 4, free: 4 } });
+      }
+      expect((await selectWith("round_robin"))?.agent.id).toBe("agent-a");
+    });
+
+    test("power of two keeps the less loaded of two samples", async () => {
+      agentManager.incrementPendingRequests("agent-a");
+      // Samples agent-a and agent-c
+      randomValues = [0, 0.9];
+
+      expect((await selectWith("power_of_two"))?.agent.id).toBe("agent-c");
+    });
+
+    test("weighted random favours agents with fewer pending requests", async () => {
+      agentManager.incrementPendingRequests("agent-a");
+      agentManager.incrementPendingRequests("agent-a");
+      agentManager.incrementPendingRequests("agent-a");
+      // Weights are 1, 4 and 4 out of 9
+      randomValues = [0.1];
+      expect((await selectWith("weighted_random"))?.agent.id).toBe("agent-a");
+      randomValues = [0.2];
+      expect((await selectWith("weighted_random"))?.agent.id).toBe("agent-b");
+    });
+
+    test("latency prefers unmeasured agents, then the fastest", async () => {
+      finished("agent-a", 500, 5500);
+      expect((await selectWith("latency"))?.agent.id).toBe("agent-b");
+
+      finished("agent-b", 200, 2200);
+      finished("agent-c", 1000, 11000);
+      const result = await selectWith("latency");
+      expect(result?.agent.id).toBe("agent-b");
+      expect(result?.reason).toContain("lowest estimated latency");
+    });
+
+    test("sticky keeps a user on the same agent", async () => {
+      agentManager.incrementPendingRequests("agent-a");
+      expect((await selectWith("sticky", "alice"))?.agent.id).toBe("agent-b");
+
+      agentManager.setSlots("agent-b", { model1: { total: 4, free: 1 } });
+      const result = await selectWith("sticky", "alice");
+      expect(result?.agent.id).toBe("agent-b");
+      expect(result?.reason).toContain("sticky for user 'alice'");
+
+      expect((await selectWith("sticky", "bob"))?.agent.id).toBe("agent-c");
+    });
+
+    test("explains the selection", async () => {
+      const result = await selectWith("least_pending");
+      expect(result?.reason).toBe(
+        "least_pending: ranked first of 3 agents; agent-a has model loaded " +
+          "with 4 free slots and 0 pending requests (3 candidates)"
+      );
+    });
+  });
+
+  describe("prefix cache affinity", () => {
+    const firstTurn = [
+      { role: "system", content: "You are helpful" },
+      { role: "user", content: "Hi" },
+    ];
+    const secondTurn = [
+      ...firstTurn,
+      { role: "assistant", content: "Hello!" },
+      { role: "user", content: "How are you?" },
+    ];
+
+    async function selectChat(
+      messages: Array<{ role: string; content: string }>
+    ) {
+      const result = await router.selectAgent({
+        model: "model1",
+        requestType: "chat",
+        requestId: "req-1",
+        prefixKey: conversationPrefixKey(messages),
+      });
+      return result?.agent.id;
+    }
+
+    beforeEach(() => {
+      for (const id of ["agent-a", "agent-b"]) {
+        addAgent(id, true);
+        agentManager.setSlots(id, { model1: { total: 4, free: 4 } });
+      }
+    });
+
+    test("keys a later turn by the conversation it continues", () => {
+      expect(conversationPrefixKey(secondTurn)).toBe(
+        conversationKey([
+          ...firstTurn,
+          { role: "assistant", content: "Hello!" },
+        ])
+      );
+
+      // Same opening, different reply
+      const otherTurn = [
+        ...firstTurn,
+        { role: "assistant", content: "Hey" },
+        { role: "user", content: "How are you?" },
+      ];
+      expect(conversationPrefixKey(otherTurn)).not.toBe(
+        conversationPrefixKey(secondTurn)
+      );
+    });
+
+    test("routes later turns to the agent that replied", async () => {
+      agentManager.setSlots("agent-b", { model1: { total: 4, free: 2 } });
+      expect(await selectChat(firstTurn)).toBe("agent-a");
+      router.rememberConversation(
+        "model1",
+        conversationKey(secondTurn.slice(0, 3)),
+        "agent-a"
+      );
+
+      agentManager.setSlots("agent-a", { model1: { total: 4, free: 1 } });
+      expect(await selectChat(secondTurn)).toBe("agent-a");
+    });
+
+    test("does not share an agent between conversations", async () => {
+      router.rememberConversation(
+        "model1",
+        conversationKey(secondTurn.slice(0, 3)),
+        "agent-a"
+      );
+      agentManager.setSlots("agent-a", { model1: { total: 4, free: 1 } });
+
+      expect(
+        await selectChat([
+          ...firstTurn,
+          { role: "assistant", content: "Hey" },
+          { role: "user", content: "How are you?" },
+        ])
+      ).toBe("agent-b");
+    });
+
+    test("falls back to the strategy when that agent is full", async () => {
+      router.rememberConversation(
+        "model1",
+        conversationKey(secondTurn.slice(0, 3)),
+        "agent-a"
+      );
+
+      agentManager.setSlots("agent-a", { model1: { total: 4, free: 0 } });
+      expect(await selectChat(secondTurn)).toBe("agent-b");
+    });
+  });
+
+  describe("labels", () => {
+    beforeEach(() => {
+      for (const [id, labels] of [
+        ["agent-a", { gpu: "a100", trust: "public" }],
+        ["agent-b", { gpu: "h100", trust: "private" }],
+        ["agent-c", { gpu: "a100", trust: "private" }],
+      ] as const) {
+        agentManager.addAgent(id, id, { ...labels });
+        agentManager.setInstalledModels(id, ["model1"]);
+        agentManager.addLoadedModel(id, "model1");
+        agentManager.setSlots(id, { model1: { total: 4, free: 4 } });
+      }
+      agentManager.setSlots("agent-c", { model1: { total: 4, free: 1 } });
+    });
+
+    async function selectWith(
+      requiredLabels: Record<string, string>,
+      preferredLabels: Record<string, string> = {}
+    ) {
+      const result = await router.selectAgent({
+        model: "model1",
+        requestType: "chat",
+        requestId: "req-1",
+        requiredLabels,
+        preferredLabels,
+      });
+      return result?.agent.id;
+    }
+
+    test("only routes to agents with the required labels", async () => {
+      expect(await selectWith({ trust: "private" })).toBe("agent-b");
+      expect(await selectWith({ gpu: "a100", trust: "private" })).toBe(
+        "agent-c"
+      );
+      expect(await selectWith({ gpu: "v100" })).toBeUndefined();
+    });
+
+    test("prefers agents with the preferred labels", async () => {
+      expect(await selectWith({}, { gpu: "a100", trust: "private" })).toBe(
+        "agent-c"
+      );
+      expect(await selectWith({ trust: "private" }, { gpu: "a100" })).toBe(
+        "agent-c"
+      );
+    });
+
+    test("skips busy preferred agents while others are idle", async () => {
+      agentManager.setSlots("agent-c", { model1: { total: 4, free: 0 } });
+      agentManager.incrementPendingRequests("agent-c");
+
+      expect(await selectWith({ trust: "private" }, { gpu: "a100" })).toBe(
+        "agent-b"
+      );
+
+      // Everyone is busy, so wait for the preferred one
+      agentManager.setSlots("agent-b", { model1: { total: 4, free: 0 } });
+      agentManager.incrementPendingRequests("agent-b");
+      expect(await selectWith({ trust: "private" }, { gpu: "a100" })).toBe(
+        "agent-c"
+      );
+    });
+
+    test("parses label lists", () => {
+      expect(parseLabels("gpu=a100, trust=private")).toEqual({
+        gpu: "a100",
+        trust: "private",
+      });
+      expect(parseLabels("")).toEqual({});
+      expect(parseLabels("gpu")).toBeNull();
+      expect(parseLabels("gpu=a=b")).toBeNull();
+    });
+  });
+});
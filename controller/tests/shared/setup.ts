@@ -98,7 +98,8 @@ export async function createDummyAgent(
   agentId: string,
   agentName: string,
   installedModels: string,
-  chatHandler: (params: any, rpc: RPC<any>) => Promise<void>
+  chatHandler: (params: any, rpc: RPC<any>) => Promise<void>,
+  extraFunctions: Record<string, Function> = {}
 ): Promise<DummyAgent> {
   const transport = new WebSocketTransport(WS_URL, {
     headers: {
@@ -127,6 +128,8 @@ export async function createDummyAgent(
     currentModels: async () => ({ models: [] }),
     downloadModel: async () => {},
     status: async () => ({ status: "idle" }),
+    cancel: async () => ({ cancelled: true }),
+    ...extraFunctions,
   });
 
   // Wait for connection with timeout
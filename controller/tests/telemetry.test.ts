@@ -0,0 +1,84 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createDummyAgent, closeAllTrackedTransports } from "./shared/setup";
+import type { ControllerFunctions } from "../src/rpc-types";
+import { createServerInstance } from "../src/module";
+
+describe("Agent telemetry", () => {
+  let server: any;
+  let container: any;
+  let API_URL: string;
+  let WS_URL: string;
+
+  const TEST_DB = `/tmp/test-telemetry-${crypto.randomUUID()}.db`;
+
+  async function getAgent(id: string) {
+    const res = await fetch(`${API_URL}/management/agents`);
+    const agents = (await res.json()) as any[];
+    return agents.find((agent) => agent.id === id);
+  }
+
+  beforeAll(() => {
+    const { server: srv, container: cont } = createServerInstance({
+      databasePath: TEST_DB,
+      port: 1540,
+      apiKey: "",
+      agentSecretKey: "",
+      logLevel: "error",
+    });
+
+    server = srv;
+    container = cont;
+
+    API_URL = `http://127.0.0.1:${server.port}`;
+    WS_URL = `ws://127.0.0.1:${server.port}/ws`;
+  });
+
+  afterAll(async () => {
+    closeAllTrackedTransports();
+    if (container) {
+      await container.shutdown();
+    }
+    if (server) server.stop();
+    try {
+      Bun.file(TEST_DB).delete();
+    } catch {}
+  });
+
+  test("reports live hardware and slot usage per agent", async () => {
+    const agent = await createDummyAgent(
+      WS_URL,
+      "gpu-agent",
+      "GPU Agent",
+      "test-model",
+      async () => {}
+    );
+    expect((await getAgent("gpu-agent")).status).toBe("unknown");
+
+    await agent.rpc.remote<ControllerFunctions>().reportStatus({
+      agentId: "gpu-agent",
+      hardware: {
+        type: "gpu",
+        gpuUtilization: 80,
+        gpuMemoryUsed: 6144,
+        gpuMemoryTotal: 24576,
+      },
+      loadedModels: ["test-model"],
+      slots: { "test-model": { total: 4, free: 3 } },
+      busySlots: 1,
+      tokensPerSecond: 42.5,
+      availableMemoryMb: 12000,
+      modelFootprints: { "test-model": 5000 },
+      pinnedModels: [],
+      evictionPolicy: "lfu",
+    });
+
+    const described = await getAgent("gpu-agent");
+    expect(described.status).toBe("busy");
+    expect(described.vram_used).toBe(6144 * 1024 * 1024);
+    expect(described.vram_total).toBe(24576 * 1024 * 1024);
+    expect(described.loadedModels).toEqual(["test-model"]);
+    expect(described.slots["test-model"]).toEqual({ total: 4, free: 3 });
+    expect(described.telemetry.tokensPerSecond).toBe(42.5);
+    expect(described.telemetry.reportedAt).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+} from "bun:test";
+import type { RPC } from "@piercer/rpc";
+import { createDummyAgent, closeAllTrackedTransports } from "./shared/setup";
+import type { ControllerFunctions } from "../src/rpc-types";
+import { createServerInstance } from "../src/module";
+
+describe("Request timeouts and cancellation", () => {
+  let server: any;
+  let container: any;
+  let API_URL: string;
+  let WS_URL: string;
+
+  // Generate unique test database path for isolation
+  const TEST_DB = `/tmp/test-timeouts-${crypto.randomUUID()}.db`;
+
+  async function createMapping(body: Record<string, any>) {
+    const res = await fetch(`${API_URL}/management/mappings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      throw new Error(`Failed to create mapping: ${await res.text()}`);
+    }
+  }
+
+  // Agent that never finishes, recording the cancel calls it receives
+  async function createStuckAgent(
+    agentId: string,
+    model: string,
+    cancelled: string[],
+    firstChunk?: string
+  ) {
+    return createDummyAgent(
+      WS_URL,
+      agentId,
+      agentId,
+      model,
+      async (params, rpc: RPC<any>) => {
+        if (firstChunk) {
+          const controller = rpc.remote<ControllerFunctions>();
+          await controller.receiveCompletion({
+            agentId,
+            requestId: params.requestId,
+            data: {
+              id: "chatcmpl-stuck",
+              object: "chat.completion.chunk",
+              created: Date.now(),
+              model,
+              choices: [
+                {
+                  index: 0,
+                  delta: { content: firstChunk },
+                  finish_reason: null,
+                },
+              ],
+            },
+          });
+        }
+      },
+      {
+        cancel: async ({ requestId }: { requestId: string }) => {
+          cancelled.push(requestId);
+          return { cancelled: true };
+        },
+      }
+    );
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs = 2000) {
+    const start = Date.now();
+    while (!condition() && Date.now() - start < timeoutMs) {
+      await new Promise((r) => setTimeout(r, 20));
+    }
+  }
+
+  beforeAll(async () => {
+    const { server: srv, container: cont } = createServerInstance({
+      databasePath: TEST_DB,
+      port: 1537,
+      apiKey: "",
+      agentSecretKey: "",
+      logLevel: "error",
+    });
+
+    server = srv;
+    container = cont;
+
+    API_URL = `http://127.0.0.1:${server.port}`;
+    WS_URL = `ws://127.0.0.1:${server.port}/ws`;
+
+    await createMapping({ public_name: "test-model", filename: "test-model" });
+    await createMapping({
+      public_name: "slow-model",
+      filename: "slow-model",
+      timeout_ms: 200,
+    });
+  });
+
+  afterEach(async () => {
+    closeAllTrackedTransports();
+
+    // Wait for the controller to process the disconnects
+    for (let i = 0; i < 50; i++) {
+      const res = await fetch(`${API_URL}/management/agents`);
+      if (((await res.json()) as any[]).length === 0) break;
+      await new Promise((r) => setTimeout(r, 20));
+    }
+  });
+
+  afterAll(async () => {
+    closeAllTrackedTransports();
+    if (container) {
+      await container.shutdown();
+    }
+    if (server) server.stop();
+    try {
+      Bun.file(TEST_DB).delete();
+    } catch {}
+  });
+
+  test("times out using the X-Request-Timeout-Ms header", async () => {
+    const cancelled: string[] = [];
+    await createStuckAgent("stuck-agent", "test-model", cancelled);
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-Timeout-Ms": "200",
+        "X-Request-ID": "req-header-timeout",
+      },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(504);
+    const body = (await res.json()) as any;
+    expect(body.error.code).toBe("request_timeout");
+
+    await waitFor(() => cancelled.length > 0);
+    expect(cancelled).toEqual(["req-header-timeout"]);
+
+    const agents = (await (
+      await fetch(`${API_URL}/management/agents`)
+    ).json()) as any[];
+    expect(agents[0].pendingRequests).toBe(0);
+  });
+
+  test("times out using the model's timeout_ms", async () => {
+    const cancelled: string[] = [];
+    await createStuckAgent("stuck-agent-slow", "slow-model", cancelled);
+
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: "slow-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(504);
+    await waitFor(() => cancelled.length > 0);
+    expect(cancelled.length).toBe(1);
+  });
+
+  test("times out while the model is still loading", async () => {
+    await createDummyAgent(
+      WS_URL,
+      "loading-agent",
+      "loading-agent",
+      "test-model",
+      async () => {},
+      // The load never finishes
+      { startModel: () => new Promise(() => {}) }
+    );
+
+    const started = Date.now();
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-Timeout-Ms": "200",
+      },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(504);
+    expect(((await res.json()) as any).error.code).toBe("request_timeout");
+    expect(Date.now() - started).toBeLessThan(2000);
+
+    const agents = (await (
+      await fetch(`${API_URL}/management/agents`)
+    ).json()) as any[];
+    expect(agents[0].pendingRequests).toBe(0);
+  });
+
+  test("rejects an invalid X-Request-Timeout-Ms header", async () => {
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-Timeout-Ms": "soon",
+      },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("cancels generation on the agent when a streaming client aborts", async () => {
+    const cancelled: string[] = [];
+    await createStuckAgent(
+      "stuck-agent-stream",
+      "test-model",
+      cancelled,
+      "Hel"
+    );
+
+    const abortController = new AbortController();
+    const res = await fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-ID": "req-client-abort",
+      },
+      body: JSON.stringify({
+        model: "test-model",
+        messages: [{ role: "user", content: "Hi" }],
+        stream: true,
+      }),
+      signal: abortController.signal,
+    });
+
+    // Read the first chunk, then hang up
+    const reader = res.body!.getReader();
+    await reader.read();
+    abortController.abort();
+
+    await waitFor(() => cancelled.length > 0);
+    expect(cancelled).toEqual(["req-client-abort"]);
+  });
+});
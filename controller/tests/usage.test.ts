@@ -0,0 +1,143 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createDummyAgent, closeAllTrackedTransports } from "./shared/setup";
+import type { ControllerFunctions } from "../src/rpc-types";
+import { createServerInstance } from "../src/module";
+
+describe("Usage accounting", () => {
+  let server: any;
+  let container: any;
+  let API_URL: string;
+  let WS_URL: string;
+
+  const TEST_DB = `/tmp/test-usage-${crypto.randomUUID()}.db`;
+
+  function chat(requestId: string, model = "test-model") {
+    return fetch(`${API_URL}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Request-ID": requestId,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    });
+  }
+
+  beforeAll(async () => {
+    const { server: srv, container: cont } = createServerInstance({
+      databasePath: TEST_DB,
+      port: 1539,
+      apiKey: "",
+      agentSecretKey: "",
+      logLevel: "error",
+    });
+
+    server = srv;
+    container = cont;
+
+    API_URL = `http://127.0.0.1:${server.port}`;
+    WS_URL = `ws://127.0.0.1:${server.port}/ws`;
+
+    await fetch(`${API_URL}/management/mappings`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        public_name: "test-model",
+        filename: "test-model",
+      }),
+    });
+
+    await createDummyAgent(
+      WS_URL,
+      "usage-agent",
+      "Usage Agent",
+      "test-model",
+      async (params, rpc) => {
+        const controller = rpc.remote<ControllerFunctions>();
+        await new Promise((r) => setTimeout(r, 20));
+        await controller.receiveCompletion({
+          agentId: "usage-agent",
+          requestId: params.requestId,
+          data: {
+            id: "chatcmpl-usage",
+            object: "chat.completion.chunk",
+            created: Date.now(),
+            model: "test-model",
+            choices: [
+              { index: 0, delta: { content: "Hello" }, finish_reason: null },
+            ],
+          },
+        });
+        await controller.receiveCompletion({
+          agentId: "usage-agent",
+          requestId: params.requestId,
+          data: "[DONE]",
+          usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+        });
+      }
+    );
+  });
+
+  afterAll(async () => {
+    closeAllTrackedTransports();
+    if (container) {
+      await container.shutdown();
+    }
+    if (server) server.stop();
+    try {
+      Bun.file(TEST_DB).delete();
+    } catch {}
+  });
+
+  test("records finished and failed requests", async () => {
+    expect((await chat("usage-ok-1")).status).toBe(200);
+    expect((await chat("usage-ok-2")).status).toBe(200);
+    expect((await chat("usage-missing", "missing-model")).status).toBe(400);
+
+    const res = await fetch(`${API_URL}/management/usage/requests`);
+    const records = (await res.json()) as any[];
+    expect(records).toHaveLength(3);
+
+    const ok = records.find((r) => r.id === "usage-ok-1");
+    expect(ok).toMatchObject({
+      request_type: "chat",
+      public_model: "test-model",
+      internal_model: "test-model",
+      agent_id: "usage-agent",
+      status: "completed",
+      prompt_tokens: 12,
+      completion_tokens: 3,
+      total_tokens: 15,
+    });
+    expect(ok.ttft_ms).toBeGreaterThanOrEqual(0);
+    expect(ok.latency_ms).toBeGreaterThanOrEqual(ok.ttft_ms);
+
+    const failed = records.find((r) => r.id === "usage-missing");
+    // Made-up model names don't each get their own entry
+    expect(failed).toMatchObject({
+      public_model: "unknown",
+      agent_id: null,
+      status: "failed",
+      error_code: "model_not_found",
+    });
+  });
+
+  test("aggregates usage by model and agent", async () => {
+    const res = await fetch(`${API_URL}/management/usage?group_by=model,agent`);
+    const rows = (await res.json()) as any[];
+    expect(rows).toContainEqual(
+      expect.objectContaining({
+        public_model: "test-model",
+        agent_id: "usage-agent",
+        requests: 2,
+        errors: 0,
+        total_tokens: 30,
+      })
+    );
+
+    const invalid = await fetch(`${API_URL}/management/usage?group_by=team`);
+    expect(invalid.status).toBe(400);
+  });
+});